@@ -3,10 +3,12 @@ import React, { useState, useRef, DragEvent, ChangeEvent } from 'react';
 interface DropzoneProps {
     onFileSelect: (file: File) => void;
     accept: string;
+    // Calls onFileSelect once for every selected or dropped file.
+    multiple?: boolean;
     children: React.ReactNode;
 }
 
-const Dropzone: React.FC<DropzoneProps> = ({ onFileSelect, accept, children }) => {
+const Dropzone: React.FC<DropzoneProps> = ({ onFileSelect, accept, multiple = false, children }) => {
     const [isDraggingOver, setIsDraggingOver] = useState(false);
     const inputRef = useRef<HTMLInputElement>(null);
 
@@ -40,16 +42,20 @@ const Dropzone: React.FC<DropzoneProps> = ({ onFileSelect, accept, children }) =
         if (files && files.length > 0) {
             // Basic validation, more can be added
             const acceptedTypes = accept.split(',').map(t => t.trim());
-            const file = files[0];
-            const isAccepted = acceptedTypes.some(type => {
+            const droppedFiles = multiple ? Array.from(files) : [files[0]];
+            const isAccepted = (file: File) => acceptedTypes.some(type => {
                 if(type.endsWith('/*')) {
                     return file.type.startsWith(type.slice(0, -1));
                 }
+                // File extensions such as ".srt", whose MIME type browsers often leave empty.
+                if (type.startsWith('.')) {
+                    return file.name.toLowerCase().endsWith(type.toLowerCase());
+                }
                 return file.type === type;
             });
             
-            if (isAccepted) {
-                 onFileSelect(file);
+            if (droppedFiles.every(isAccepted)) {
+                 droppedFiles.forEach(file => onFileSelect(file));
             } else {
                 alert(`Invalid file type. Please upload one of the following: ${accept}`);
             }
@@ -59,8 +65,10 @@ const Dropzone: React.FC<DropzoneProps> = ({ onFileSelect, accept, children }) =
     const handleFileChange = (e: ChangeEvent<HTMLInputElement>) => {
         const files = e.target.files;
         if (files && files.length > 0) {
-            onFileSelect(files[0]);
+            (multiple ? Array.from(files) : [files[0]]).forEach(file => onFileSelect(file));
         }
+        // Lets the same file be selected again.
+        e.target.value = '';
     };
 
     const handleClick = () => {
@@ -84,6 +92,7 @@ const Dropzone: React.FC<DropzoneProps> = ({ onFileSelect, accept, children }) =
                 ref={inputRef}
                 type="file"
                 accept={accept}
+                multiple={multiple}
                 onChange={handleFileChange}
                 className="hidden"
             />
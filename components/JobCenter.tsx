@@ -0,0 +1,92 @@
+import React, { useState, useEffect, useContext } from 'react';
+import { VideoJob } from '../types';
+import { JobsContext, isJobActive } from '../context/JobsContext';
+import Spinner from './Spinner';
+
+const formatElapsed = (ms: number): string => {
+    const seconds = Math.max(0, Math.floor(ms / 1000));
+    return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+};
+
+const statusText = (job: VideoJob, now: number): string => {
+    switch (job.status) {
+        case 'starting': return 'Starting...';
+        case 'running': return `Generating (${formatElapsed(now - job.createdAt)})`;
+        case 'succeeded': return 'Ready';
+        case 'failed': return 'Failed';
+        case 'cancelled': return 'Cancelled';
+    }
+};
+
+// Header badge and dropdown listing background video jobs, which keep running while the user
+// moves between features.
+const JobCenter: React.FC<{ onOpenHistory: (historyItemId: string) => void }> = ({ onOpenHistory }) => {
+    const { jobs, cancelJob, dismissJob, clearFinishedJobs, markJobsSeen } = useContext(JobsContext);
+    const [isOpen, setIsOpen] = useState(false);
+    const [now, setNow] = useState(Date.now());
+
+    const activeCount = jobs.filter(isJobActive).length;
+    const unseenCount = jobs.filter(job => !job.seen).length;
+
+    useEffect(() => {
+        if (!isOpen || activeCount === 0) return;
+        const interval = window.setInterval(() => setNow(Date.now()), 1000);
+        return () => window.clearInterval(interval);
+    }, [isOpen, activeCount]);
+
+    useEffect(() => {
+        if (isOpen && unseenCount > 0) markJobsSeen();
+    }, [isOpen, unseenCount, markJobsSeen]);
+
+    if (jobs.length === 0) return null;
+
+    const handleToggle = () => {
+        setNow(Date.now());
+        setIsOpen(open => !open);
+    };
+
+    return (
+        <div className="relative">
+            <button
+                onClick={handleToggle}
+                className={`flex items-center gap-2 px-3 py-1 rounded-full text-sm font-medium transition ${
+                    unseenCount > 0 ? 'bg-green-700 text-white' : 'bg-gray-700 hover:bg-gray-600 text-gray-200'
+                }`}
+            >
+                {activeCount > 0 && <Spinner className="w-4 h-4" />}
+                {activeCount > 0 ? `${activeCount} running` : 'Jobs'}
+                {unseenCount > 0 && <span className="bg-white text-green-800 rounded-full px-2 text-xs">{unseenCount} new</span>}
+            </button>
+            {isOpen && (
+                <div className="absolute right-0 mt-2 w-80 bg-gray-800 border border-gray-700 rounded-lg shadow-2xl p-3 space-y-2 z-20">
+                    <div className="flex justify-between items-center">
+                        <h2 className="font-semibold text-white">Background Jobs</h2>
+                        <button onClick={clearFinishedJobs} className="text-xs text-gray-400 hover:text-white">Clear finished</button>
+                    </div>
+                    <ul className="space-y-2 max-h-96 overflow-auto">
+                        {jobs.map(job => (
+                            <li key={job.id} className="bg-gray-900/50 p-2 rounded-md text-sm">
+                                <p className="text-white truncate" title={job.label}>{job.label}</p>
+                                <p className="text-xs text-gray-400">{job.feature} &middot; {statusText(job, now)}</p>
+                                {job.status === 'failed' && job.error && <p className="text-xs text-red-400 mt-1">{job.error}</p>}
+                                <div className="flex gap-3 mt-1 text-xs">
+                                    {isJobActive(job) && (
+                                        <button onClick={() => cancelJob(job.id)} className="text-red-400 hover:underline">Cancel</button>
+                                    )}
+                                    {job.status === 'succeeded' && job.historyItemId && (
+                                        <button onClick={() => { setIsOpen(false); onOpenHistory(job.historyItemId!); }} className="text-blue-400 hover:underline">Open in History</button>
+                                    )}
+                                    {!isJobActive(job) && (
+                                        <button onClick={() => dismissJob(job.id)} className="text-gray-400 hover:underline">Dismiss</button>
+                                    )}
+                                </div>
+                            </li>
+                        ))}
+                    </ul>
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default JobCenter;
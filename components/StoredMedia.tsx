@@ -0,0 +1,49 @@
+import React, { useState, useRef, useEffect } from 'react';
+import { MediaValue } from '../types';
+import { useMediaUrl } from '../hooks/useMediaUrl';
+import Spinner from './Spinner';
+
+interface StoredMediaProps {
+    value: MediaValue;
+    children: (url: string) => React.ReactNode;
+}
+
+// Renders a history media value once it scrolls into view, so long histories only read the blobs they show.
+const StoredMedia: React.FC<StoredMediaProps> = ({ value, children }) => {
+    const containerRef = useRef<HTMLDivElement>(null);
+    const [isVisible, setIsVisible] = useState(false);
+    const { url, status } = useMediaUrl(value, isVisible);
+
+    useEffect(() => {
+        const element = containerRef.current;
+        if (!element || isVisible) return;
+        if (!('IntersectionObserver' in window)) {
+            setIsVisible(true);
+            return;
+        }
+        const observer = new IntersectionObserver((entries) => {
+            if (entries.some(entry => entry.isIntersecting)) {
+                setIsVisible(true);
+                observer.disconnect();
+            }
+        }, { rootMargin: '200px' });
+        observer.observe(element);
+        return () => observer.disconnect();
+    }, [isVisible]);
+
+    return (
+        <div ref={containerRef}>
+            {status === 'ready' && url ? children(url) : status === 'expired' ? (
+                <div className="text-xs text-gray-500 bg-gray-900 p-2 rounded-md">Media unavailable: this entry was saved before media was stored with history.</div>
+            ) : status === 'missing' ? (
+                <div className="text-xs text-gray-500 bg-gray-900 p-2 rounded-md">Media unavailable.</div>
+            ) : (
+                <div className="flex justify-center items-center h-16 bg-gray-900 rounded-md text-gray-500">
+                    {status === 'loading' && <Spinner className="w-5 h-5" />}
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default StoredMedia;
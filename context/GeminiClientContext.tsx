@@ -0,0 +1,27 @@
+import React, { createContext, useMemo, ReactNode } from 'react';
+import { GeminiClient, GeminiTransport, createGeminiTransport, loadGeminiClientConfig } from '../services/geminiClient';
+
+interface GeminiClientContextType {
+    client: GeminiClient;
+    transportName: string;
+}
+
+const defaultTransport = createGeminiTransport(loadGeminiClientConfig());
+
+export const GeminiClientContext = createContext<GeminiClientContextType>({
+    client: defaultTransport.createClient(),
+    transportName: defaultTransport.name,
+});
+
+export const GeminiClientProvider: React.FC<{ transport?: GeminiTransport; children: ReactNode }> = ({ transport = defaultTransport, children }) => {
+    const value = useMemo(() => ({
+        client: transport.createClient(),
+        transportName: transport.name,
+    }), [transport]);
+
+    return (
+        <GeminiClientContext.Provider value={value}>
+            {children}
+        </GeminiClientContext.Provider>
+    );
+};
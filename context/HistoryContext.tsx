@@ -1,50 +1,212 @@
-import React, { createContext, useState, useEffect, ReactNode } from 'react';
-import { HistoryItem } from '../types';
+import React, { createContext, useState, useEffect, useCallback, useRef, ReactNode } from 'react';
+import { HistoryItem, HistoryItemMetadata, NewHistoryItem, HISTORY_SCHEMA_VERSION } from '../types';
+import {
+    extractMedia, saveHistoryItem, loadHistoryItems, updateHistoryItems as updateStoredItems,
+    deleteHistoryItems as deleteStoredItems, loadMediaSizes, clearHistoryStore, migrateLegacyHistory,
+} from '../services/historyStore';
+import { readHistoryArchive } from '../services/historyArchive';
+import { RetentionSettings, isRetentionEnabled, loadRetentionSettings, saveRetentionSettings, selectItemsToPrune } from '../services/historyRetention';
+
+// How long a deletion can be undone before it is written to storage.
+const UNDO_WINDOW_MS = 8000;
 
 interface HistoryContextType {
     historyItems: HistoryItem[];
-    addHistoryItem: (item: HistoryItem) => void;
+    isHistoryLoading: boolean;
+    storageError: string | null;
+    // Adding an entry with the id of an existing one replaces it, media included, e.g. to save a session that grew.
+    addHistoryItem: (item: NewHistoryItem) => void;
+    updateHistoryItems: (ids: string[], update: (item: HistoryItem) => HistoryItemMetadata) => void;
+    deleteHistoryItems: (ids: string[]) => void;
+    // Entries from the last deletion that can still be restored with undoDelete.
+    recentlyDeleted: HistoryItem[];
+    undoDelete: () => void;
     clearHistory: () => void;
+    // Adds the entries of an exported archive, skipping ids already in History.
+    importHistory: (archive: Blob) => Promise<{ imported: number; skipped: number }>;
+    retention: RetentionSettings;
+    setRetention: (settings: RetentionSettings) => void;
 }
 
 export const HistoryContext = createContext<HistoryContextType>({
     historyItems: [],
+    isHistoryLoading: false,
+    storageError: null,
     addHistoryItem: () => {},
+    updateHistoryItems: () => {},
+    deleteHistoryItems: () => {},
+    recentlyDeleted: [],
+    undoDelete: () => {},
     clearHistory: () => {},
+    importHistory: async () => ({ imported: 0, skipped: 0 }),
+    retention: { maxAgeDays: null, maxStorageMB: null },
+    setRetention: () => {},
 });
 
+const newestFirst = (a: HistoryItem, b: HistoryItem) => b.timestamp - a.timestamp;
+
 export const HistoryProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
     const [historyItems, setHistoryItems] = useState<HistoryItem[]>([]);
+    const [isHistoryLoading, setIsHistoryLoading] = useState<boolean>(true);
+    const [storageError, setStorageError] = useState<string | null>(null);
+    const [recentlyDeleted, setRecentlyDeleted] = useState<HistoryItem[]>([]);
+    const [retention, setRetentionState] = useState<RetentionSettings>(loadRetentionSettings);
+    // Mirrors `historyItems` so callbacks can persist the entries they change.
+    const historyItemsRef = useRef<HistoryItem[]>([]);
+    historyItemsRef.current = historyItems;
+    const pendingDeletionRef = useRef<{ ids: string[]; timer: number } | null>(null);
 
     useEffect(() => {
-        try {
-            const storedItems = localStorage.getItem('gemini-showcase-history');
-            if (storedItems) {
-                setHistoryItems(JSON.parse(storedItems));
-            }
-        } catch (error) {
-            console.error("Failed to load history from localStorage", error);
+        let cancelled = false;
+        navigator.storage?.persist?.().catch(() => {});
+
+        migrateLegacyHistory()
+            // A failed migration leaves the legacy key for the next start; the IndexedDB history still loads.
+            .catch(error => console.error("Failed to migrate legacy history", error))
+            .then(() => loadHistoryItems())
+            .then(storedItems => {
+                if (cancelled) return;
+                // Keep anything added while the store was still loading.
+                setHistoryItems(prevItems => [
+                    ...prevItems,
+                    ...storedItems.filter(stored => !prevItems.some(item => item.id === stored.id)),
+                ]);
+            })
+            .catch(error => {
+                console.error("Failed to load history from IndexedDB", error);
+                if (!cancelled) setStorageError(`Your saved history could not be loaded: ${error?.message || error}`);
+            })
+            .finally(() => {
+                if (!cancelled) setIsHistoryLoading(false);
+            });
+
+        return () => { cancelled = true; };
+    }, []);
+
+    const addHistoryItem = useCallback((newItem: NewHistoryItem) => {
+        const existing = historyItemsRef.current.find(current => current.id === newItem.id);
+        // A replaced entry keeps the title, pin and tags the user gave it in History.
+        const metadata: HistoryItemMetadata = existing ? { title: existing.title, pinned: existing.pinned, tags: existing.tags } : {};
+        const { item, media } = extractMedia({ ...newItem, ...metadata, version: HISTORY_SCHEMA_VERSION } as HistoryItem);
+        setHistoryItems(prevItems => existing
+            ? prevItems.map(current => current.id === item.id ? item : current)
+            : [item, ...prevItems]);
+        saveHistoryItem(item, media).catch(error => {
+            console.error("Failed to save history item to IndexedDB", error);
+            setStorageError(`The latest ${item.feature} result could not be saved and will be lost on reload: ${error?.message || error}`);
+        });
+    }, []);
+
+    const updateHistoryItems = useCallback((ids: string[], update: (item: HistoryItem) => HistoryItemMetadata) => {
+        const updated = new Map(historyItemsRef.current
+            .filter(item => ids.includes(item.id))
+            .map(item => [item.id, { ...item, ...update(item) } as HistoryItem]));
+        if (updated.size === 0) return;
+        setHistoryItems(prevItems => prevItems.map(item => updated.get(item.id) ?? item));
+        updateStoredItems([...updated.values()]).catch(error => {
+            console.error("Failed to update history items in IndexedDB", error);
+            setStorageError(`Your changes to History could not be saved: ${error?.message || error}`);
+        });
+    }, []);
+
+    const removeFromStore = useCallback((ids: string[]) => {
+        deleteStoredItems(ids).catch(error => {
+            console.error("Failed to delete history items from IndexedDB", error);
+            setStorageError(`Deleted entries could not be removed from browser storage: ${error?.message || error}`);
+        });
+    }, []);
+
+    const commitPendingDeletion = useCallback(() => {
+        const pending = pendingDeletionRef.current;
+        if (!pending) return;
+        window.clearTimeout(pending.timer);
+        pendingDeletionRef.current = null;
+        removeFromStore(pending.ids);
+    }, [removeFromStore]);
+
+    // Entries disappear immediately but stay in storage until the undo window closes.
+    const deleteHistoryItems = useCallback((ids: string[]) => {
+        const deleted = historyItemsRef.current.filter(item => ids.includes(item.id));
+        if (deleted.length === 0) return;
+        commitPendingDeletion();
+        setHistoryItems(prevItems => prevItems.filter(item => !ids.includes(item.id)));
+        setRecentlyDeleted(deleted);
+        const timer = window.setTimeout(() => {
+            commitPendingDeletion();
+            setRecentlyDeleted([]);
+        }, UNDO_WINDOW_MS);
+        pendingDeletionRef.current = { ids: deleted.map(item => item.id), timer };
+    }, [commitPendingDeletion]);
+
+    const undoDelete = useCallback(() => {
+        const pending = pendingDeletionRef.current;
+        if (!pending) return;
+        window.clearTimeout(pending.timer);
+        pendingDeletionRef.current = null;
+        setHistoryItems(prevItems => [...prevItems, ...recentlyDeleted].sort(newestFirst));
+        setRecentlyDeleted([]);
+    }, [recentlyDeleted]);
+
+    // Writes any deletion still waiting on its undo window when the provider goes away.
+    useEffect(() => commitPendingDeletion, [commitPendingDeletion]);
+
+    const importHistory = useCallback(async (archive: Blob) => {
+        // A pending deletion would otherwise remove re-imported copies of the entries it deletes.
+        commitPendingDeletion();
+        setRecentlyDeleted([]);
+        const { entries, skippedIds } = await readHistoryArchive(archive, new Set(historyItemsRef.current.map(item => item.id)));
+        for (const { item, media } of entries) {
+            await saveHistoryItem(item, media);
         }
+        const imported = entries.map(entry => entry.item);
+        setHistoryItems(prevItems => [
+            ...prevItems,
+            ...imported.filter(item => !prevItems.some(existing => existing.id === item.id)),
+        ].sort(newestFirst));
+        return { imported: imported.length, skipped: skippedIds.length };
+    }, [commitPendingDeletion]);
+
+    const setRetention = useCallback((settings: RetentionSettings) => {
+        saveRetentionSettings(settings);
+        setRetentionState(settings);
     }, []);
 
     useEffect(() => {
-        try {
-            localStorage.setItem('gemini-showcase-history', JSON.stringify(historyItems));
-        } catch (error) {
-            console.error("Failed to save history to localStorage", error);
-        }
-    }, [historyItems]);
+        if (isHistoryLoading || !isRetentionEnabled(retention)) return;
+        let cancelled = false;
+
+        (retention.maxStorageMB !== null ? loadMediaSizes() : Promise.resolve(new Map<string, number>()))
+            .then(mediaSizes => {
+                if (cancelled) return;
+                const pruned = selectItemsToPrune(historyItemsRef.current, mediaSizes, retention);
+                if (pruned.length === 0) return;
+                setHistoryItems(prevItems => prevItems.filter(item => !pruned.includes(item.id)));
+                removeFromStore(pruned);
+            })
+            .catch(error => console.error("Failed to apply history retention rules", error));
 
-    const addHistoryItem = (item: HistoryItem) => {
-        setHistoryItems(prevItems => [item, ...prevItems]);
-    };
+        return () => { cancelled = true; };
+    }, [retention, isHistoryLoading, historyItems.length, removeFromStore]);
 
-    const clearHistory = () => {
+    const clearHistory = useCallback(() => {
+        if (pendingDeletionRef.current) {
+            window.clearTimeout(pendingDeletionRef.current.timer);
+            pendingDeletionRef.current = null;
+        }
+        setRecentlyDeleted([]);
         setHistoryItems([]);
-    };
+        setStorageError(null);
+        clearHistoryStore().catch(error => {
+            console.error("Failed to clear history in IndexedDB", error);
+            setStorageError(`History could not be cleared from browser storage: ${error?.message || error}`);
+        });
+    }, []);
 
     return (
-        <HistoryContext.Provider value={{ historyItems, addHistoryItem, clearHistory }}>
+        <HistoryContext.Provider value={{
+            historyItems, isHistoryLoading, storageError, addHistoryItem, updateHistoryItems,
+            deleteHistoryItems, recentlyDeleted, undoDelete, clearHistory, importHistory, retention, setRetention,
+        }}>
             {children}
         </HistoryContext.Provider>
     );
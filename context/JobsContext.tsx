@@ -0,0 +1,203 @@
+import React, { createContext, useState, useEffect, useCallback, useContext, useMemo, useRef, ReactNode } from 'react';
+import { GenerateVideosOperation, GenerateVideosParameters } from '@google/genai';
+import { HistoryFeature, NewHistoryItem, VideoJob } from '../types';
+import { GeminiClientContext } from './GeminiClientContext';
+import { HistoryContext } from './HistoryContext';
+import { scheduleClient } from '../services/geminiClient';
+import { requestScheduler } from '../services/requestScheduler';
+import { loadJobs, saveJob, deleteJobs } from '../services/jobStore';
+import { waitForGeneratedVideo } from '../services/videoGeneration';
+import { getFriendlyErrorMessage } from '../utils/errorHandler';
+
+export interface VideoJobSpec {
+    feature: HistoryFeature;
+    label: string;
+    inputs: Record<string, any>;
+    outputKey: string;
+    // Builds the generateVideos request; runs inside the job so slow preparation (reading files,
+    // extracting frames) survives the feature being unmounted.
+    request: () => Promise<GenerateVideosParameters>;
+}
+
+interface JobsContextType {
+    jobs: VideoJob[];
+    startVideoJob: (spec: VideoJobSpec) => string;
+    cancelJob: (id: string) => void;
+    dismissJob: (id: string) => void;
+    clearFinishedJobs: () => void;
+    markJobsSeen: () => void;
+}
+
+export const JobsContext = createContext<JobsContextType>({
+    jobs: [],
+    startVideoJob: () => '',
+    cancelJob: () => {},
+    dismissJob: () => {},
+    clearFinishedJobs: () => {},
+    markJobsSeen: () => {},
+});
+
+export const isJobActive = (job: VideoJob): boolean => job.status === 'starting' || job.status === 'running';
+
+const persistJob = (job: VideoJob) => {
+    saveJob(job).catch(error => console.error("Failed to save video job to IndexedDB", error));
+};
+
+const notify = (title: string, body: string) => {
+    if (typeof Notification === 'undefined' || Notification.permission !== 'granted') return;
+    try {
+        new Notification(title, { body });
+    } catch (error) {
+        // Some mobile browsers only allow notifications from a service worker.
+        console.error("Failed to show notification", error);
+    }
+};
+
+export const JobsProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
+    const { client } = useContext(GeminiClientContext);
+    const { addHistoryItem } = useContext(HistoryContext);
+    const ai = useMemo(() => scheduleClient(client, requestScheduler), [client]);
+    const [jobs, setJobs] = useState<VideoJob[]>([]);
+    // Mirrors `jobs` so callbacks can read and persist the latest records without stale closures.
+    const jobsRef = useRef<VideoJob[]>([]);
+    const controllersRef = useRef(new Map<string, AbortController>());
+
+    const commitJobs = useCallback((nextJobs: VideoJob[]) => {
+        jobsRef.current = nextJobs;
+        setJobs(nextJobs);
+    }, []);
+
+    const updateJob = useCallback((id: string, changes: Partial<VideoJob>) => {
+        const job = jobsRef.current.find(j => j.id === id);
+        if (!job) return;
+        const updated = { ...job, ...changes };
+        commitJobs(jobsRef.current.map(j => j.id === id ? updated : j));
+        persistJob(updated);
+    }, [commitJobs]);
+
+    const runJob = useCallback(async (job: VideoJob, buildRequest?: () => Promise<GenerateVideosParameters>) => {
+        const controller = new AbortController();
+        controllersRef.current.set(job.id, controller);
+        const { signal } = controller;
+
+        try {
+            let operation: GenerateVideosOperation;
+            if (job.operationName) {
+                operation = Object.assign(new GenerateVideosOperation(), { name: job.operationName });
+            } else if (buildRequest) {
+                const params = await buildRequest();
+                signal.throwIfAborted();
+                operation = await ai.models.generateVideos({ ...params, config: { ...params.config, abortSignal: signal } });
+                signal.throwIfAborted();
+                updateJob(job.id, { status: 'running', operationName: operation.name });
+            } else {
+                throw new Error("The video generation was interrupted before it started.");
+            }
+
+            const blob = await waitForGeneratedVideo(ai, operation, signal);
+
+            const historyItemId = Date.now().toString();
+            // Job records are not typed per feature, so the entry's shape is asserted here.
+            addHistoryItem({
+                id: historyItemId,
+                feature: job.feature,
+                timestamp: Date.now(),
+                inputs: job.inputs,
+                outputs: { [job.outputKey]: blob },
+            } as NewHistoryItem);
+            updateJob(job.id, { status: 'succeeded', finishedAt: Date.now(), historyItemId, seen: false });
+            notify(`${job.feature} finished`, job.label);
+        } catch (e: any) {
+            // Aborts come from cancelJob, which records the outcome itself, or from the provider unmounting.
+            if (signal.aborted) return;
+            console.error(e);
+            updateJob(job.id, { status: 'failed', finishedAt: Date.now(), error: getFriendlyErrorMessage(e), seen: false });
+            notify(`${job.feature} failed`, job.label);
+        } finally {
+            controllersRef.current.delete(job.id);
+        }
+    }, [ai, addHistoryItem, updateJob]);
+
+    useEffect(() => {
+        let cancelled = false;
+        const controllers = controllersRef.current;
+
+        loadJobs()
+            .then(storedJobs => {
+                if (cancelled) return;
+                const known = new Set(jobsRef.current.map(job => job.id));
+                const restored = storedJobs.filter(job => !known.has(job.id));
+                commitJobs([...jobsRef.current, ...restored]);
+                // Jobs without an operation name were closed mid-request and cannot be resumed;
+                // runJob marks them failed.
+                restored.filter(isJobActive).forEach(job => runJob(job));
+            })
+            .catch(error => console.error("Failed to load video jobs from IndexedDB", error));
+
+        return () => {
+            cancelled = true;
+            controllers.forEach(controller => controller.abort());
+            controllers.clear();
+        };
+    }, [commitJobs, runJob]);
+
+    const startVideoJob = useCallback((spec: VideoJobSpec): string => {
+        const job: VideoJob = {
+            id: Date.now().toString(),
+            feature: spec.feature,
+            label: spec.label,
+            status: 'starting',
+            createdAt: Date.now(),
+            inputs: spec.inputs,
+            outputKey: spec.outputKey,
+            seen: true,
+        };
+        commitJobs([job, ...jobsRef.current]);
+        persistJob(job);
+        if (typeof Notification !== 'undefined' && Notification.permission === 'default') {
+            Notification.requestPermission().catch(() => {});
+        }
+        runJob(job, spec.request);
+        return job.id;
+    }, [commitJobs, runJob]);
+
+    const cancelJob = useCallback((id: string) => {
+        const job = jobsRef.current.find(j => j.id === id);
+        if (!job || !isJobActive(job)) return;
+        controllersRef.current.get(id)?.abort();
+        addHistoryItem({
+            id: Date.now().toString(),
+            feature: job.feature,
+            timestamp: Date.now(),
+            inputs: job.inputs,
+            outputs: {},
+            status: 'cancelled',
+        } as NewHistoryItem);
+        updateJob(id, { status: 'cancelled', finishedAt: Date.now() });
+    }, [addHistoryItem, updateJob]);
+
+    const removeJobs = useCallback((ids: string[]) => {
+        if (ids.length === 0) return;
+        commitJobs(jobsRef.current.filter(job => !ids.includes(job.id)));
+        deleteJobs(ids).catch(error => console.error("Failed to delete video jobs from IndexedDB", error));
+    }, [commitJobs]);
+
+    const dismissJob = useCallback((id: string) => {
+        const job = jobsRef.current.find(j => j.id === id);
+        if (job && !isJobActive(job)) removeJobs([id]);
+    }, [removeJobs]);
+
+    const clearFinishedJobs = useCallback(() => {
+        removeJobs(jobsRef.current.filter(job => !isJobActive(job)).map(job => job.id));
+    }, [removeJobs]);
+
+    const markJobsSeen = useCallback(() => {
+        jobsRef.current.filter(job => !job.seen).forEach(job => updateJob(job.id, { seen: true }));
+    }, [updateJob]);
+
+    return (
+        <JobsContext.Provider value={{ jobs, startVideoJob, cancelJob, dismissJob, clearFinishedJobs, markJobsSeen }}>
+            {children}
+        </JobsContext.Provider>
+    );
+};
@@ -0,0 +1,41 @@
+import React, { createContext, useState, useEffect, useCallback, ReactNode } from 'react';
+import { Feature } from '../types';
+import { Route, DEFAULT_FEATURE, parseHash, featureHash } from '../utils/routing';
+
+interface RouteContextType {
+    route: Route;
+    navigate: (feature: Feature, params?: Record<string, string>) => void;
+    // Navigates to a raw hash such as one built by historyItemHash.
+    navigateToHash: (hash: string) => void;
+}
+
+export const RouteContext = createContext<RouteContextType>({
+    route: { feature: DEFAULT_FEATURE, params: new URLSearchParams() },
+    navigate: () => {},
+    navigateToHash: () => {},
+});
+
+export const RouteProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
+    const [route, setRoute] = useState<Route>(() => parseHash(window.location.hash));
+
+    useEffect(() => {
+        const handleHashChange = () => setRoute(parseHash(window.location.hash));
+        window.addEventListener('hashchange', handleHashChange);
+        return () => window.removeEventListener('hashchange', handleHashChange);
+    }, []);
+
+    const navigateToHash = useCallback((hash: string) => {
+        // Assigning the hash fires hashchange, which updates the route and adds a browser history entry.
+        window.location.hash = hash;
+    }, []);
+
+    const navigate = useCallback((feature: Feature, params?: Record<string, string>) => {
+        navigateToHash(featureHash(feature, params));
+    }, [navigateToHash]);
+
+    return (
+        <RouteContext.Provider value={{ route, navigate, navigateToHash }}>
+            {children}
+        </RouteContext.Provider>
+    );
+};
@@ -0,0 +1,50 @@
+import React, { createContext, useState, useCallback, useContext, useRef, ReactNode } from 'react';
+import { Feature, SentAsset } from '../types';
+import { RouteContext } from './RouteContext';
+
+interface PendingAsset {
+    target: Feature;
+    asset: SentAsset;
+}
+
+interface SendToContextType {
+    // Opens `target` and hands it the asset; the target picks it up with useReceivedAsset.
+    sendTo: (target: Feature, asset: SentAsset) => void;
+    pendingAsset: PendingAsset | null;
+    // Returns the asset waiting for `target`, at most once.
+    takeAsset: (target: Feature) => SentAsset | null;
+}
+
+export const SendToContext = createContext<SendToContextType>({
+    sendTo: () => {},
+    pendingAsset: null,
+    takeAsset: () => null,
+});
+
+export const SendToProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
+    const { navigate } = useContext(RouteContext);
+    const [pendingAsset, setPendingAsset] = useState<PendingAsset | null>(null);
+    // Read by takeAsset so a second effect run in the same render (Strict Mode) gets nothing.
+    const pendingRef = useRef<PendingAsset | null>(null);
+
+    const sendTo = useCallback((target: Feature, asset: SentAsset) => {
+        const pending = { target, asset };
+        pendingRef.current = pending;
+        setPendingAsset(pending);
+        navigate(target);
+    }, [navigate]);
+
+    const takeAsset = useCallback((target: Feature) => {
+        const pending = pendingRef.current;
+        if (pending?.target !== target) return null;
+        pendingRef.current = null;
+        setPendingAsset(null);
+        return pending.asset;
+    }, []);
+
+    return (
+        <SendToContext.Provider value={{ sendTo, pendingAsset, takeAsset }}>
+            {children}
+        </SendToContext.Provider>
+    );
+};
@@ -0,0 +1,19 @@
+import React from 'react';
+import { FeatureDefinition } from './common/featureDefinition';
+import { IconAudioWave } from '../components/Icons';
+
+export const meta: FeatureDefinition<'Audio Analysis'> = {
+    name: 'Audio Analysis',
+    route: 'audio-analysis',
+    icon: IconAudioWave,
+    description: 'Transcribe or analyze an audio clip.',
+    component: React.lazy(() => import('./AudioAnalysis')),
+    inputSchema: {
+        audio: { kind: 'audio' },
+    },
+    outputSchema: {
+        analysis: { kind: 'markdown', fileSuffix: '-analysis.txt', downloadLabel: 'Download Text' },
+    },
+    supportsRerun: true,
+    receives: { audio: 'Analyze the audio' },
+};
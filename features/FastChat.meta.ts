@@ -0,0 +1,17 @@
+import React from 'react';
+import { FeatureDefinition } from './common/featureDefinition';
+import { FastChatHistory } from './common/HistoryRenderers';
+import { IconFastChat } from '../components/Icons';
+
+export const meta: FeatureDefinition<'Fast Chat'> = {
+    name: 'Fast Chat',
+    route: 'fast-chat',
+    icon: IconFastChat,
+    description: 'Low-latency streaming chat.',
+    component: React.lazy(() => import('./FastChat')),
+    inputSchema: {},
+    outputSchema: {
+        transcript: { kind: 'transcript', fileSuffix: '-transcript.txt', downloadLabel: 'Download Transcript' },
+    },
+    historyRenderer: FastChatHistory,
+};
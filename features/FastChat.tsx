@@ -1,11 +1,14 @@
 import React, { useState, useRef, useEffect, useContext } from 'react';
-import { GoogleGenAI, Chat } from "@google/genai";
 import Spinner from '../components/Spinner';
 import FeatureLayout from './common/FeatureLayout';
-import { TextArea, Button } from './common/Controls';
+import RequestStatus from './common/RequestStatus';
+import { TextArea, Button, CancelButton } from './common/Controls';
 import { HistoryContext } from '../context/HistoryContext';
+import { useGeminiClient } from '../hooks/useGeminiClient';
+import { useCancellableRun } from '../hooks/useCancellableRun';
 import ReactMarkdown from 'react-markdown';
 import { getFriendlyErrorMessage } from '../utils/errorHandler';
+import { GeminiChat } from '../services/geminiClient';
 
 interface ChatMessage {
     source: 'user' | 'model';
@@ -14,7 +17,9 @@ interface ChatMessage {
 
 const FastChat: React.FC = () => {
     const { addHistoryItem } = useContext(HistoryContext);
-    const [chat, setChat] = useState<Chat | null>(null);
+    const { ai, requestActivity } = useGeminiClient();
+    const { startRun, cancelRun } = useCancellableRun();
+    const [chat, setChat] = useState<GeminiChat | null>(null);
     const [conversation, setConversation] = useState<ChatMessage[]>([]);
     const [currentInput, setCurrentInput] = useState<string>('');
     const [isLoading, setIsLoading] = useState<boolean>(false);
@@ -29,7 +34,6 @@ const FastChat: React.FC = () => {
     // Initialize chat
     useEffect(() => {
         try {
-            const ai = new GoogleGenAI({ apiKey: process.env.API_KEY as string });
             const chatSession = ai.chats.create({
                 model: 'gemini-2.5-flash-lite',
             });
@@ -51,7 +55,7 @@ const FastChat: React.FC = () => {
                 });
             }
         };
-    }, [addHistoryItem]);
+    }, [ai, addHistoryItem]);
     
     // Auto-scroll chat
     useEffect(() => {
@@ -68,9 +72,10 @@ const FastChat: React.FC = () => {
         setCurrentInput('');
         setIsLoading(true);
         setError(null);
+        const signal = startRun();
         
         try {
-            const stream = await chat.sendMessageStream({ message: userMessage.text });
+            const stream = await chat.sendMessageStream({ message: userMessage.text, config: { abortSignal: signal } });
             
             let modelResponse = '';
             setConversation(prev => [...prev, { source: 'model', text: '' }]);
@@ -85,8 +90,11 @@ const FastChat: React.FC = () => {
             }
 
         } catch (e: any) {
-            setError(getFriendlyErrorMessage(e));
-            console.error(e);
+            // Stopping keeps whatever part of the reply already streamed in.
+            if (!signal.aborted) {
+                setError(getFriendlyErrorMessage(e));
+                console.error(e);
+            }
             setConversation(prev => {
                 const lastMessage = prev[prev.length - 1];
                 // Remove the empty/incomplete model message on error
@@ -125,6 +133,7 @@ const FastChat: React.FC = () => {
                         </div>
                     )}
                 </div>
+                {requestActivity && <div className="mb-4"><RequestStatus activity={requestActivity} /></div>}
                 {error && (
                     <div className="text-red-400 bg-red-900/50 p-3 rounded-md mb-4 prose prose-invert max-w-none prose-p:my-0">
                         <ReactMarkdown components={{ a: ({node, ...props}) => <a {...props} className="text-blue-400 hover:underline" target="_blank" rel="noopener noreferrer" /> }}>
@@ -142,9 +151,13 @@ const FastChat: React.FC = () => {
                         className="flex-grow"
                         disabled={isLoading}
                     />
-                    <Button onClick={handleSendMessage} disabled={isLoading || !currentInput.trim()}>
-                        {isLoading ? <Spinner className="w-5 h-5" /> : 'Send'}
-                    </Button>
+                    {isLoading ? (
+                        <CancelButton onClick={cancelRun}>Stop</CancelButton>
+                    ) : (
+                        <Button onClick={handleSendMessage} disabled={!currentInput.trim()}>
+                            Send
+                        </Button>
+                    )}
                 </div>
             </div>
         </FeatureLayout>
@@ -0,0 +1,13 @@
+import React from 'react';
+import { FeatureDefinition } from './common/featureDefinition';
+import { IconHistory } from '../components/Icons';
+
+export const meta: FeatureDefinition<'History'> = {
+    name: 'History',
+    route: 'history',
+    icon: IconHistory,
+    description: 'Review and download past results.',
+    component: React.lazy(() => import('./History')),
+    inputSchema: {},
+    outputSchema: {},
+};
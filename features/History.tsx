@@ -1,188 +1,278 @@
-import React, { useContext } from 'react';
-import ReactMarkdown from 'react-markdown';
+import React, { useContext, useDeferredValue, useEffect, useMemo, useRef, useState } from 'react';
+import { Feature } from '../types';
 import { HistoryContext } from '../context/HistoryContext';
-import { HistoryItem } from '../types';
+import { RouteContext } from '../context/RouteContext';
+import { historyItemHash } from '../utils/routing';
+import { downloadBlob } from '../utils/fileUtils';
+import { exportHistoryArchive } from '../services/historyArchive';
 import FeatureLayout from './common/FeatureLayout';
-import { Button } from './common/Controls';
-import { IconDownload } from '../components/Icons';
+import { Button, Input, Select } from './common/Controls';
+import HistoryEntryCard, { normalizeTags } from './common/HistoryEntryCard';
+import HistoryCompare from './common/HistoryCompare';
+import RetentionSettingsPanel from './common/RetentionSettingsPanel';
+import Spinner from '../components/Spinner';
+import { HistoryFilters, HistoryMediaType, HistorySort, EMPTY_HISTORY_FILTERS, HISTORY_MEDIA_TYPES, buildHistoryIndex, searchHistory } from '../utils/historySearch';
+
+const SORT_OPTIONS: { value: HistorySort; label: string }[] = [
+    { value: 'newest', label: 'Newest first' },
+    { value: 'oldest', label: 'Oldest first' },
+    { value: 'relevance', label: 'Best match' },
+    { value: 'feature', label: 'Feature' },
+];
+
+const MAX_COMPARED_ENTRIES = 4;
+
+const MEDIA_TYPE_LABELS: Record<HistoryMediaType, string> = {
+    image: 'Images',
+    video: 'Videos',
+    audio: 'Audio',
+    text: 'Text',
+};
 
 const History: React.FC = () => {
-    const { historyItems, clearHistory } = useContext(HistoryContext);
+    const {
+        historyItems, isHistoryLoading, storageError, clearHistory, updateHistoryItems,
+        deleteHistoryItems, recentlyDeleted, undoDelete, importHistory,
+    } = useContext(HistoryContext);
+    const { route } = useContext(RouteContext);
+    const linkedItemId = route.historyItemId;
+    const isLinkedItemLoaded = !!linkedItemId && historyItems.some(item => item.id === linkedItemId);
+    const [copiedItemId, setCopiedItemId] = useState<string | null>(null);
+    const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+    const [isRetentionOpen, setIsRetentionOpen] = useState(false);
+    const [comparedIds, setComparedIds] = useState<string[]>([]);
+    const [archiveStatus, setArchiveStatus] = useState<{ isBusy: boolean; message?: string; isError?: boolean }>({ isBusy: false });
+    const importInputRef = useRef<HTMLInputElement>(null);
+    const [filters, setFilters] = useState<HistoryFilters>(() => ({ ...EMPTY_HISTORY_FILTERS, query: route.params.get('q') ?? '' }));
+    // Typing stays responsive while a large history is re-filtered in the background.
+    const deferredFilters = useDeferredValue(filters);
 
-    const handleClearHistory = () => {
-        if (window.confirm('Are you sure you want to clear your entire history? This action cannot be undone.')) {
-            clearHistory();
+    const historyIndex = useMemo(() => buildHistoryIndex(historyItems), [historyItems]);
+    const { items: visibleItems, facets } = useMemo(() => searchHistory(historyIndex, deferredFilters), [historyIndex, deferredFilters]);
+    const isFiltered = Object.keys(EMPTY_HISTORY_FILTERS).some(key => key !== 'sort' && filters[key as keyof HistoryFilters] !== '');
+
+    const updateFilter = <K extends keyof HistoryFilters>(key: K, value: HistoryFilters[K]) => {
+        setFilters(current => ({ ...current, [key]: value }));
+    };
+
+    // Only entries still shown count as selected, so filtering never acts on hidden entries.
+    const selectedVisibleIds = visibleItems.filter(item => selectedIds.has(item.id)).map(item => item.id);
+    const areAllVisibleSelected = visibleItems.length > 0 && selectedVisibleIds.length === visibleItems.length;
+
+    const selectedFeatures = new Set(visibleItems.filter(item => selectedIds.has(item.id)).map(item => item.feature));
+    const canCompare = selectedVisibleIds.length >= 2 && selectedVisibleIds.length <= MAX_COMPARED_ENTRIES && selectedFeatures.size === 1;
+    // Entries deleted while being compared drop out of the view.
+    const comparedItems = comparedIds
+        .map(id => historyItems.find(item => item.id === id))
+        .filter((item): item is NonNullable<typeof item> => !!item);
+
+    const toggleSelected = (id: string) => {
+        setSelectedIds(current => {
+            const next = new Set(current);
+            if (!next.delete(id)) next.add(id);
+            return next;
+        });
+    };
+
+    const handleBulkTag = () => {
+        const tag = window.prompt(`Add a tag to ${selectedVisibleIds.length} entries:`)?.trim();
+        if (tag) updateHistoryItems(selectedVisibleIds, item => ({ tags: normalizeTags([...(item.tags ?? []), tag]) }));
+    };
+
+    // Exports the selected entries, or every entry matching the current filters when none are selected.
+    const handleExport = async () => {
+        const ids = new Set(selectedVisibleIds.length > 0 ? selectedVisibleIds : visibleItems.map(item => item.id));
+        setArchiveStatus({ isBusy: true, message: 'Preparing archive...' });
+        try {
+            const archive = await exportHistoryArchive(visibleItems.filter(item => ids.has(item.id)));
+            downloadBlob(archive, `gemini-history-${new Date().toISOString().slice(0, 10)}.zip`);
+            setArchiveStatus({ isBusy: false, message: `Exported ${ids.size} ${ids.size === 1 ? 'entry' : 'entries'}.` });
+        } catch (e: any) {
+            console.error(e);
+            setArchiveStatus({ isBusy: false, message: `Export failed: ${e?.message || e}`, isError: true });
         }
     };
 
-    const handleDownload = (url: string, filename: string) => {
-        const link = document.createElement('a');
-        link.href = url;
-        link.download = filename;
-        document.body.appendChild(link);
-        link.click();
-        document.body.removeChild(link);
+    const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (!file) return;
+        setArchiveStatus({ isBusy: true, message: 'Importing archive...' });
+        try {
+            const { imported, skipped } = await importHistory(file);
+            const skippedText = skipped > 0 ? ` Skipped ${skipped} already in History.` : '';
+            setArchiveStatus({ isBusy: false, message: `Imported ${imported} ${imported === 1 ? 'entry' : 'entries'}.${skippedText}` });
+        } catch (e: any) {
+            console.error(e);
+            setArchiveStatus({ isBusy: false, message: `Import failed: ${e?.message || e}`, isError: true });
+        }
     };
 
-    const handleTextDownload = (content: string, filename: string) => {
-        const blob = new Blob([content], { type: 'text/plain' });
-        const url = URL.createObjectURL(blob);
-        handleDownload(url, filename);
-        URL.revokeObjectURL(url);
+    // Oldest first, so the earliest run is the baseline the others are diffed against.
+    const handleCompare = () => {
+        const ids = new Set(selectedVisibleIds);
+        setComparedIds(historyItems.filter(item => ids.has(item.id)).sort((a, b) => a.timestamp - b.timestamp).map(item => item.id));
+        window.scrollTo({ top: 0, behavior: 'smooth' });
     };
 
-    const renderInputs = (item: HistoryItem) => {
-        return Object.entries(item.inputs).map(([key, value]) => {
-            if (!value) return null;
-            if (key === 'image' || key === 'originalImage') {
-                return (
-                    <div key={key}>
-                        <p className="font-semibold capitalize text-gray-400">{key.replace(/([A-Z])/g, ' $1')}:</p>
-                        <img src={value} alt={key} className="rounded-md mt-1 max-h-32" />
-                    </div>
-                );
-            }
-            if (key === 'video' || key === 'originalVideo') {
-                return (
-                    <div key={key}>
-                         <p className="font-semibold capitalize text-gray-400">{key.replace(/([A-Z])/g, ' $1')}:</p>
-                         <video src={value} controls className="rounded-md mt-1 max-h-32" />
-                    </div>
-                )
-            }
-            if (key === 'audio') {
-                return (
-                    <div key={key}>
-                         <p className="font-semibold capitalize text-gray-400">{key.replace(/([A-Z])/g, ' $1')}:</p>
-                         <audio src={value} controls className="rounded-md mt-1 w-full" />
-                    </div>
-                )
-            }
-            if (key === 'linkUrl') {
-                 return (
-                    <div key={key}>
-                        <p className="font-semibold capitalize text-gray-400">Link URL:</p>
-                        <a href={value} target="_blank" rel="noopener noreferrer" className="text-blue-400 hover:underline break-all">{value}</a>
-                    </div>
-                );
-            }
-            return (
-                <div key={key}>
-                    <p className="font-semibold capitalize text-gray-400">{key.replace(/([A-Z])/g, ' $1')}:</p>
-                    <p className="text-gray-300 bg-gray-900 p-2 rounded-md whitespace-pre-wrap">{String(value)}</p>
-                </div>
-            );
-        });
+    const handleBulkDelete = () => {
+        deleteHistoryItems(selectedVisibleIds);
+        setSelectedIds(new Set());
     };
 
-    const renderOutputs = (item: HistoryItem) => {
-        const outputKey = `${item.feature.toLowerCase().replace(/ /g, '-')}-${item.id}`;
-        return (
-            <div>
-                {item.outputs.images && (
-                    <div className="grid grid-cols-2 gap-2 mt-2">
-                        {item.outputs.images.map((img: string, index: number) => (
-                            <div key={index} className="relative group">
-                                <img src={img} alt={`Generated ${index}`} className="rounded-md w-full" />
-                                <button onClick={() => handleDownload(img, `${outputKey}-image-${index}.jpg`)} className="absolute top-1 right-1 bg-black bg-opacity-50 p-2 rounded-full text-white hover:bg-opacity-75 transition opacity-0 group-hover:opacity-100"><IconDownload /></button>
-                            </div>
-                        ))}
-                    </div>
-                )}
-                {item.outputs.editedImage && (
-                    <div className="relative group mt-2">
-                        <img src={item.outputs.editedImage} alt="Edited" className="rounded-md w-full" />
-                        <button onClick={() => handleDownload(item.outputs.editedImage, `${outputKey}-edited.jpg`)} className="absolute top-1 right-1 bg-black bg-opacity-50 p-2 rounded-full text-white hover:bg-opacity-75 transition opacity-0 group-hover:opacity-100"><IconDownload /></button>
-                    </div>
-                )}
-                {item.outputs.video && (
-                    <div className="mt-2">
-                        <video src={item.outputs.video} controls loop className="rounded-md w-full" />
-                        <Button onClick={() => handleDownload(item.outputs.video, `${outputKey}.mp4`)} className="mt-2 w-full text-sm py-1"><IconDownload /> Download Video</Button>
-                    </div>
-                )}
-                {item.outputs.editedVideo && (
-                    <div className="mt-2">
-                        <video src={item.outputs.editedVideo} controls loop className="rounded-md w-full" />
-                        <Button onClick={() => handleDownload(item.outputs.editedVideo, `${outputKey}-edited.mp4`)} className="mt-2 w-full text-sm py-1"><IconDownload /> Download Edited Video</Button>
-                    </div>
-                )}
-                {item.outputs.audio && (
-                    <div className="mt-2">
-                        <audio src={item.outputs.audio} controls className="w-full" />
-                        <Button onClick={() => handleDownload(item.outputs.audio, `${outputKey}.wav`)} className="mt-2 w-full text-sm py-1"><IconDownload /> Download Audio</Button>
-                    </div>
-                )}
-                {item.outputs.translatedText && (
-                    <div>
-                        <div className="text-gray-300 bg-gray-900 p-2 rounded-md whitespace-pre-wrap mt-2">{item.outputs.translatedText}</div>
-                        <Button onClick={() => handleTextDownload(item.outputs.translatedText, `${outputKey}-translation.txt`)} className="mt-2 w-full text-sm py-1"><IconDownload /> Download Text</Button>
-                    </div>
-                )}
-                {(item.outputs.analysis || item.outputs.summary) && (
-                    <div>
-                        <div className="prose prose-invert max-w-none text-gray-300 bg-gray-900 p-2 rounded-md mt-2">
-                            <ReactMarkdown>{item.outputs.analysis || item.outputs.summary}</ReactMarkdown>
-                        </div>
-                        <Button onClick={() => handleTextDownload(item.outputs.analysis || item.outputs.summary, `${outputKey}-${item.outputs.analysis ? 'analysis' : 'summary'}.txt`)} className="mt-2 w-full text-sm py-1"><IconDownload /> Download Text</Button>
-                    </div>
-                )}
-                {item.outputs.transcript && (
-                     <div>
-                        <div className="space-y-2 mt-2 max-h-48 overflow-y-auto bg-gray-900 p-2 rounded-md">
-                            {item.outputs.transcript.map((entry: any, index: number) => (
-                                <div key={index} className={`flex ${entry.source === 'user' ? 'justify-end' : 'justify-start'}`}>
-                                    <div className={`max-w-md px-3 py-1 rounded-lg prose prose-invert ${entry.source === 'user' ? 'bg-blue-700 text-white' : 'bg-gray-600 text-gray-200'}`}>
-                                        <ReactMarkdown>{entry.text}</ReactMarkdown>
-                                    </div>
-                                </div>
-                            ))}
-                        </div>
-                        <Button onClick={() => {
-                            const formatted = item.outputs.transcript.map((e:any) => `${e.source === 'user' ? 'User' : 'Model'}: ${e.text}`).join('\n\n');
-                            handleTextDownload(formatted, `${outputKey}-transcript.txt`);
-                        }} className="mt-2 w-full text-sm py-1"><IconDownload /> Download Transcript</Button>
-                    </div>
-                )}
-            </div>
-        );
+    useEffect(() => {
+        if (isLinkedItemLoaded) {
+            document.getElementById(`history-item-${linkedItemId}`)?.scrollIntoView({ behavior: 'smooth', block: 'start' });
+        }
+    }, [linkedItemId, isLinkedItemLoaded]);
+
+    const handleCopyLink = (id: string) => {
+        const link = `${window.location.origin}${window.location.pathname}${historyItemHash(id)}`;
+        navigator.clipboard.writeText(link)
+            .then(() => setCopiedItemId(id))
+            .catch(error => console.error("Failed to copy link", error));
     };
 
+    const handleClearHistory = () => {
+        if (window.confirm('Are you sure you want to clear your entire history? This action cannot be undone.')) {
+            clearHistory();
+        }
+    };
 
     return (
         <FeatureLayout
             title="Generation History"
             description="Review your past creations and analyses. All items are saved locally in your browser."
         >
-            <div className="flex justify-end mb-4">
-                <Button onClick={handleClearHistory} disabled={historyItems.length === 0} className="bg-red-600 hover:bg-red-700">
-                    Clear History
-                </Button>
+            {storageError && (
+                <div className="text-red-400 bg-red-900/50 p-3 rounded-md mb-4">{storageError}</div>
+            )}
+            {linkedItemId && !isHistoryLoading && !isLinkedItemLoaded && (
+                <div className="text-yellow-300 bg-yellow-900/50 p-3 rounded-md mb-4">The linked history entry could not be found. It may have been cleared or saved in another browser.</div>
+            )}
+            <div className="bg-gray-900/50 p-4 rounded-lg mb-4 space-y-3">
+                <Input
+                    type="search"
+                    value={filters.query}
+                    onChange={(e) => updateFilter('query', e.target.value)}
+                    placeholder="Search prompts, transcripts, translations, summaries..."
+                    aria-label="Search history"
+                />
+                <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-7 gap-3 text-sm">
+                    <Select value={filters.feature} onChange={(e) => updateFilter('feature', e.target.value as Feature | '')} aria-label="Filter by feature">
+                        <option value="">All features</option>
+                        {[...facets.features].map(([feature, count]) => <option key={feature} value={feature}>{feature} ({count})</option>)}
+                    </Select>
+                    <Select value={filters.model} onChange={(e) => updateFilter('model', e.target.value)} aria-label="Filter by model">
+                        <option value="">All models</option>
+                        {[...facets.models].map(([model, count]) => <option key={model} value={model}>{model} ({count})</option>)}
+                    </Select>
+                    <Select value={filters.mediaType} onChange={(e) => updateFilter('mediaType', e.target.value as HistoryMediaType | '')} aria-label="Filter by media type">
+                        <option value="">All media</option>
+                        {HISTORY_MEDIA_TYPES.filter(type => facets.mediaTypes.has(type)).map(type => (
+                            <option key={type} value={type}>{MEDIA_TYPE_LABELS[type]} ({facets.mediaTypes.get(type)})</option>
+                        ))}
+                    </Select>
+                    <Input type="date" value={filters.from} max={filters.to || undefined} onChange={(e) => updateFilter('from', e.target.value)} aria-label="From date" />
+                    <Input type="date" value={filters.to} min={filters.from || undefined} onChange={(e) => updateFilter('to', e.target.value)} aria-label="To date" />
+                    <Select value={filters.tag} onChange={(e) => updateFilter('tag', e.target.value)} aria-label="Filter by tag">
+                        <option value="">All tags</option>
+                        {[...facets.tags].map(([tag, count]) => <option key={tag} value={tag}>#{tag} ({count})</option>)}
+                    </Select>
+                    <Select value={filters.sort} onChange={(e) => updateFilter('sort', e.target.value as HistorySort)} aria-label="Sort order">
+                        {SORT_OPTIONS.map(option => <option key={option.value} value={option.value}>{option.label}</option>)}
+                    </Select>
+                </div>
+                <div className="flex justify-between items-center">
+                    <p className="text-sm text-gray-400">
+                        {isFiltered ? `${visibleItems.length} of ${historyItems.length} entries` : `${historyItems.length} entries`}
+                        {isFiltered && (
+                            <button onClick={() => setFilters({ ...EMPTY_HISTORY_FILTERS, sort: filters.sort })} className="ml-3 text-blue-400 hover:underline">Reset filters</button>
+                        )}
+                    </p>
+                    <div className="flex items-center gap-3">
+                        <button onClick={handleExport} disabled={archiveStatus.isBusy || visibleItems.length === 0} className="text-sm text-blue-400 hover:underline disabled:text-gray-500 disabled:no-underline">
+                            {selectedVisibleIds.length > 0 ? `Export ${selectedVisibleIds.length} selected` : 'Export'}
+                        </button>
+                        <button onClick={() => importInputRef.current?.click()} disabled={archiveStatus.isBusy} className="text-sm text-blue-400 hover:underline disabled:text-gray-500 disabled:no-underline">
+                            Import
+                        </button>
+                        <input ref={importInputRef} type="file" accept=".zip,application/zip" onChange={handleImport} className="hidden" />
+                        <button onClick={() => setIsRetentionOpen(open => !open)} className="text-sm text-blue-400 hover:underline">
+                            {isRetentionOpen ? 'Hide retention rules' : 'Retention rules'}
+                        </button>
+                        <Button onClick={handleClearHistory} disabled={historyItems.length === 0} className="bg-red-600 hover:bg-red-700">
+                            Clear History
+                        </Button>
+                    </div>
+                </div>
+                {archiveStatus.isBusy ? (
+                    <p className="text-sm text-gray-400 flex items-center gap-2"><Spinner className="w-4 h-4" /> {archiveStatus.message}</p>
+                ) : archiveStatus.message && (
+                    <p className={`text-sm ${archiveStatus.isError ? 'text-red-400' : 'text-green-400'}`}>{archiveStatus.message}</p>
+                )}
+                {isRetentionOpen && <RetentionSettingsPanel />}
+                {visibleItems.length > 0 && (
+                    <div className="flex items-center gap-4 flex-wrap text-sm border-t border-gray-700 pt-3">
+                        <label className="flex items-center gap-2 text-gray-300">
+                            <input
+                                type="checkbox"
+                                checked={areAllVisibleSelected}
+                                onChange={() => setSelectedIds(areAllVisibleSelected ? new Set() : new Set(visibleItems.map(item => item.id)))}
+                                className="w-4 h-4 accent-blue-500"
+                            />
+                            {selectedVisibleIds.length > 0 ? `${selectedVisibleIds.length} selected` : 'Select all'}
+                        </label>
+                        {selectedVisibleIds.length > 0 && (
+                            <>
+                                <button onClick={() => updateHistoryItems(selectedVisibleIds, () => ({ pinned: true }))} className="text-blue-400 hover:underline">Pin</button>
+                                <button onClick={() => updateHistoryItems(selectedVisibleIds, () => ({ pinned: false }))} className="text-blue-400 hover:underline">Unpin</button>
+                                <button onClick={handleBulkTag} className="text-blue-400 hover:underline">Add tag</button>
+                                <button
+                                    onClick={handleCompare}
+                                    disabled={!canCompare}
+                                    title={canCompare ? 'Compare the selected entries side by side' : `Select 2 to ${MAX_COMPARED_ENTRIES} entries of the same feature to compare them`}
+                                    className="text-blue-400 hover:underline disabled:text-gray-500 disabled:no-underline"
+                                >
+                                    Compare
+                                </button>
+                                <button onClick={handleBulkDelete} className="text-red-400 hover:underline">Delete</button>
+                            </>
+                        )}
+                    </div>
+                )}
             </div>
-            {historyItems.length === 0 ? (
+            {recentlyDeleted.length > 0 && (
+                <div className="flex justify-between items-center bg-gray-700 text-gray-100 p-3 rounded-md mb-4 text-sm">
+                    <span>{recentlyDeleted.length === 1 ? 'Deleted 1 entry.' : `Deleted ${recentlyDeleted.length} entries.`}</span>
+                    <button onClick={undoDelete} className="font-semibold text-blue-300 hover:underline">Undo</button>
+                </div>
+            )}
+            {comparedItems.length >= 2 && <HistoryCompare items={comparedItems} onClose={() => setComparedIds([])} />}
+            {isHistoryLoading && historyItems.length === 0 ? (
+                <div className="flex justify-center py-16"><Spinner className="w-10 h-10" /></div>
+            ) : historyItems.length === 0 ? (
                 <div className="text-center text-gray-500 py-16">
                     <p className="text-lg">Your history is empty.</p>
                     <p>Start creating with Gemini and your work will appear here.</p>
                 </div>
+            ) : visibleItems.length === 0 ? (
+                <div className="text-center text-gray-500 py-16">
+                    <p className="text-lg">No entries match your search.</p>
+                </div>
             ) : (
                 <div className="space-y-6">
-                    {historyItems.map((item) => (
-                        <div key={item.id} className="bg-gray-900/50 p-4 rounded-lg shadow-md">
-                            <div className="flex justify-between items-center mb-3">
-                                <h3 className="text-xl font-bold text-white">{item.feature}</h3>
-                                <p className="text-xs text-gray-400">{new Date(item.timestamp).toLocaleString()}</p>
-                            </div>
-                            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                                <div>
-                                    <h4 className="text-lg font-semibold text-gray-200 border-b border-gray-600 pb-1 mb-2">Inputs</h4>
-                                    <div className="space-y-2 text-sm">{renderInputs(item)}</div>
-                                </div>
-                                 <div>
-                                    <h4 className="text-lg font-semibold text-gray-200 border-b border-gray-600 pb-1 mb-2">Outputs</h4>
-                                    <div>{renderOutputs(item)}</div>
-                                </div>
-                            </div>
-                        </div>
+                    {visibleItems.map((item) => (
+                        <HistoryEntryCard
+                            key={item.id}
+                            item={item}
+                            isLinked={item.id === linkedItemId}
+                            isSelected={selectedIds.has(item.id)}
+                            onToggleSelected={toggleSelected}
+                            isLinkCopied={copiedItemId === item.id}
+                            onCopyLink={handleCopyLink}
+                            onTagClick={(tag) => updateFilter('tag', tag)}
+                        />
                     ))}
                 </div>
             )}
@@ -0,0 +1,19 @@
+import React from 'react';
+import { FeatureDefinition } from './common/featureDefinition';
+import { IconEdit } from '../components/Icons';
+
+export const meta: FeatureDefinition<'Image Editing'> = {
+    name: 'Image Editing',
+    route: 'image-editing',
+    icon: IconEdit,
+    description: 'Edit a photo with a text instruction.',
+    component: React.lazy(() => import('./ImageEditing')),
+    inputSchema: {
+        originalImage: { kind: 'image' },
+    },
+    outputSchema: {
+        editedImage: { kind: 'image', fileSuffix: '-edited.jpg' },
+    },
+    supportsRerun: true,
+    receives: { image: 'Edit the image' },
+};
@@ -1,20 +1,31 @@
 import React, { useState, useContext } from 'react';
-import { GoogleGenAI, Modality } from "@google/genai";
+import { Modality } from "@google/genai";
 import ReactMarkdown from 'react-markdown';
 import { fileToBase64 } from '../utils/fileUtils';
 import Spinner from '../components/Spinner';
 import FeatureLayout from './common/FeatureLayout';
-import { Label, TextArea, Button } from './common/Controls';
+import RequestStatus from './common/RequestStatus';
+import { Label, TextArea, Button, CancelButton } from './common/Controls';
 import { HistoryContext } from '../context/HistoryContext';
+import { RouteContext } from '../context/RouteContext';
+import { useGeminiClient } from '../hooks/useGeminiClient';
+import { useCancellableRun } from '../hooks/useCancellableRun';
+import { useHistoryRestore } from '../hooks/useHistoryRestore';
+import { useReceivedAsset } from '../hooks/useReceivedAsset';
+import { loadMediaFile } from '../services/historyStore';
 import { getFriendlyErrorMessage } from '../utils/errorHandler';
 import { IconDownload, IconUpload } from '../components/Icons';
 import Dropzone from '../components/Dropzone';
+import SendToMenu from './common/SendToMenu';
 
 const ImageEditing: React.FC = () => {
     const { addHistoryItem } = useContext(HistoryContext);
+    const { params } = useContext(RouteContext).route;
+    const { ai, requestActivity } = useGeminiClient();
+    const { startRun, cancelRun } = useCancellableRun();
     const [originalImageFile, setOriginalImageFile] = useState<File | null>(null);
     const [originalImageUrl, setOriginalImageUrl] = useState<string | null>(null);
-    const [prompt, setPrompt] = useState<string>('Add a retro, vintage filter to the image.');
+    const [prompt, setPrompt] = useState<string>(params.get('prompt') ?? 'Add a retro, vintage filter to the image.');
     const [editedImageUrl, setEditedImageUrl] = useState<string | null>(null);
     const [isLoading, setIsLoading] = useState<boolean>(false);
     const [error, setError] = useState<string | null>(null);
@@ -45,11 +56,11 @@ const ImageEditing: React.FC = () => {
         setIsLoading(true);
         setError(null);
         setEditedImageUrl(null);
+        const signal = startRun();
 
         try {
             const base64Data = await fileToBase64(originalImageFile);
-            const ai = new GoogleGenAI({ apiKey: process.env.API_KEY as string });
-            
+
             const response = await ai.models.generateContent({
                 model: 'gemini-2.5-flash-image',
                 contents: {
@@ -60,6 +71,7 @@ const ImageEditing: React.FC = () => {
                 },
                 config: {
                     responseModalities: [Modality.IMAGE],
+                    abortSignal: signal,
                 },
             });
             
@@ -75,7 +87,7 @@ const ImageEditing: React.FC = () => {
                     timestamp: Date.now(),
                     inputs: { 
                         prompt,
-                        originalImage: originalImageUrl 
+                        originalImage: originalImageFile
                     },
                     outputs: { 
                         editedImage: imageUrl 
@@ -86,13 +98,37 @@ const ImageEditing: React.FC = () => {
                 throw new Error("No edited image was returned from the API.");
             }
         } catch (e: any) {
-            setError(getFriendlyErrorMessage(e));
-            console.error(e);
+            if (signal.aborted) {
+                addHistoryItem({
+                    id: Date.now().toString(),
+                    feature: 'Image Editing',
+                    timestamp: Date.now(),
+                    inputs: { prompt, originalImage: originalImageFile },
+                    outputs: {},
+                    status: 'cancelled'
+                });
+            } else {
+                setError(getFriendlyErrorMessage(e));
+                console.error(e);
+            }
         } finally {
             setIsLoading(false);
         }
     };
 
+    useHistoryRestore('Image Editing', {
+        restore: async ({ inputs }) => {
+            setPrompt(inputs.prompt);
+            handleFileSelect(await loadMediaFile(inputs.originalImage, 'original-image'));
+        },
+        run: handleEdit,
+        onError: setError,
+    });
+
+    useReceivedAsset('Image Editing', (asset) => {
+        if (asset.kind === 'image') handleFileSelect(asset.file);
+    });
+
     return (
         <FeatureLayout
             title="Image Editing"
@@ -120,11 +156,13 @@ const ImageEditing: React.FC = () => {
                         />
                     </div>
                 )}
-                <div>
+                <div className="flex gap-4">
                     <Button onClick={handleEdit} disabled={isLoading || !originalImageFile}>
                         {isLoading ? <><Spinner className="w-5 h-5 mr-2" /> Editing...</> : 'Edit Image'}
                     </Button>
+                    {isLoading && <CancelButton onClick={cancelRun} />}
                 </div>
+                <RequestStatus activity={requestActivity} />
                 {error && (
                     <div className="text-red-400 bg-red-900/50 p-3 rounded-md prose prose-invert max-w-none prose-p:my-0">
                         <ReactMarkdown components={{ a: ({node, ...props}) => <a {...props} className="text-blue-400 hover:underline" target="_blank" rel="noopener noreferrer" /> }}>
@@ -144,13 +182,16 @@ const ImageEditing: React.FC = () => {
                         <div>
                             <div className="flex justify-between items-center mb-2">
                                 <h3 className="text-lg font-semibold">Edited</h3>
-                                <button
-                                    onClick={handleDownload}
-                                    className="flex items-center gap-2 px-3 py-1 bg-gray-700 hover:bg-gray-600 rounded-md text-sm"
-                                >
-                                    <IconDownload />
-                                    Download
-                                </button>
+                                <div className="flex items-center gap-2">
+                                    <SendToMenu source="Image Editing" kind="image" value={editedImageUrl} name="edited-image" />
+                                    <button
+                                        onClick={handleDownload}
+                                        className="flex items-center gap-2 px-3 py-1 bg-gray-700 hover:bg-gray-600 rounded-md text-sm"
+                                    >
+                                        <IconDownload />
+                                        Download
+                                    </button>
+                                </div>
                             </div>
                             <img src={editedImageUrl} alt="Edited" className="rounded-lg shadow-lg w-full" />
                         </div>
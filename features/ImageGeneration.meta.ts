@@ -0,0 +1,21 @@
+import React from 'react';
+import { FeatureDefinition } from './common/featureDefinition';
+import { ImageGenerationHistory } from './common/HistoryRenderers';
+import { IconPhoto } from '../components/Icons';
+
+export const meta: FeatureDefinition<'Image Generation'> = {
+    name: 'Image Generation',
+    route: 'image-generation',
+    icon: IconPhoto,
+    description: 'Generate images from a prompt or a reference image.',
+    component: React.lazy(() => import('./ImageGeneration')),
+    inputSchema: {
+        image: { kind: 'image' },
+    },
+    outputSchema: {
+        images: { kind: 'images', fileSuffix: '-image.jpg' },
+    },
+    historyRenderer: ImageGenerationHistory,
+    supportsRerun: true,
+    receives: { image: 'Use as the base image', text: 'Use as the prompt' },
+};
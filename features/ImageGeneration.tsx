@@ -1,43 +1,36 @@
 import React, { useState, useContext, useEffect } from 'react';
-import { GoogleGenAI, Modality, Part } from "@google/genai";
 import ReactMarkdown from 'react-markdown';
-import { AspectRatio } from '../types';
+import { AspectRatio, ImageGenerationEntry } from '../types';
 import Spinner from '../components/Spinner';
 import FeatureLayout from './common/FeatureLayout';
-import { Label, TextArea, Select, Button } from './common/Controls';
+import RequestStatus from './common/RequestStatus';
+import { Label, TextArea, Select, Button, CancelButton } from './common/Controls';
 import { HistoryContext } from '../context/HistoryContext';
-import { fileToBase64 } from '../utils/fileUtils';
+import { RouteContext } from '../context/RouteContext';
+import { optionParam } from '../utils/routing';
+import { useGeminiClient } from '../hooks/useGeminiClient';
+import { useCancellableRun } from '../hooks/useCancellableRun';
+import { useHistoryRestore } from '../hooks/useHistoryRestore';
+import { useReceivedAsset } from '../hooks/useReceivedAsset';
+import { loadMediaFile } from '../services/historyStore';
 import { getFriendlyErrorMessage } from '../utils/errorHandler';
 import { IconDownload, IconUpload } from '../components/Icons';
 import Dropzone from '../components/Dropzone';
+import SendToMenu from './common/SendToMenu';
+import ImageBatchPanel from './common/ImageBatchPanel';
+import { aspectRatios, qualityOptions, styles, imageModels, generateImages } from './common/imageGeneration';
 
-type GenerationMode = 'text-to-image' | 'image-to-image';
-
-const aspectRatios: AspectRatio[] = ["1:1", "16:9", "9:16", "4:3", "3:4"];
-const qualityOptions = ['720p', '1080p', '2K', '4K', '8K'];
-
-const styles = [
-    "No Style", "Realistic", "Hyper-realistic", "Cinematic", "Epic", "Fantasy",
-    "Anime", "Cartoon", "Surreal", "Cyberpunk", "Steampunk", "Concept Art",
-    "Digital Art", "Oil Painting", "Watercolor", "Minimalist", "Retro",
-    "Futuristic", "Dark Art", "Portrait", "Landscape", "Nature Documentary", "Abstract", "Vaporwave"
-];
-
-const imageModels = [
-    { name: 'ImageFX', value: 'imagen-4.0-generate-001', isGeminiNative: true, note: 'High Quality (Imagen 4)' },
-    { name: 'Nano Banana', value: 'gemini-2.5-flash-image', isGeminiNative: true, note: 'Fast, Supports Image & Text' },
-    { name: 'DALL·E', value: 'dalle', isGeminiNative: false, note: 'Not Available' },
-    { name: 'MidJourney', value: 'midjourney', isGeminiNative: false, note: 'Not Available' },
-    { name: 'Stable Diffusion', value: 'stable-diffusion', isGeminiNative: false, note: 'Not Available' },
-    { name: 'Seedream', value: 'seedream', isGeminiNative: false, note: 'Not Available' },
-];
+type GenerationMode = 'text-to-image' | 'image-to-image' | 'batch';
 
 const ImageGeneration: React.FC = () => {
     const { addHistoryItem } = useContext(HistoryContext);
-    const [prompt, setPrompt] = useState<string>('A majestic lion in the savanna at sunset.');
-    const [model, setModel] = useState<string>('imagen-4.0-generate-001');
-    const [style, setStyle] = useState<string>('Cinematic');
-    const [aspectRatio, setAspectRatio] = useState<AspectRatio>('16:9');
+    const { params } = useContext(RouteContext).route;
+    const { ai, requestActivity } = useGeminiClient();
+    const { startRun, cancelRun } = useCancellableRun();
+    const [prompt, setPrompt] = useState<string>(params.get('prompt') ?? 'A majestic lion in the savanna at sunset.');
+    const [model, setModel] = useState<string>(optionParam(params, 'model', imageModels.map(m => m.value), 'imagen-4.0-generate-001'));
+    const [style, setStyle] = useState<string>(optionParam(params, 'style', styles, 'Cinematic'));
+    const [aspectRatio, setAspectRatio] = useState<AspectRatio>(optionParam(params, 'aspectRatio', aspectRatios, '16:9'));
     const [quality, setQuality] = useState<string>('1080p');
     const [numImages, setNumImages] = useState<number>(1);
     const [generatedImages, setGeneratedImages] = useState<string[]>([]);
@@ -98,80 +91,35 @@ const ImageGeneration: React.FC = () => {
         setIsLoading(true);
         setError(null);
         setGeneratedImages([]);
+        const signal = startRun();
 
-        try {
-            const ai = new GoogleGenAI({ apiKey: process.env.API_KEY as string });
-            
-            let basePrompt = style === 'No Style' ? prompt : `${style} style, ${prompt}`;
-            if (mode === 'text-to-image') {
-                basePrompt += `, ${quality}, ultra high resolution, cinematic quality, sharp focus`;
-            }
-
-            let images: string[] = [];
-
-            if (model === 'imagen-4.0-generate-001') {
-                const effectivePrompt = basePrompt + `, in a ${aspectRatio} aspect ratio`;
-                const response = await ai.models.generateImages({
-                    model: 'imagen-4.0-generate-001',
-                    prompt: effectivePrompt,
-                    config: {
-                        numberOfImages: numImages,
-                        outputMimeType: 'image/jpeg',
-                        aspectRatio: aspectRatio,
-                    },
-                });
-
-                images = response.generatedImages.map(
-                    (img) => `data:image/jpeg;base64,${img.image.imageBytes}`
-                );
-                setGeneratedImages(images);
+        const historyInputs: ImageGenerationEntry['inputs'] = {
+            prompt,
+            mode: mode === 'text-to-image' ? 'Text-to-Image' : 'Image & Text',
+            model: selectedModelObject?.name || model,
+            style,
+            aspectRatio,
+            numImages,
+            image: imageFile
+        };
+        if (mode === 'text-to-image') {
+             historyInputs.quality = quality;
+        }
+        const generatedImagesSoFar: string[] = [];
 
-            } else { // gemini-2.5-flash-image
-                const effectivePrompt = basePrompt + `, in a ${aspectRatio} aspect ratio`;
-                const baseParts: Part[] = [{ text: effectivePrompt }];
-                if (mode === 'image-to-image' && imageFile) {
-                    const base64Data = await fileToBase64(imageFile);
-                    baseParts.unshift({ inlineData: { data: base64Data, mimeType: imageFile.type } });
-                }
-                
-                const generateSingleImage = async (): Promise<string> => {
-                    const response = await ai.models.generateContent({
-                        model: 'gemini-2.5-flash-image',
-                        contents: { parts: baseParts },
-                        config: {
-                            responseModalities: [Modality.IMAGE],
-                        },
-                    });
-                    const part = response.candidates?.[0]?.content?.parts?.[0];
-                    if (part?.inlineData) {
-                        const base64ImageBytes = part.inlineData.data;
-                        return `data:${part.inlineData.mimeType};base64,${base64ImageBytes}`;
-                    } else {
-                        throw new Error("No image was returned from the API for one of the requests.");
-                    }
-                };
-        
-                const generatedImagesSoFar: string[] = [];
-                for (let i = 0; i < numImages; i++) {
-                    const newImage = await generateSingleImage();
-                    generatedImagesSoFar.push(newImage);
-                    setGeneratedImages([...generatedImagesSoFar]);
-                }
-                images = generatedImagesSoFar;
-            }
-            
-            const historyInputs: Record<string, any> = { 
-                prompt, 
-                mode: mode === 'text-to-image' ? 'Text-to-Image' : 'Image & Text',
-                model: selectedModelObject?.name || model, 
+        try {
+            const images = await generateImages(ai, {
+                prompt,
+                model,
                 style,
                 aspectRatio,
                 numImages,
-                image: imageUrl 
-            };
-            if (mode === 'text-to-image') {
-                 historyInputs.quality = quality;
-            }
+                quality: mode === 'text-to-image' ? quality : undefined,
+                image: mode === 'image-to-image' ? imageFile : null,
+            }, signal, (image) => {
+                generatedImagesSoFar.push(image);
+                setGeneratedImages([...generatedImagesSoFar]);
+            });
 
             addHistoryItem({
                 id: Date.now().toString(),
@@ -182,8 +130,19 @@ const ImageGeneration: React.FC = () => {
             });
 
         } catch (e: any) {
-            setError(getFriendlyErrorMessage(e));
-            console.error(e);
+            if (signal.aborted) {
+                addHistoryItem({
+                    id: Date.now().toString(),
+                    feature: 'Image Generation',
+                    timestamp: Date.now(),
+                    inputs: historyInputs,
+                    outputs: { images: generatedImagesSoFar },
+                    status: 'cancelled'
+                });
+            } else {
+                setError(getFriendlyErrorMessage(e));
+                console.error(e);
+            }
         } finally {
             setIsLoading(false);
         }
@@ -192,6 +151,31 @@ const ImageGeneration: React.FC = () => {
     const selectedModelObject = imageModels.find(m => m.value === model);
     const isGenerationDisabled = isLoading || !selectedModelObject?.isGeminiNative;
 
+    useHistoryRestore('Image Generation', {
+        restore: async ({ inputs }) => {
+            setPrompt(inputs.prompt);
+            setModel(imageModels.find(m => m.name === inputs.model || m.value === inputs.model)?.value ?? model);
+            setStyle(inputs.style);
+            setAspectRatio(inputs.aspectRatio as AspectRatio);
+            setNumImages(inputs.numImages);
+            if (inputs.quality) setQuality(inputs.quality);
+            const isImageMode = inputs.mode === 'Image & Text';
+            setMode(isImageMode ? 'image-to-image' : 'text-to-image');
+            if (isImageMode && inputs.image) handleFileSelect(await loadMediaFile(inputs.image, 'reference-image'));
+        },
+        run: handleGenerate,
+        onError: setError,
+    });
+
+    useReceivedAsset('Image Generation', (asset) => {
+        if (asset.kind === 'text') {
+            setPrompt(asset.text);
+        } else if (asset.kind === 'image') {
+            setMode('image-to-image');
+            handleFileSelect(asset.file);
+        }
+    });
+
     return (
         <FeatureLayout
             title="Image Generation"
@@ -204,6 +188,7 @@ const ImageGeneration: React.FC = () => {
                          <div className="flex space-x-2 bg-gray-800 p-1 rounded-lg">
                             <button onClick={() => setMode('text-to-image')} className={`w-full py-2 rounded-md transition ${mode === 'text-to-image' ? 'bg-blue-600' : 'hover:bg-gray-700'}`}>Text-to-Image</button>
                             <button onClick={() => setMode('image-to-image')} className={`w-full py-2 rounded-md transition ${mode === 'image-to-image' ? 'bg-blue-600' : 'hover:bg-gray-700'}`}>Image & Text</button>
+                            <button onClick={() => setMode('batch')} className={`w-full py-2 rounded-md transition ${mode === 'batch' ? 'bg-blue-600' : 'hover:bg-gray-700'}`}>Batch</button>
                         </div>
                     </div>
                      {mode === 'image-to-image' && (
@@ -245,15 +230,17 @@ const ImageGeneration: React.FC = () => {
                             </Select>
                         </div>
                     </div>
-                    <div>
-                        <Label htmlFor="prompt">Your Prompt</Label>
-                        <TextArea
-                            id="prompt"
-                            value={prompt}
-                            onChange={(e) => setPrompt(e.target.value)}
-                            placeholder="e.g., A futuristic cityscape at night with flying cars"
-                        />
-                    </div>
+                    {mode !== 'batch' && (
+                        <div>
+                            <Label htmlFor="prompt">Your Prompt</Label>
+                            <TextArea
+                                id="prompt"
+                                value={prompt}
+                                onChange={(e) => setPrompt(e.target.value)}
+                                placeholder="e.g., A futuristic cityscape at night with flying cars"
+                            />
+                        </div>
+                    )}
                     <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
                         <div>
                             <Label htmlFor="aspectRatio">Aspect Ratio</Label>
@@ -295,40 +282,49 @@ const ImageGeneration: React.FC = () => {
                         </div>
                     </div>
                 </div>
-                
-                <div>
-                    <Button onClick={handleGenerate} disabled={isGenerationDisabled}>
-                        {isLoading ? <><Spinner className="w-5 h-5 mr-2" /> Generating...</> : 'Generate'}
-                    </Button>
-                </div>
 
-                {error && (
-                    <div className="text-red-400 bg-red-900/50 p-3 rounded-md prose prose-invert max-w-none prose-p:my-0">
-                        <ReactMarkdown components={{ a: ({node, ...props}) => <a {...props} className="text-blue-400 hover:underline" target="_blank" rel="noopener noreferrer" /> }}>
-                            {error}
-                        </ReactMarkdown>
+                {mode === 'batch' ? (
+                    <ImageBatchPanel defaults={{ model, style, aspectRatio, numImages, quality }} />
+                ) : (
+                <>
+                    <div className="flex gap-4">
+                        <Button onClick={handleGenerate} disabled={isGenerationDisabled}>
+                            {isLoading ? <><Spinner className="w-5 h-5 mr-2" /> Generating...</> : 'Generate'}
+                        </Button>
+                        {isLoading && <CancelButton onClick={cancelRun} />}
                     </div>
-                )}
+
+                    <RequestStatus activity={requestActivity} />
+                    {error && (
+                        <div className="text-red-400 bg-red-900/50 p-3 rounded-md prose prose-invert max-w-none prose-p:my-0">
+                            <ReactMarkdown components={{ a: ({node, ...props}) => <a {...props} className="text-blue-400 hover:underline" target="_blank" rel="noopener noreferrer" /> }}>
+                                {error}
+                            </ReactMarkdown>
+                        </div>
+                    )}
                 
-                {generatedImages.length > 0 && (
-                    <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
-                        {generatedImages.map((src, index) => (
-                             <div key={index} className="relative group">
-                                <img
-                                    src={src}
-                                    alt={`Generated image ${index + 1}`}
-                                    className="rounded-lg shadow-lg w-full h-auto object-cover"
-                                />
-                                <button
-                                    onClick={() => handleDownload(src, index)}
-                                    className="absolute top-2 right-2 bg-black bg-opacity-50 p-2 rounded-full text-white hover:bg-opacity-75 transition opacity-0 group-hover:opacity-100"
-                                    aria-label="Download image"
-                                >
-                                    <IconDownload />
-                                </button>
-                            </div>
-                        ))}
-                    </div>
+                    {generatedImages.length > 0 && (
+                        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                            {generatedImages.map((src, index) => (
+                                 <div key={index} className="relative group">
+                                    <img
+                                        src={src}
+                                        alt={`Generated image ${index + 1}`}
+                                        className="rounded-lg shadow-lg w-full h-auto object-cover"
+                                    />
+                                    <button
+                                        onClick={() => handleDownload(src, index)}
+                                        className="absolute top-2 right-2 bg-black bg-opacity-50 p-2 rounded-full text-white hover:bg-opacity-75 transition opacity-0 group-hover:opacity-100"
+                                        aria-label="Download image"
+                                    >
+                                        <IconDownload />
+                                    </button>
+                                    <SendToMenu source="Image Generation" kind="image" value={src} name={`gemini-image-${index + 1}`} className="flex justify-end mt-2" />
+                                </div>
+                            ))}
+                        </div>
+                    )}
+                </>
                 )}
             </div>
         </FeatureLayout>
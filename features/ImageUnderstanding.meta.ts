@@ -0,0 +1,19 @@
+import React from 'react';
+import { FeatureDefinition } from './common/featureDefinition';
+import { IconBrain } from '../components/Icons';
+
+export const meta: FeatureDefinition<'Image Understanding'> = {
+    name: 'Image Understanding',
+    route: 'image-understanding',
+    icon: IconBrain,
+    description: 'Ask questions about an image.',
+    component: React.lazy(() => import('./ImageUnderstanding')),
+    inputSchema: {
+        image: { kind: 'image' },
+    },
+    outputSchema: {
+        analysis: { kind: 'markdown', fileSuffix: '-analysis.txt', downloadLabel: 'Download Text' },
+    },
+    supportsRerun: true,
+    receives: { image: 'Analyze the image' },
+};
@@ -1,20 +1,30 @@
 import React, { useState, useContext } from 'react';
-import { GoogleGenAI } from "@google/genai";
 import { fileToBase64 } from '../utils/fileUtils';
 import Spinner from '../components/Spinner';
 import FeatureLayout from './common/FeatureLayout';
-import { Label, TextArea, Button } from './common/Controls';
+import RequestStatus from './common/RequestStatus';
+import { Label, TextArea, Button, CancelButton } from './common/Controls';
 import ReactMarkdown from 'react-markdown';
 import { HistoryContext } from '../context/HistoryContext';
+import { RouteContext } from '../context/RouteContext';
+import { useGeminiClient } from '../hooks/useGeminiClient';
+import { useCancellableRun } from '../hooks/useCancellableRun';
+import { useHistoryRestore } from '../hooks/useHistoryRestore';
+import { useReceivedAsset } from '../hooks/useReceivedAsset';
+import { loadMediaFile } from '../services/historyStore';
 import { getFriendlyErrorMessage } from '../utils/errorHandler';
 import Dropzone from '../components/Dropzone';
 import { IconUpload } from '../components/Icons';
+import SendToMenu from './common/SendToMenu';
 
 const ImageUnderstanding: React.FC = () => {
     const { addHistoryItem } = useContext(HistoryContext);
+    const { params } = useContext(RouteContext).route;
+    const { ai, requestActivity } = useGeminiClient();
+    const { startRun, cancelRun } = useCancellableRun();
     const [imageFile, setImageFile] = useState<File | null>(null);
     const [imageUrl, setImageUrl] = useState<string | null>(null);
-    const [prompt, setPrompt] = useState<string>('Describe this image in detail. What objects are present and what is happening?');
+    const [prompt, setPrompt] = useState<string>(params.get('prompt') ?? 'Describe this image in detail. What objects are present and what is happening?');
     const [analysis, setAnalysis] = useState<string>('');
     const [isLoading, setIsLoading] = useState<boolean>(false);
     const [error, setError] = useState<string | null>(null);
@@ -35,11 +45,12 @@ const ImageUnderstanding: React.FC = () => {
         setIsLoading(true);
         setError(null);
         setAnalysis('');
+        const signal = startRun();
 
         try {
             const base64Data = await fileToBase64(imageFile);
-            const ai = new GoogleGenAI({ apiKey: process.env.API_KEY as string });
-            
+            signal.throwIfAborted();
+
             const response = await ai.models.generateContent({
                 model: 'gemini-2.5-flash',
                 contents: {
@@ -48,6 +59,7 @@ const ImageUnderstanding: React.FC = () => {
                         { text: prompt },
                     ],
                 },
+                config: { abortSignal: signal },
             });
             const resultText = response.text;
             setAnalysis(resultText);
@@ -56,18 +68,42 @@ const ImageUnderstanding: React.FC = () => {
                 id: Date.now().toString(),
                 feature: 'Image Understanding',
                 timestamp: Date.now(),
-                inputs: { prompt, image: imageUrl },
+                inputs: { prompt, image: imageFile },
                 outputs: { analysis: resultText }
             });
 
         } catch (e: any) {
-            setError(getFriendlyErrorMessage(e));
-            console.error(e);
+            if (signal.aborted) {
+                addHistoryItem({
+                    id: Date.now().toString(),
+                    feature: 'Image Understanding',
+                    timestamp: Date.now(),
+                    inputs: { prompt, image: imageFile },
+                    outputs: {},
+                    status: 'cancelled'
+                });
+            } else {
+                setError(getFriendlyErrorMessage(e));
+                console.error(e);
+            }
         } finally {
             setIsLoading(false);
         }
     };
 
+    useHistoryRestore('Image Understanding', {
+        restore: async ({ inputs }) => {
+            setPrompt(inputs.prompt);
+            handleFileSelect(await loadMediaFile(inputs.image, 'image'));
+        },
+        run: handleAnalyze,
+        onError: setError,
+    });
+
+    useReceivedAsset('Image Understanding', (asset) => {
+        if (asset.kind === 'image') handleFileSelect(asset.file);
+    });
+
     return (
         <FeatureLayout
             title="Image Understanding"
@@ -97,14 +133,16 @@ const ImageUnderstanding: React.FC = () => {
                                     placeholder="e.g., What is the breed of this dog?"
                                 />
                             </div>
-                            <div>
+                            <div className="flex gap-4">
                                 <Button onClick={handleAnalyze} disabled={isLoading || !imageFile}>
                                     {isLoading ? <><Spinner className="w-5 h-5 mr-2" /> Analyzing...</> : 'Analyze Image'}
                                 </Button>
+                                {isLoading && <CancelButton onClick={cancelRun} />}
                             </div>
                         </div>
                     </div>
                 )}
+                 <RequestStatus activity={requestActivity} />
                  {error && (
                     <div className="text-red-400 bg-red-900/50 p-3 rounded-md prose prose-invert max-w-none prose-p:my-0">
                         <ReactMarkdown components={{ a: ({node, ...props}) => <a {...props} className="text-blue-400 hover:underline" target="_blank" rel="noopener noreferrer" /> }}>
@@ -114,7 +152,10 @@ const ImageUnderstanding: React.FC = () => {
                  )}
                 {analysis && (
                     <div className="mt-6 p-4 bg-gray-900/50 rounded-lg">
-                        <h3 className="text-lg font-semibold mb-2">Analysis Result</h3>
+                        <div className="flex justify-between items-center mb-2">
+                            <h3 className="text-lg font-semibold">Analysis Result</h3>
+                            <SendToMenu source="Image Understanding" kind="text" value={analysis} />
+                        </div>
                         <div className="prose prose-invert max-w-none text-gray-300">
                              <ReactMarkdown>{analysis}</ReactMarkdown>
                         </div>
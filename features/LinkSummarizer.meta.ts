@@ -0,0 +1,21 @@
+import React from 'react';
+import { FeatureDefinition } from './common/featureDefinition';
+import { LinkSummarizerHistory } from './common/HistoryRenderers';
+import { IconLink } from '../components/Icons';
+
+export const meta: FeatureDefinition<'Link Summarizer'> = {
+    name: 'Link Summarizer',
+    route: 'link-summarizer',
+    icon: IconLink,
+    description: 'Summarize the content behind links and ask about it.',
+    component: React.lazy(() => import('./LinkSummarizer')),
+    inputSchema: {
+        url: { kind: 'url', label: 'Link URL' },
+    },
+    outputSchema: {
+        summary: { kind: 'markdown', fileSuffix: '-summary.md', downloadLabel: 'Download Markdown' },
+        transcript: { kind: 'transcript', fileSuffix: '-questions.txt', downloadLabel: 'Download Questions' },
+    },
+    historyRenderer: LinkSummarizerHistory,
+    supportsRerun: true,
+};
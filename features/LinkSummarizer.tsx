@@ -1,101 +1,226 @@
 import React, { useState, useContext } from 'react';
-import { GoogleGenAI } from "@google/genai";
 import ReactMarkdown from 'react-markdown';
+import { LinkDigestItem, TranscriptEntry } from '../types';
 import Spinner from '../components/Spinner';
 import FeatureLayout from './common/FeatureLayout';
-import { Label, Input, Button } from './common/Controls';
+import RequestStatus from './common/RequestStatus';
+import { Label, TextArea, Select, Button, CancelButton } from './common/Controls';
 import { HistoryContext } from '../context/HistoryContext';
+import { RouteContext } from '../context/RouteContext';
+import { GeminiChat } from '../services/geminiClient';
+import { useGeminiClient } from '../hooks/useGeminiClient';
+import { useCancellableRun } from '../hooks/useCancellableRun';
+import { useHistoryRestore } from '../hooks/useHistoryRestore';
 import { getFriendlyErrorMessage } from '../utils/errorHandler';
+import { downloadText } from '../utils/fileUtils';
+import { optionParam } from '../utils/routing';
 import { IconDownload } from '../components/Icons';
+import SendToMenu from './common/SendToMenu';
+import LinkSourceDetails from './common/LinkSourceDetails';
+import LinkDigestList from './common/LinkDigestList';
+import LinkChatPanel from './common/LinkChatPanel';
+import StructuredSummaryView from './common/StructuredSummaryView';
+import { LinkSummary, NumberedSource, MAX_LINKS, summarizeLink, parseLinks, createDigest, createLinkChat } from './common/linkSummary';
+import {
+    SummaryFormat,
+    SummaryLength,
+    SummarySettings,
+    summaryFormats,
+    summaryLengths,
+    ORIGINAL_LANGUAGE,
+    DEFAULT_SUMMARY_SETTINGS,
+    SUMMARY_FORMAT_LABELS,
+} from './common/summaryFormats';
+import { languages } from './common/translation';
+
+const summaryLanguages = [ORIGINAL_LANGUAGE, ...languages];
+
+interface LinkResult {
+    url: string;
+    summary?: LinkSummary;
+    error?: string;
+}
+
+// A finished run: saved to History when it completes and again after every follow-up answer.
+interface LinkSession {
+    id: string;
+    timestamp: number;
+    links: string[];
+    settings: SummarySettings;
+    results: LinkResult[];
+    digest?: string;
+}
+
+const toDigestItem = ({ url, summary, error }: LinkResult): LinkDigestItem => ({
+    url,
+    ...(summary ? { summary: summary.summary, source: summary.source } : {}),
+    ...(error ? { error } : {}),
+});
 
 const LinkSummarizer: React.FC = () => {
     const { addHistoryItem } = useContext(HistoryContext);
-    const [url, setUrl] = useState<string>('');
-    const [summary, setSummary] = useState<string>('');
-    const [isLoading, setIsLoading] = useState<boolean>(false);
+    const { params } = useContext(RouteContext).route;
+    const { ai, requestActivity } = useGeminiClient();
+    const { startRun, cancelRun } = useCancellableRun();
+    const [linksText, setLinksText] = useState<string>(params.getAll('url').join('\n'));
+    const [format, setFormat] = useState<SummaryFormat>(optionParam(params, 'format', summaryFormats, DEFAULT_SUMMARY_SETTINGS.format));
+    const [length, setLength] = useState<SummaryLength>(optionParam(params, 'length', summaryLengths, DEFAULT_SUMMARY_SETTINGS.length));
+    const [language, setLanguage] = useState<string>(optionParam(params, 'language', summaryLanguages, DEFAULT_SUMMARY_SETTINGS.language));
+    const [results, setResults] = useState<LinkResult[]>([]);
+    const [digest, setDigest] = useState<string | null>(null);
+    const [session, setSession] = useState<LinkSession | null>(null);
+    const [chat, setChat] = useState<GeminiChat | null>(null);
+    const [stage, setStage] = useState<string | null>(null);
     const [error, setError] = useState<string | null>(null);
+    const isLoading = stage !== null;
+    const isDigest = results.length > 1;
+    const single = isDigest ? undefined : results[0]?.summary;
+    const summary = isDigest ? digest ?? '' : single?.summary ?? '';
 
-    const handleDownload = () => {
+    const handleExport = () => {
         if (!summary) return;
-        const blob = new Blob([summary], { type: 'text/plain' });
-        const downloadUrl = URL.createObjectURL(blob);
-        const link = document.createElement('a');
-        link.href = downloadUrl;
-        link.download = `gemini-summary.txt`;
-        document.body.appendChild(link);
-        link.click();
-        document.body.removeChild(link);
-        URL.revokeObjectURL(downloadUrl);
+        downloadText(summary, isDigest ? 'gemini-digest.md' : 'gemini-summary.md', 'text/markdown');
+    };
+
+    const saveSession = (saved: LinkSession, transcript: TranscriptEntry[]) => {
+        const single = saved.links.length === 1 ? saved.results[0].summary : undefined;
+        addHistoryItem({
+            id: saved.id,
+            feature: 'Link Summarizer',
+            timestamp: saved.timestamp,
+            inputs: { url: saved.links[0], ...(saved.links.length > 1 ? { links: saved.links } : {}), ...saved.settings },
+            outputs: {
+                summary: saved.digest ?? saved.results.find(result => result.summary)?.summary?.summary,
+                ...(single ? { source: single.source } : { links: saved.results.map(toDigestItem) }),
+                ...(transcript.length > 0 ? { transcript } : {}),
+            }
+        });
+    };
+
+    const updateResult = (index: number, update: Partial<LinkResult>) => {
+        setResults(current => current.map((result, i) => i === index ? { ...result, ...update } : result));
+    };
+
+    const summarizeInto = async (url: string, index: number, settings: SummarySettings, signal: AbortSignal): Promise<LinkResult> => {
+        try {
+            const linkSummary = await summarizeLink(ai, url, settings, signal);
+            updateResult(index, { summary: linkSummary });
+            return { url, summary: linkSummary };
+        } catch (e: any) {
+            if (signal.aborted) throw e;
+            console.error(e);
+            const message = getFriendlyErrorMessage(e);
+            updateResult(index, { error: message });
+            return { url, error: message };
+        }
     };
 
     const handleSummarize = async () => {
-        if (!url.trim()) {
+        const { links, invalid } = parseLinks(linksText);
+        if (links.length === 0 && invalid.length === 0) {
             setError('Please enter a URL to summarize.');
             return;
         }
-        // Basic URL validation
-        try {
-            new URL(url);
-        } catch (_) {
-            setError('Please enter a valid URL.');
+        if (invalid.length > 0) {
+            setError(invalid.length === 1 && links.length === 0 ? 'Please enter a valid URL.' : `These are not valid links: ${invalid.join(', ')}`);
+            return;
+        }
+        if (links.length > MAX_LINKS) {
+            setError(`Please enter at most ${MAX_LINKS} links.`);
             return;
         }
 
-        setIsLoading(true);
+        setStage(links.length > 1 ? 'Summarizing links...' : 'Summarizing...');
         setError(null);
-        setSummary('');
+        setResults(links.map(url => ({ url })));
+        setDigest(null);
+        setSession(null);
+        setChat(null);
+        const settings: SummarySettings = { format, length, language };
+        const signal = startRun();
 
         try {
-            const ai = new GoogleGenAI({ apiKey: process.env.API_KEY as string });
-            const prompt = `Please provide a concise summary of the content at the following URL: ${url}`;
-            
-            const response = await ai.models.generateContent({
-                model: 'gemini-2.5-flash',
-                contents: prompt,
-            });
-            
-            const resultText = response.text;
-            setSummary(resultText);
-
-            addHistoryItem({
-                id: Date.now().toString(),
-                feature: 'Link Summarizer',
-                timestamp: Date.now(),
-                inputs: { linkUrl: url },
-                outputs: { summary: resultText }
-            });
+            const settled = await Promise.all(links.map((url, index) => summarizeInto(url, index, settings, signal)));
+            // Sources keep their position in the pasted list, so citations match the numbered list.
+            const sources: NumberedSource[] = settled.flatMap((result, index) => result.summary ? [{ number: index + 1, summary: result.summary }] : []);
+            if (sources.length === 0) {
+                throw new Error(links.length === 1 ? settled[0].error : 'None of the links could be retrieved.');
+            }
 
+            let digestText: string | undefined;
+            if (sources.length > 1) {
+                setStage('Writing digest...');
+                digestText = await createDigest(ai, sources, language, signal);
+                setDigest(digestText);
+            }
+            const finished: LinkSession = { id: Date.now().toString(), timestamp: Date.now(), links, settings, results: settled, digest: digestText };
+            setSession(finished);
+            setChat(createLinkChat(ai, sources));
+            saveSession(finished, []);
         } catch (e: any) {
-            setError(getFriendlyErrorMessage(e));
-            console.error(e);
+            if (!signal.aborted) {
+                setError(getFriendlyErrorMessage(e));
+                console.error(e);
+            }
         } finally {
-            setIsLoading(false);
+            setStage(null);
         }
     };
 
+    useHistoryRestore('Link Summarizer', {
+        restore: ({ inputs }) => {
+            setLinksText((inputs.links ?? [inputs.url]).join('\n'));
+            setFormat(summaryFormats.find(option => option === inputs.format) ?? DEFAULT_SUMMARY_SETTINGS.format);
+            setLength(summaryLengths.find(option => option === inputs.length) ?? DEFAULT_SUMMARY_SETTINGS.length);
+            setLanguage(summaryLanguages.find(option => option === inputs.language) ?? DEFAULT_SUMMARY_SETTINGS.language);
+        },
+        run: handleSummarize,
+        onError: setError,
+    });
+
     return (
         <FeatureLayout
             title="Link Summarizer"
-            description="Paste a link from YouTube or Instagram to get a quick summary of its content from Gemini."
+            description="Paste links to articles, YouTube videos or other public pages. Gemini reads the content behind each one and summarizes it, combines several links into a digest with citations, and answers follow-up questions about them."
         >
             <div className="space-y-6">
                 <div className="space-y-2">
-                    <Label htmlFor="url-input">YouTube or Instagram URL</Label>
+                    <Label htmlFor="url-input">Links (one per line, up to {MAX_LINKS})</Label>
+                    <TextArea
+                        id="url-input"
+                        value={linksText}
+                        onChange={(e) => setLinksText(e.target.value)}
+                        placeholder={'https://example.com/article\nhttps://www.youtube.com/watch?v=...'}
+                    />
+                    <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                        <div>
+                            <Label htmlFor="summary-format">Format</Label>
+                            <Select id="summary-format" value={format} onChange={(e) => setFormat(e.target.value as SummaryFormat)}>
+                                {summaryFormats.map(option => <option key={option} value={option}>{SUMMARY_FORMAT_LABELS[option]}</option>)}
+                            </Select>
+                        </div>
+                        <div>
+                            <Label htmlFor="summary-length">Length</Label>
+                            <Select id="summary-length" value={length} onChange={(e) => setLength(e.target.value as SummaryLength)}>
+                                {summaryLengths.map(option => <option key={option} value={option}>{option}</option>)}
+                            </Select>
+                        </div>
+                        <div>
+                            <Label htmlFor="summary-language">Language</Label>
+                            <Select id="summary-language" value={language} onChange={(e) => setLanguage(e.target.value)}>
+                                {summaryLanguages.map(option => <option key={option} value={option}>{option === ORIGINAL_LANGUAGE ? 'Same as the content' : option}</option>)}
+                            </Select>
+                        </div>
+                    </div>
                     <div className="flex gap-4">
-                        <Input
-                            id="url-input"
-                            type="url"
-                            value={url}
-                            onChange={(e) => setUrl(e.target.value)}
-                            placeholder="https://www.youtube.com/watch?v=..."
-                            className="flex-grow"
-                        />
-                         <Button onClick={handleSummarize} disabled={isLoading}>
-                            {isLoading ? <><Spinner className="w-5 h-5 mr-2" /> Summarizing...</> : 'Summarize'}
+                        <Button onClick={handleSummarize} disabled={isLoading}>
+                            {isLoading ? <><Spinner className="w-5 h-5 mr-2" /> {stage}</> : 'Summarize'}
                         </Button>
+                        {isLoading && <CancelButton onClick={cancelRun} />}
                     </div>
                 </div>
 
+                <RequestStatus activity={requestActivity} />
                 {error && (
                     <div className="text-red-400 bg-red-900/50 p-3 rounded-md prose prose-invert max-w-none prose-p:my-0">
                         <ReactMarkdown components={{ a: ({node, ...props}) => <a {...props} className="text-blue-400 hover:underline" target="_blank" rel="noopener noreferrer" /> }}>
@@ -103,27 +228,51 @@ const LinkSummarizer: React.FC = () => {
                         </ReactMarkdown>
                     </div>
                 )}
-                
+
+                {single && (
+                    <LinkSourceDetails source={single.source} content={single.content} truncated={single.truncated} />
+                )}
+
                 {summary && (
                     <div className="p-4 bg-gray-900/50 rounded-lg">
                         <div className="flex justify-between items-center mb-2">
-                            <h3 className="text-lg font-semibold">Summary</h3>
-                            <button
-                                onClick={handleDownload}
-                                className="flex items-center gap-2 px-3 py-1 bg-gray-700 hover:bg-gray-600 rounded-md text-sm"
-                            >
-                                <IconDownload />
-                                Download
-                            </button>
-                        </div>
-                        <div className="prose prose-invert max-w-none text-gray-300">
-                             <ReactMarkdown>{summary}</ReactMarkdown>
+                            <h3 className="text-lg font-semibold">{isDigest ? 'Digest' : 'Summary'}</h3>
+                            <div className="flex items-center gap-2">
+                                <SendToMenu source="Link Summarizer" kind="text" value={summary} />
+                                <button
+                                    onClick={handleExport}
+                                    className="flex items-center gap-2 px-3 py-1 bg-gray-700 hover:bg-gray-600 rounded-md text-sm"
+                                >
+                                    <IconDownload />
+                                    Export Markdown
+                                </button>
+                            </div>
                         </div>
+                        {single ? (
+                            <StructuredSummaryView summary={single.structured} format={single.format} url={single.source.url} />
+                        ) : (
+                            <div className="prose prose-invert max-w-none text-gray-300">
+                                <ReactMarkdown>{summary}</ReactMarkdown>
+                            </div>
+                        )}
+                    </div>
+                )}
+
+                {isDigest && (
+                    <div className="p-4 bg-gray-900/50 rounded-lg space-y-3">
+                        <h3 className="text-lg font-semibold">Sources</h3>
+                        {session && !session.digest && <p className="text-sm text-yellow-300">Only one link could be retrieved, so there is no digest.</p>}
+                        <LinkDigestList
+                            items={results.map(result => ({ ...toDigestItem(result), content: result.summary?.content, truncated: result.summary?.truncated }))}
+                            isLoading={isLoading}
+                        />
                     </div>
                 )}
+
+                {session && chat && <LinkChatPanel key={session.id} chat={chat} onAnswered={(transcript) => saveSession(session, transcript)} />}
             </div>
         </FeatureLayout>
     );
 };
 
-export default LinkSummarizer;
\ No newline at end of file
+export default LinkSummarizer;
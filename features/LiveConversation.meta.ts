@@ -0,0 +1,17 @@
+import React from 'react';
+import { FeatureDefinition } from './common/featureDefinition';
+import { LiveConversationHistory } from './common/HistoryRenderers';
+import { IconMessage } from '../components/Icons';
+
+export const meta: FeatureDefinition<'Live Conversation'> = {
+    name: 'Live Conversation',
+    route: 'live-conversation',
+    icon: IconMessage,
+    description: 'Real-time voice conversation with Gemini.',
+    component: React.lazy(() => import('./LiveConversation')),
+    inputSchema: {},
+    outputSchema: {
+        transcript: { kind: 'transcript', fileSuffix: '-transcript.txt', downloadLabel: 'Download Transcript' },
+    },
+    historyRenderer: LiveConversationHistory,
+};
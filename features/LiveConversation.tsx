@@ -1,12 +1,14 @@
 import React, { useState, useRef, useCallback, useEffect, useContext } from 'react';
-import { GoogleGenAI, LiveSession, LiveServerMessage, Modality, Blob as GenAIBlob } from '@google/genai';
+import { LiveServerMessage, Modality, Blob as GenAIBlob } from '@google/genai';
 import ReactMarkdown from 'react-markdown';
 import { decode, encode, decodeAudioData } from '../utils/audioUtils';
 import FeatureLayout from './common/FeatureLayout';
 import { Button } from './common/Controls';
 import { IconMicrophone } from '../components/Icons';
 import { HistoryContext } from '../context/HistoryContext';
+import { useGeminiClient } from '../hooks/useGeminiClient';
 import { getFriendlyErrorMessage } from '../utils/errorHandler';
+import { GeminiLiveSession } from '../services/geminiClient';
 
 interface TranscriptionEntry {
     source: 'user' | 'model';
@@ -15,11 +17,12 @@ interface TranscriptionEntry {
 
 const LiveConversation: React.FC = () => {
     const { addHistoryItem } = useContext(HistoryContext);
+    const { ai } = useGeminiClient();
     const [isSessionActive, setIsSessionActive] = useState(false);
     const [transcriptionHistory, setTranscriptionHistory] = useState<TranscriptionEntry[]>([]);
     const [error, setError] = useState<string | null>(null);
 
-    const sessionRef = useRef<LiveSession | null>(null);
+    const sessionRef = useRef<GeminiLiveSession | null>(null);
     const inputAudioContextRef = useRef<AudioContext | null>(null);
     const outputAudioContextRef = useRef<AudioContext | null>(null);
     const mediaStreamRef = useRef<MediaStream | null>(null);
@@ -79,7 +82,6 @@ const LiveConversation: React.FC = () => {
             inputAudioContextRef.current = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: 16000 });
             outputAudioContextRef.current = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: 24000 });
             
-            const ai = new GoogleGenAI({ apiKey: process.env.API_KEY as string });
 
             const sessionPromise = ai.live.connect({
                 model: 'gemini-2.5-flash-native-audio-preview-09-2025',
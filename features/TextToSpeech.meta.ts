@@ -0,0 +1,17 @@
+import React from 'react';
+import { FeatureDefinition } from './common/featureDefinition';
+import { IconVolume } from '../components/Icons';
+
+export const meta: FeatureDefinition<'Text to Speech'> = {
+    name: 'Text to Speech',
+    route: 'text-to-speech',
+    icon: IconVolume,
+    description: 'Turn text into natural-sounding speech.',
+    component: React.lazy(() => import('./TextToSpeech')),
+    inputSchema: {},
+    outputSchema: {
+        audio: { kind: 'audio', fileSuffix: '.wav', downloadLabel: 'Download Audio' },
+    },
+    supportsRerun: true,
+    receives: { text: 'Read the text aloud' },
+};
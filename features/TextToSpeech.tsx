@@ -1,90 +1,28 @@
 import React, { useState, useContext } from 'react';
-import { GoogleGenAI, Modality } from "@google/genai";
 import ReactMarkdown from 'react-markdown';
 import Spinner from '../components/Spinner';
 import FeatureLayout from './common/FeatureLayout';
-import { Label, TextArea, Button, Select } from './common/Controls';
-import { decode, decodeAudioData } from '../utils/audioUtils';
+import RequestStatus from './common/RequestStatus';
+import { Label, TextArea, Button, Select, CancelButton } from './common/Controls';
 import { HistoryContext } from '../context/HistoryContext';
+import { RouteContext } from '../context/RouteContext';
+import { optionParam } from '../utils/routing';
+import { useGeminiClient } from '../hooks/useGeminiClient';
+import { useCancellableRun } from '../hooks/useCancellableRun';
+import { useHistoryRestore } from '../hooks/useHistoryRestore';
+import { useReceivedAsset } from '../hooks/useReceivedAsset';
 import { getFriendlyErrorMessage } from '../utils/errorHandler';
 import { IconDownload } from '../components/Icons';
-
-const voiceGroups = {
-    "Baby & Toddler Voices": [
-        { name: 'Baby (Cooing Boy)', value: 'Puck' },
-        { name: 'Baby (Giggling Girl)', value: 'Kore' },
-        { name: 'Baby (Babbling)', value: 'Puck' },
-        { name: 'Baby (Sleepy Yawns)', value: 'Puck' },
-        { name: 'Baby (Excited Squeals)', value: 'Kore' },
-        { name: 'Toddler (Male)', value: 'Puck' },
-        { name: 'Toddler (Female)', value: 'Kore' },
-        { name: 'Toddler (Giggly Girl)', value: 'Kore' },
-        { name: 'Toddler (Curious Boy)', value: 'Puck' },
-        { name: 'Leo (Playful Boy)', value: 'Puck' },
-        { name: 'Lily (Sweet Girl)', value: 'Kore' },
-    ],
-    "Young Age": [
-        { name: 'Rachel (Clear American Female)', value: 'Kore' },
-        { name: 'Antoni (Youthful Male)', value: 'Puck' },
-        { name: 'Bella (Soft Female Narrator)', value: 'Zephyr' },
-        { name: 'Josh (Casual Male)', value: 'Puck' },
-        { name: 'Elli (Upbeat Female)', value: 'Kore' },
-        { name: 'Mia (Upbeat American Female)', value: 'Kore' },
-        { name: 'Noah (Friendly Young Male)', value: 'Puck' },
-        { name: 'Olivia (Sweet Female Voice)', value: 'Zephyr' },
-        { name: 'Liam (Calm Narrator)', value: 'Puck' },
-        { name: 'Young Male (Energetic)', value: 'Puck' },
-        { name: 'Young Female (Storyteller)', value: 'Kore' },
-        { name: 'Teen Boy (Casual)', value: 'Puck' },
-        { name: 'Teen Girl (Upbeat)', value: 'Kore' },
-    ],
-    "Middle Age": [
-        { name: 'Adam (Deep American Male)', value: 'Fenrir' },
-        { name: 'Adam V2 (Storyteller)', value: 'Puck' },
-        { name: 'Serena (Soothing Female)', value: 'Zephyr' },
-        { name: 'Arnold (Powerful Male)', value: 'Charon' },
-        { name: 'Ethan (Clear Announcer)', value: 'Charon' },
-        { name: 'Fin (Raspy Male)', value: 'Fenrir' },
-        { name: 'Middle-Aged Male (Confident)', value: 'Charon' },
-        { name: 'Middle-Aged Female (Warm)', value: 'Zephyr' },
-        { name: 'Middle-Aged Male (Friendly)', value: 'Puck' },
-        { name: 'Middle-Aged Female (Professional)', value: 'Kore' },
-        { name: 'Middle-Aged Male (Authoritative)', value: 'Fenrir' },
-        { name: 'Middle-Aged Female (Energetic)', value: 'Kore' },
-        { name: 'James (Deep Documentary Male)', value: 'Fenrir' },
-        { name: 'Sophia (Elegant Female Narrator)', value: 'Zephyr' },
-        { name: 'David (Corporate Male)', value: 'Charon' },
-        { name: 'Emma (Warm Conversational Female)', value: 'Kore' },
-        { name: 'Middle-Aged Female (News Anchor)', value: 'Kore' },
-        { name: 'Middle-Aged Female (Calm Instructor)', value: 'Zephyr' },
-        { name: 'Middle-Aged Male (Radio Host)', value: 'Charon' },
-    ],
-    "Old Age": [
-        { name: 'Old Man (Narrator)', value: 'Fenrir' },
-        { name: 'Old Woman (Storyteller)', value: 'Zephyr' },
-        { name: 'Old Man (Wise Sage)', value: 'Charon' },
-        { name: 'Old Woman (Gentle Grandmother)', value: 'Zephyr' },
-        { name: 'Arthur (Grandfatherly Storyteller)', value: 'Fenrir' },
-        { name: 'Eleanor (Wise Grandmother)', value: 'Zephyr' },
-        { name: 'Old Male (Gruff Veteran)', value: 'Fenrir' },
-        { name: 'Old Male (Gentle Professor)', value: 'Charon' },
-        { name: 'Old Female (Quirky Aunt)', value: 'Zephyr' },
-    ],
-    "Gemini Base Voices": [
-        { name: 'Kore (Female)', value: 'Kore' },
-        { name: 'Puck (Male)', value: 'Puck' },
-        { name: 'Charon (Male)', value: 'Charon' },
-        { name: 'Fenrir (Male)', value: 'Fenrir' },
-        { name: 'Zephyr (Female)', value: 'Zephyr' },
-    ]
-};
-
-const allVoices = Object.values(voiceGroups).flat();
+import SendToMenu from './common/SendToMenu';
+import { voiceGroups, allVoices, synthesizeSpeech } from './common/voices';
 
 const TextToSpeech: React.FC = () => {
     const { addHistoryItem } = useContext(HistoryContext);
-    const [text, setText] = useState<string>('Hello, this is Gemini. I can convert text into natural-sounding speech. Try typing something new!');
-    const [voiceName, setVoiceName] = useState<string>('Adam (Deep American Male)');
+    const { params } = useContext(RouteContext).route;
+    const { ai, requestActivity } = useGeminiClient();
+    const { startRun, cancelRun } = useCancellableRun();
+    const [text, setText] = useState<string>(params.get('text') ?? 'Hello, this is Gemini. I can convert text into natural-sounding speech. Try typing something new!');
+    const [voiceName, setVoiceName] = useState<string>(optionParam(params, 'voice', allVoices.map(v => v.name), 'Adam (Deep American Male)'));
     const [audioUrl, setAudioUrl] = useState<string | null>(null);
     const [isLoading, setIsLoading] = useState<boolean>(false);
     const [error, setError] = useState<string | null>(null);
@@ -107,99 +45,52 @@ const TextToSpeech: React.FC = () => {
         setIsLoading(true);
         setError(null);
         setAudioUrl(null);
+        const signal = startRun();
 
         try {
-            const selectedVoice = allVoices.find(v => v.name === voiceName);
-            const voiceApiValue = selectedVoice?.value || 'Fenrir'; // Fallback to a default
-
-            const ai = new GoogleGenAI({ apiKey: process.env.API_KEY as string });
-            const response = await ai.models.generateContent({
-                model: "gemini-2.5-flash-preview-tts",
-                contents: [{ parts: [{ text: text }] }],
-                config: {
-                    responseModalities: [Modality.AUDIO],
-                    speechConfig: {
-                        voiceConfig: {
-                            prebuiltVoiceConfig: { voiceName: voiceApiValue },
-                        },
-                    },
-                },
+            const wavBlob = await synthesizeSpeech(ai, text, voiceName, signal);
+            const url = URL.createObjectURL(wavBlob);
+            setAudioUrl(url);
+
+            addHistoryItem({
+                id: Date.now().toString(),
+                feature: 'Text to Speech',
+                timestamp: Date.now(),
+                inputs: { text, voice: voiceName },
+                outputs: { audio: wavBlob }
             });
-
-            const base64Audio = response.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data;
-            if (base64Audio) {
-                const outputAudioContext = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: 24000 });
-                const audioBuffer = await decodeAudioData(
-                    decode(base64Audio),
-                    outputAudioContext,
-                    24000,
-                    1
-                );
-                
-                const getWav = (buffer: AudioBuffer) => {
-                    const numOfChan = buffer.numberOfChannels,
-                        len = buffer.length * numOfChan * 2 + 44,
-                        bufferOut = new ArrayBuffer(len),
-                        view = new DataView(bufferOut),
-                        channels = [];
-                    let i, sample, offset = 0, pos = 0;
-
-                    setUint32(0x46464952); 
-                    setUint32(len - 8); 
-                    setUint32(0x45564157); 
-                    setUint32(0x20746d66); 
-                    setUint32(16); 
-                    setUint16(1); 
-                    setUint16(numOfChan); 
-                    setUint32(buffer.sampleRate); 
-                    setUint32(buffer.sampleRate * 2 * numOfChan); 
-                    setUint16(numOfChan * 2); 
-                    setUint16(16); 
-                    setUint32(0x61746164); 
-                    setUint32(len - pos - 4); 
-
-                    function setUint16(data: number) { view.setUint16(pos, data, true); pos += 2; }
-                    function setUint32(data: number) { view.setUint32(pos, data, true); pos += 4; }
-
-                    for (i = 0; i < numOfChan; i++) channels.push(buffer.getChannelData(i));
-                    
-                    while (pos < len) {
-                        for (i = 0; i < numOfChan; i++) {
-                            sample = Math.max(-1, Math.min(1, channels[i][offset]));
-                            sample = (0.5 + sample < 0 ? sample * 32768 : sample * 32767) | 0;
-                            view.setInt16(pos, sample, true);
-                            pos += 2;
-                        }
-                        offset++;
-                    }
-
-                    return new Blob([bufferOut], { type: "audio/wav" });
-                };
-
-                const wavBlob = getWav(audioBuffer);
-                const url = URL.createObjectURL(wavBlob);
-                setAudioUrl(url);
-
+        } catch (e: any) {
+            if (signal.aborted) {
                 addHistoryItem({
                     id: Date.now().toString(),
                     feature: 'Text to Speech',
                     timestamp: Date.now(),
                     inputs: { text, voice: voiceName },
-                    outputs: { audio: url }
+                    outputs: {},
+                    status: 'cancelled'
                 });
-
-
             } else {
-                throw new Error("No audio data was returned from the API.");
+                setError(getFriendlyErrorMessage(e));
+                console.error(e);
             }
-        } catch (e: any) {
-            setError(getFriendlyErrorMessage(e));
-            console.error(e);
         } finally {
             setIsLoading(false);
         }
     };
 
+    useHistoryRestore('Text to Speech', {
+        restore: ({ inputs }) => {
+            setText(inputs.text);
+            setVoiceName(inputs.voice);
+        },
+        run: handleGenerateSpeech,
+        onError: setError,
+    });
+
+    useReceivedAsset('Text to Speech', (asset) => {
+        if (asset.kind === 'text') setText(asset.text);
+    });
+
     return (
         <FeatureLayout
             title="Text-to-Speech"
@@ -230,11 +121,13 @@ const TextToSpeech: React.FC = () => {
                     </Select>
                 </div>
 
-                <div>
+                <div className="flex gap-4">
                     <Button onClick={handleGenerateSpeech} disabled={isLoading}>
                         {isLoading ? <><Spinner className="w-5 h-5 mr-2" /> Generating Audio...</> : 'Generate Speech'}
                     </Button>
+                    {isLoading && <CancelButton onClick={cancelRun} />}
                 </div>
+                <RequestStatus activity={requestActivity} />
                 {error && (
                     <div className="text-red-400 bg-red-900/50 p-3 rounded-md prose prose-invert max-w-none prose-p:my-0">
                         <ReactMarkdown components={{ a: ({node, ...props}) => <a {...props} className="text-blue-400 hover:underline" target="_blank" rel="noopener noreferrer" /> }}>
@@ -247,13 +140,16 @@ const TextToSpeech: React.FC = () => {
                     <div className="mt-4">
                         <div className="flex justify-between items-center mb-2">
                             <h3 className="text-lg font-semibold">Generated Audio</h3>
-                            <button
-                                onClick={handleDownload}
-                                className="flex items-center gap-2 px-3 py-1 bg-gray-700 hover:bg-gray-600 rounded-md text-sm"
-                            >
-                                <IconDownload />
-                                Download
-                            </button>
+                            <div className="flex items-center gap-2">
+                                <SendToMenu source="Text to Speech" kind="audio" value={audioUrl} name="gemini-speech" />
+                                <button
+                                    onClick={handleDownload}
+                                    className="flex items-center gap-2 px-3 py-1 bg-gray-700 hover:bg-gray-600 rounded-md text-sm"
+                                >
+                                    <IconDownload />
+                                    Download
+                                </button>
+                            </div>
                         </div>
                         <audio controls src={audioUrl} className="w-full">
                             Your browser does not support the audio element.
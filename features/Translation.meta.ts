@@ -0,0 +1,22 @@
+import React from 'react';
+import { FeatureDefinition } from './common/featureDefinition';
+import { TranslationHistory } from './common/HistoryRenderers';
+import { IconTranslate } from '../components/Icons';
+
+export const meta: FeatureDefinition<'Translation'> = {
+    name: 'Translation',
+    route: 'translation',
+    icon: IconTranslate,
+    description: 'Translate text, documents and speech between languages.',
+    component: React.lazy(() => import('./Translation')),
+    inputSchema: {
+        sourceAudio: { kind: 'audio', label: 'Recording' },
+    },
+    outputSchema: {
+        translatedText: { kind: 'text', fileSuffix: '-translation.txt', downloadLabel: 'Download Text' },
+        speech: { kind: 'audio', fileSuffix: '-speech.wav', downloadLabel: 'Download Speech' },
+    },
+    historyRenderer: TranslationHistory,
+    supportsRerun: true,
+    receives: { text: 'Translate the text' },
+};
@@ -1,126 +1,360 @@
 import React, { useState, useContext } from 'react';
-import { GoogleGenAI } from "@google/genai";
 import ReactMarkdown from 'react-markdown';
+import { GlossaryEntry, TranslationEntry } from '../types';
 import Spinner from '../components/Spinner';
 import FeatureLayout from './common/FeatureLayout';
-import { Label, TextArea, Select, Button } from './common/Controls';
+import RequestStatus from './common/RequestStatus';
+import { Label, TextArea, Select, Button, CancelButton } from './common/Controls';
 import { HistoryContext } from '../context/HistoryContext';
+import { RouteContext } from '../context/RouteContext';
+import { optionParam } from '../utils/routing';
+import { useGeminiClient } from '../hooks/useGeminiClient';
+import { useCancellableRun } from '../hooks/useCancellableRun';
+import { useHistoryRestore } from '../hooks/useHistoryRestore';
+import { useReceivedAsset } from '../hooks/useReceivedAsset';
+import { loadGlossary, saveGlossary } from '../services/glossaryStore';
 import { getFriendlyErrorMessage } from '../utils/errorHandler';
+import SendToMenu from './common/SendToMenu';
+import { LanguageSelect, LanguageMultiSelect } from './common/LanguagePicker';
+import GlossaryEditor from './common/GlossaryEditor';
+import {
+    Formality,
+    Tone,
+    TranslationOptions,
+    languages,
+    sourceLanguages,
+    formalityOptions,
+    toneOptions,
+    translateText,
+    reviewTranslation,
+    optionHistoryInputs,
+    TranslationReview,
+} from './common/translation';
+import DocumentTranslationPanel from './common/DocumentTranslationPanel';
+import VoiceTranslationPanel from './common/VoiceTranslationPanel';
+import TranslationReviewPanel from './common/TranslationReviewPanel';
 
-const languages = ['English', 'Hindi', 'Tamil', 'Telugu', 'Kannada'];
-const sourceLanguages = ['Auto-detect', ...languages];
+type TranslationMode = 'text' | 'documents' | 'voice';
+
+interface TargetResult {
+    translatedText?: string;
+    error?: string;
+    // Quality mode: the entry is held back until the user picks a translation and saves it.
+    pendingEntry?: Omit<TranslationEntry, 'version'>;
+    review?: TranslationReview;
+    reviewError?: string;
+    choice?: number;
+    saved?: boolean;
+}
+
+// The translation the user picked in quality mode, or the only one otherwise.
+const chosenTranslation = (result: TargetResult): string | undefined => {
+    const alternative = result.choice ? result.review?.alternatives[result.choice - 1] : undefined;
+    return alternative?.translatedText ?? result.translatedText;
+};
+
+// `target` may list several languages, e.g. `target=tamil,hindi`.
+const targetParam = (params: URLSearchParams): string[] => {
+    const targets = (params.get('target') ?? '').split(',')
+        .map(value => languages.find(lang => lang.toLowerCase() === value.trim().toLowerCase()))
+        .filter((lang): lang is string => !!lang);
+    return targets.length > 0 ? [...new Set(targets)] : ['Hindi'];
+};
 
 const Translation: React.FC = () => {
     const { addHistoryItem } = useContext(HistoryContext);
-    const [inputText, setInputText] = useState<string>('Hello, how are you?');
-    const [outputText, setOutputText] = useState<string>('');
-    const [sourceLang, setSourceLang] = useState<string>('Auto-detect');
-    const [targetLang, setTargetLang] = useState<string>('Hindi');
+    const { params } = useContext(RouteContext).route;
+    const { ai, requestActivity } = useGeminiClient();
+    const { startRun, cancelRun } = useCancellableRun();
+    const [inputText, setInputText] = useState<string>(params.get('text') ?? 'Hello, how are you?');
+    const [sourceLang, setSourceLang] = useState<string>(optionParam(params, 'source', sourceLanguages, 'Auto-detect'));
+    const [targetLangs, setTargetLangs] = useState<string[]>(() => targetParam(params));
+    const [formality, setFormality] = useState<Formality>(optionParam(params, 'formality', formalityOptions, 'Default'));
+    const [tone, setTone] = useState<Tone>(optionParam(params, 'tone', toneOptions, 'Neutral'));
+    const [glossary, setGlossary] = useState<GlossaryEntry[]>(loadGlossary);
+    const [results, setResults] = useState<Record<string, TargetResult>>({});
+    const [resultLangs, setResultLangs] = useState<string[]>([]);
+    const [detectedLanguage, setDetectedLanguage] = useState<string | null>(null);
     const [isLoading, setIsLoading] = useState<boolean>(false);
     const [error, setError] = useState<string | null>(null);
+    const [mode, setMode] = useState<TranslationMode>('text');
+    const [qualityCheck, setQualityCheck] = useState<boolean>(false);
+
+    const options: TranslationOptions = { formality, tone, glossary };
+    const glossaryTermCount = glossary.filter(entry => entry.term.trim()).length;
+
+    const handleGlossaryChange = (updated: GlossaryEntry[]) => {
+        setGlossary(updated);
+        saveGlossary(updated);
+    };
+
+    const updateResult = (targetLang: string, update: Partial<TargetResult>) => {
+        setResults(current => ({ ...current, [targetLang]: { ...current[targetLang], ...update } }));
+    };
+
+    const translateInto = async (targetLang: string, signal: AbortSignal) => {
+        let result;
+        try {
+            result = await translateText(ai, inputText, sourceLang, targetLang, options, signal);
+        } catch (e: any) {
+            if (signal.aborted) {
+                addHistoryItem({
+                    id: `${Date.now()}-${targetLang}`,
+                    feature: 'Translation',
+                    timestamp: Date.now(),
+                    inputs: {
+                        text: inputText,
+                        sourceLanguage: sourceLang,
+                        targetLanguage: targetLang,
+                        ...optionHistoryInputs(options, inputText, targetLang),
+                    },
+                    outputs: {},
+                    status: 'cancelled'
+                });
+            } else {
+                updateResult(targetLang, { error: getFriendlyErrorMessage(e) });
+                console.error(e);
+            }
+            return;
+        }
+        if (result.detectedLanguage) setDetectedLanguage(result.detectedLanguage);
+        const entry: Omit<TranslationEntry, 'version'> = {
+            id: `${Date.now()}-${targetLang}`,
+            feature: 'Translation',
+            timestamp: Date.now(),
+            inputs: {
+                text: inputText,
+                sourceLanguage: sourceLang,
+                targetLanguage: targetLang,
+                ...optionHistoryInputs(options, inputText, targetLang),
+            },
+            outputs: {
+                translatedText: result.translatedText,
+                ...(result.detectedLanguage ? { detectedLanguage: result.detectedLanguage } : {}),
+            }
+        };
+        if (!qualityCheck) {
+            updateResult(targetLang, { translatedText: result.translatedText });
+            addHistoryItem(entry);
+            return;
+        }
+
+        updateResult(targetLang, { translatedText: result.translatedText, pendingEntry: entry, choice: 0 });
+        const reviewLang = sourceLang === 'Auto-detect' ? result.detectedLanguage : sourceLang;
+        if (!reviewLang || !languages.includes(reviewLang)) {
+            updateResult(targetLang, { reviewError: 'Quality check failed: the source language could not be detected, so the translation was not back-translated.' });
+            return;
+        }
+        try {
+            const review = await reviewTranslation(ai, inputText, result.translatedText, reviewLang, targetLang, options, signal);
+            updateResult(targetLang, { review });
+        } catch (e: any) {
+            // Cancelling only stops the check; the finished translation can still be saved.
+            if (signal.aborted) {
+                updateResult(targetLang, { reviewError: 'Quality check cancelled.' });
+            } else {
+                updateResult(targetLang, { reviewError: `Quality check failed: ${getFriendlyErrorMessage(e)}` });
+                console.error(e);
+            }
+        }
+    };
+
+    const handleSave = (targetLang: string) => {
+        const result = results[targetLang];
+        if (!result?.pendingEntry) return;
+        const { pendingEntry, review, choice } = result;
+        const alternative = choice ? review?.alternatives[choice - 1] : undefined;
+        addHistoryItem({
+            ...pendingEntry,
+            timestamp: Date.now(),
+            outputs: {
+                ...pendingEntry.outputs,
+                translatedText: chosenTranslation(result),
+                ...(review ? { backTranslation: review.backTranslation, confidence: review.confidence } : {}),
+                ...(alternative ? { alternativeNote: alternative.note } : {}),
+            },
+        });
+        updateResult(targetLang, { saved: true });
+    };
 
     const handleTranslate = async () => {
         if (!inputText) {
             setError('Please enter some text to translate.');
             return;
         }
-        if (sourceLang !== 'Auto-detect' && sourceLang === targetLang) {
+        if (targetLangs.length === 0) {
+            setError('Please choose at least one target language.');
+            return;
+        }
+        if (targetLangs.includes(sourceLang)) {
             setError('Source and target languages cannot be the same.');
             return;
         }
 
         setIsLoading(true);
         setError(null);
-        setOutputText('');
+        setResults({});
+        setResultLangs(targetLangs);
+        setDetectedLanguage(null);
+        const signal = startRun();
+        // Every target is requested at once; the request scheduler limits how many run concurrently.
+        await Promise.all(targetLangs.map(targetLang => translateInto(targetLang, signal)));
+        setIsLoading(false);
+    };
 
-        try {
-            const ai = new GoogleGenAI({ apiKey: process.env.API_KEY as string });
-            const prompt = sourceLang === 'Auto-detect'
-                ? `Translate the following text to ${targetLang}: "${inputText}"`
-                : `Translate the following text from ${sourceLang} to ${targetLang}: "${inputText}"`;
-
-            const response = await ai.models.generateContent({
-                model: 'gemini-2.5-flash',
-                contents: prompt,
-            });
-            const resultText = response.text;
-            setOutputText(resultText);
-
-            addHistoryItem({
-                id: Date.now().toString(),
-                feature: 'Translation',
-                timestamp: Date.now(),
-                inputs: {
-                    text: inputText,
-                    sourceLanguage: sourceLang,
-                    targetLanguage: targetLang,
-                },
-                outputs: {
-                    translatedText: resultText,
-                }
-            });
+    useHistoryRestore('Translation', {
+        restore: ({ inputs }) => {
+            setMode('text');
+            setInputText(inputs.text);
+            setSourceLang(inputs.sourceLanguage);
+            setTargetLangs([inputs.targetLanguage]);
+            setFormality(formalityOptions.find(option => option === inputs.formality) ?? 'Default');
+            setTone(toneOptions.find(option => option === inputs.tone) ?? 'Neutral');
+        },
+        run: handleTranslate,
+        onError: setError,
+    });
 
-        } catch (e: any) {
-            setError(getFriendlyErrorMessage(e));
-            console.error(e);
-        } finally {
-            setIsLoading(false);
+    useReceivedAsset('Translation', (asset) => {
+        if (asset.kind === 'text') {
+            setMode('text');
+            setInputText(asset.text);
         }
-    };
+    });
 
     return (
         <FeatureLayout
             title="Language Translation"
-            description="Translate text between multiple languages including Tamil, English, Kannada, Telugu, and Hindi."
+            description="Translate text, documents and speech into one or more of over 80 languages, with a glossary for terms that must stay consistent and a choice of formality and tone."
         >
             <div className="space-y-6">
-                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div className="flex space-x-2 bg-gray-800 p-1 rounded-lg">
+                    <button onClick={() => setMode('text')} className={`w-full py-2 rounded-md transition ${mode === 'text' ? 'bg-blue-600' : 'hover:bg-gray-700'}`}>Text</button>
+                    <button onClick={() => setMode('documents')} className={`w-full py-2 rounded-md transition ${mode === 'documents' ? 'bg-blue-600' : 'hover:bg-gray-700'}`}>Documents</button>
+                    <button onClick={() => setMode('voice')} className={`w-full py-2 rounded-md transition ${mode === 'voice' ? 'bg-blue-600' : 'hover:bg-gray-700'}`}>Voice</button>
+                </div>
+
+                <div className="p-4 bg-gray-900/50 rounded-lg space-y-4">
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                        <div className="space-y-4">
+                            <div>
+                                <Label htmlFor="source-lang">From</Label>
+                                <LanguageSelect id="source-lang" value={sourceLang} onChange={setSourceLang} allowAutoDetect disabled={isLoading} />
+                            </div>
+                            <div className="grid grid-cols-2 gap-4">
+                                <div>
+                                    <Label htmlFor="formality">Formality</Label>
+                                    <Select id="formality" value={formality} onChange={(e) => setFormality(e.target.value as Formality)} disabled={isLoading}>
+                                        {formalityOptions.map(option => <option key={option} value={option}>{option}</option>)}
+                                    </Select>
+                                </div>
+                                <div>
+                                    <Label htmlFor="tone">Tone</Label>
+                                    <Select id="tone" value={tone} onChange={(e) => setTone(e.target.value as Tone)} disabled={isLoading}>
+                                        {toneOptions.map(option => <option key={option} value={option}>{option}</option>)}
+                                    </Select>
+                                </div>
+                            </div>
+                        </div>
+                        <div>
+                            <Label htmlFor="target-langs">To</Label>
+                            <LanguageMultiSelect id="target-langs" value={targetLangs} onChange={setTargetLangs} disabled={isLoading} />
+                        </div>
+                    </div>
+                    <details>
+                        <summary className="cursor-pointer text-sm font-medium text-gray-300">
+                            Glossary & do-not-translate terms ({glossaryTermCount})
+                        </summary>
+                        <div className="mt-3">
+                            <GlossaryEditor glossary={glossary} onChange={handleGlossaryChange} disabled={isLoading} />
+                        </div>
+                    </details>
+                </div>
+
+                {mode === 'documents' ? (
+                    <DocumentTranslationPanel sourceLang={sourceLang} targetLangs={targetLangs} options={options} />
+                ) : mode === 'voice' ? (
+                    <VoiceTranslationPanel sourceLang={sourceLang} targetLangs={targetLangs} options={options} />
+                ) : (
+                <>
                     <div>
-                        <Label htmlFor="source-lang">From</Label>
-                        <Select id="source-lang" value={sourceLang} onChange={(e) => setSourceLang(e.target.value)}>
-                            {sourceLanguages.map(lang => (
-                                <option key={lang} value={lang}>{lang}</option>
-                            ))}
-                        </Select>
+                        <Label htmlFor="translation-text">Text</Label>
                         <TextArea
+                            id="translation-text"
                             value={inputText}
                             onChange={(e) => setInputText(e.target.value)}
-                            className="mt-2"
-                            rows={8}
                             placeholder="Enter text to translate..."
                         />
                     </div>
-                    <div>
-                        <Label htmlFor="target-lang">To</Label>
-                        <Select id="target-lang" value={targetLang} onChange={(e) => setTargetLang(e.target.value)}>
-                            {languages.map(lang => (
-                                <option key={lang} value={lang}>{lang}</option>
-                            ))}
-                        </Select>
-                        <TextArea
-                            value={outputText}
-                            readOnly
-                            className="mt-2 bg-gray-900/50"
-                            rows={8}
-                            placeholder="Translation will appear here..."
+                    <label className="flex items-center gap-2 text-sm text-gray-300">
+                        <input
+                            type="checkbox"
+                            checked={qualityCheck}
+                            onChange={(e) => setQualityCheck(e.target.checked)}
+                            disabled={isLoading}
+                            className="w-4 h-4 accent-blue-500"
                         />
+                        Quality check: back-translate, flag meaning drift and suggest alternatives before saving to History
+                    </label>
+                    <div className="flex gap-4">
+                        <Button onClick={handleTranslate} disabled={isLoading}>
+                            {isLoading ? <><Spinner className="w-5 h-5 mr-2" /> Translating...</> : 'Translate'}
+                        </Button>
+                        {isLoading && <CancelButton onClick={cancelRun} />}
                     </div>
-                </div>
-                <div>
-                    <Button onClick={handleTranslate} disabled={isLoading}>
-                        {isLoading ? <><Spinner className="w-5 h-5 mr-2" /> Translating...</> : 'Translate'}
-                    </Button>
-                </div>
-                {error && (
-                    <div className="text-red-400 bg-red-900/50 p-3 rounded-md prose prose-invert max-w-none prose-p:my-0">
-                        <ReactMarkdown components={{ a: ({node, ...props}) => <a {...props} className="text-blue-400 hover:underline" target="_blank" rel="noopener noreferrer" /> }}>
-                            {error}
-                        </ReactMarkdown>
-                    </div>
+                    <RequestStatus activity={requestActivity} />
+                    {error && (
+                        <div className="text-red-400 bg-red-900/50 p-3 rounded-md prose prose-invert max-w-none prose-p:my-0">
+                            <ReactMarkdown components={{ a: ({node, ...props}) => <a {...props} className="text-blue-400 hover:underline" target="_blank" rel="noopener noreferrer" /> }}>
+                                {error}
+                            </ReactMarkdown>
+                        </div>
+                    )}
+                    {detectedLanguage && (
+                        <p className="text-sm text-gray-400">Detected source language: <span className="text-gray-200">{detectedLanguage}</span></p>
+                    )}
+                    {resultLangs.length > 0 && (
+                        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                            {resultLangs.map(targetLang => {
+                                const result = results[targetLang];
+                                const chosen = result && chosenTranslation(result);
+                                return (
+                                    <div key={targetLang} className="bg-gray-900/50 p-4 rounded-lg space-y-2">
+                                        <div className="flex justify-between items-center gap-2">
+                                            <h3 className="font-semibold text-gray-200">{targetLang}</h3>
+                                            {chosen && <SendToMenu source="Translation" kind="text" value={chosen} />}
+                                        </div>
+                                        {!result && isLoading && <Spinner className="w-5 h-5" />}
+                                        {result?.translatedText && !result.review && <p className="text-gray-300 whitespace-pre-wrap">{result.translatedText}</p>}
+                                        {result?.error && <p className="text-sm text-red-400">{result.error}</p>}
+                                        {result?.pendingEntry && !result.review && !result.reviewError && isLoading && (
+                                            <p className="flex items-center gap-2 text-sm text-blue-300"><Spinner className="w-4 h-4" /> Checking quality...</p>
+                                        )}
+                                        {result?.review && (
+                                            <TranslationReviewPanel
+                                                translatedText={result.translatedText!}
+                                                review={result.review}
+                                                selected={result.choice ?? 0}
+                                                onSelect={(choice) => updateResult(targetLang, { choice })}
+                                                disabled={result.saved}
+                                            />
+                                        )}
+                                        {result?.reviewError && <p className="text-sm text-yellow-300">{result.reviewError}</p>}
+                                        {result?.pendingEntry && (result.review || result.reviewError) && (
+                                            result.saved
+                                                ? <p className="text-sm text-green-400">Saved to History.</p>
+                                                : <Button onClick={() => handleSave(targetLang)}>Save to History</Button>
+                                        )}
+                                    </div>
+                                );
+                            })}
+                        </div>
+                    )}
+                </>
                 )}
             </div>
         </FeatureLayout>
     );
 };
 
-export default Translation;
\ No newline at end of file
+export default Translation;
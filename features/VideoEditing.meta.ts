@@ -0,0 +1,19 @@
+import React from 'react';
+import { FeatureDefinition } from './common/featureDefinition';
+import { IconVideoEdit } from '../components/Icons';
+
+export const meta: FeatureDefinition<'Video Editing'> = {
+    name: 'Video Editing',
+    route: 'video-editing',
+    icon: IconVideoEdit,
+    description: 'Extend a video with a new clip continuing the action.',
+    component: React.lazy(() => import('./VideoEditing')),
+    inputSchema: {
+        originalVideo: { kind: 'video' },
+    },
+    outputSchema: {
+        editedVideo: { kind: 'video', fileSuffix: '-edited.mp4', downloadLabel: 'Download Edited Video' },
+    },
+    supportsRerun: true,
+    receives: { video: 'Extend the video' },
+};
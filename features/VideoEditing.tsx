@@ -1,16 +1,21 @@
-import React, { useState, useContext } from 'react';
-import { GoogleGenAI } from "@google/genai";
+import React, { useState, useContext, useEffect } from 'react';
 import ReactMarkdown from 'react-markdown';
 import { VideoAspectRatio } from '../types';
 import Spinner from '../components/Spinner';
 import FeatureLayout from './common/FeatureLayout';
-import { Label, TextArea, Button } from './common/Controls';
+import { Label, TextArea, Button, CancelButton } from './common/Controls';
 import { useVeoApiKey } from '../hooks/useVeoApiKey';
+import { useHistoryRestore } from '../hooks/useHistoryRestore';
+import { useReceivedAsset } from '../hooks/useReceivedAsset';
+import { loadMediaFile } from '../services/historyStore';
 import { extractLastVideoFrame } from '../utils/fileUtils';
 import { HistoryContext } from '../context/HistoryContext';
-import { getFriendlyErrorMessage } from '../utils/errorHandler';
+import { RouteContext } from '../context/RouteContext';
+import { JobsContext, isJobActive } from '../context/JobsContext';
 import { IconDownload, IconUpload } from '../components/Icons';
 import Dropzone from '../components/Dropzone';
+import StoredMedia from '../components/StoredMedia';
+import SendToMenu from './common/SendToMenu';
 
 const loadingMessages = [
     "Analyzing the final scene...",
@@ -21,17 +26,31 @@ const loadingMessages = [
 ];
 
 const VideoEditing: React.FC = () => {
-    const { addHistoryItem } = useContext(HistoryContext);
+    const { historyItems } = useContext(HistoryContext);
+    const { params } = useContext(RouteContext).route;
+    const { jobs, startVideoJob, cancelJob } = useContext(JobsContext);
     const { isKeySelected, isCheckingKey, selectKey, handleApiError } = useVeoApiKey();
     
     const [originalVideoFile, setOriginalVideoFile] = useState<File | null>(null);
     const [originalVideoUrl, setOriginalVideoUrl] = useState<string | null>(null);
-    const [prompt, setPrompt] = useState<string>("Continue the action, making it more epic and dramatic.");
-    const [editedVideoUrl, setEditedVideoUrl] = useState<string | null>(null);
-    const [isLoading, setIsLoading] = useState<boolean>(false);
+    const [prompt, setPrompt] = useState<string>(params.get('prompt') ?? "Continue the action, making it more epic and dramatic.");
+    // Picks the latest running job back up when returning to this feature.
+    const [jobId, setJobId] = useState<string | null>(() => jobs.find(job => job.feature === 'Video Editing' && isJobActive(job))?.id ?? null);
     const [loadingMessage, setLoadingMessage] = useState(loadingMessages[0]);
     const [error, setError] = useState<string | null>(null);
 
+    const job = jobs.find(j => j.id === jobId);
+    const isLoading = !!job && isJobActive(job);
+    const resultItem = job?.historyItemId ? historyItems.find(item => item.id === job.historyItemId) : undefined;
+    const resultVideo = resultItem?.feature === 'Video Editing' ? resultItem.outputs.editedVideo : undefined;
+    const displayedError = error || (job?.status === 'failed' ? job.error : null);
+
+    useEffect(() => {
+        if (job?.status === 'failed') {
+            handleApiError({ message: job.error });
+        }
+    }, [job?.status, job?.error, handleApiError]);
+
     React.useEffect(() => {
         let interval: number;
         if (isLoading) {
@@ -48,13 +67,12 @@ const VideoEditing: React.FC = () => {
         if (file) {
             setOriginalVideoFile(file);
             setOriginalVideoUrl(URL.createObjectURL(file));
-            setEditedVideoUrl(null);
+            setJobId(null);
             setError(null);
         }
     };
 
-    const handleDownload = () => {
-        if (!editedVideoUrl) return;
+    const handleDownload = (editedVideoUrl: string) => {
         const link = document.createElement('a');
         link.href = editedVideoUrl;
         link.download = 'gemini-extended-video.mp4';
@@ -63,7 +81,7 @@ const VideoEditing: React.FC = () => {
         document.body.removeChild(link);
     };
 
-    const handleGenerate = async () => {
+    const handleGenerate = () => {
         if (!originalVideoFile) {
             setError('Please upload a video to edit.');
             return;
@@ -73,58 +91,41 @@ const VideoEditing: React.FC = () => {
             return;
         }
 
-        setIsLoading(true);
         setError(null);
-        setEditedVideoUrl(null);
         setLoadingMessage(loadingMessages[0]);
 
-        try {
-            const ai = new GoogleGenAI({ apiKey: process.env.API_KEY as string });
-            
-            // Workaround: Extract last frame and generate a new video from it.
-            const { base64, width, height } = await extractLastVideoFrame(originalVideoFile);
-            const aspectRatio: VideoAspectRatio = width > height ? "16:9" : "9:16";
-
-            const operation = await ai.models.generateVideos({
-                model: 'veo-3.1-fast-generate-preview',
-                prompt: prompt,
-                image: { imageBytes: base64, mimeType: 'image/jpeg' },
-                config: { numberOfVideos: 1, resolution: '720p', aspectRatio: aspectRatio }
-            });
-
-            let currentOperation = operation;
-            while (!currentOperation.done) {
-                await new Promise(resolve => setTimeout(resolve, 10000));
-                currentOperation = await ai.operations.getVideosOperation({ operation: currentOperation });
-            }
-
-            const downloadLink = currentOperation.response?.generatedVideos?.[0]?.video?.uri;
-            if (downloadLink) {
-                 const response = await fetch(`${downloadLink}&key=${process.env.API_KEY}`);
-                 const blob = await response.blob();
-                 const newVideoUrl = URL.createObjectURL(blob);
-                 setEditedVideoUrl(newVideoUrl);
-
-                 addHistoryItem({
-                    id: Date.now().toString(),
-                    feature: 'Video Editing',
-                    timestamp: Date.now(),
-                    inputs: { prompt, originalVideo: originalVideoUrl },
-                    outputs: { editedVideo: newVideoUrl }
-                 });
-
-            } else {
-                throw new Error("Video generation completed, but no download link was provided.");
-            }
-        } catch (e: any) {
-            handleApiError(e);
-            setError(getFriendlyErrorMessage(e));
-            console.error(e);
-        } finally {
-            setIsLoading(false);
-        }
+        setJobId(startVideoJob({
+            feature: 'Video Editing',
+            label: prompt,
+            inputs: { prompt, originalVideo: originalVideoFile },
+            outputKey: 'editedVideo',
+            request: async () => {
+                // Workaround: Extract last frame and generate a new video from it.
+                const { base64, width, height } = await extractLastVideoFrame(originalVideoFile);
+                const aspectRatio: VideoAspectRatio = width > height ? "16:9" : "9:16";
+                return {
+                    model: 'veo-3.1-fast-generate-preview',
+                    prompt: prompt,
+                    image: { imageBytes: base64, mimeType: 'image/jpeg' },
+                    config: { numberOfVideos: 1, resolution: '720p', aspectRatio: aspectRatio }
+                };
+            },
+        }));
     };
     
+    useHistoryRestore('Video Editing', {
+        restore: async ({ inputs }) => {
+            setPrompt(inputs.prompt);
+            handleFileSelect(await loadMediaFile(inputs.originalVideo, 'original-video'));
+        },
+        run: handleGenerate,
+        onError: setError,
+    });
+
+    useReceivedAsset('Video Editing', (asset) => {
+        if (asset.kind === 'video') handleFileSelect(asset.file);
+    });
+
     if (isCheckingKey) {
         return <div className="flex justify-center items-center h-full"><Spinner className="w-10 h-10" /></div>;
     }
@@ -169,18 +170,19 @@ const VideoEditing: React.FC = () => {
                                 placeholder="e.g., A spaceship flies out of the explosion"
                             />
                         </div>
-                        <div>
+                        <div className="flex gap-4">
                             <Button onClick={handleGenerate} disabled={isLoading}>
                                 {isLoading ? <><Spinner className="w-5 h-5 mr-2" /> Generating...</> : 'Extend Video'}
                             </Button>
+                            {isLoading && job && <CancelButton onClick={() => cancelJob(job.id)} />}
                         </div>
                     </div>
                 )}
                 
-                {error && (
+                {displayedError && (
                     <div className="text-red-400 bg-red-900/50 p-3 rounded-md prose prose-invert max-w-none prose-p:my-0">
                         <ReactMarkdown components={{ a: ({node, ...props}) => <a {...props} className="text-blue-400 hover:underline" target="_blank" rel="noopener noreferrer" /> }}>
-                            {error}
+                            {displayedError}
                         </ReactMarkdown>
                     </div>
                 )}
@@ -188,23 +190,31 @@ const VideoEditing: React.FC = () => {
                 {isLoading && (
                      <div className="text-center p-4 bg-gray-900/50 rounded-lg">
                         <p className="text-lg">{loadingMessage}</p>
+                        <p className="text-sm text-gray-400 mt-2">You can switch to another feature; the clip keeps generating in the background and is saved to History when it's ready.</p>
                     </div>
                 )}
 
-                {editedVideoUrl && (
-                    <div>
-                        <div className="flex justify-between items-center mb-2">
-                             <h3 className="text-lg font-semibold">Extended Video</h3>
-                            <button
-                                onClick={handleDownload}
-                                className="flex items-center gap-2 px-3 py-1 bg-gray-700 hover:bg-gray-600 rounded-md text-sm"
-                            >
-                                <IconDownload />
-                                Download
-                            </button>
-                         </div>
-                        <video src={editedVideoUrl} controls autoPlay loop className="rounded-lg shadow-lg w-full" />
-                    </div>
+                {resultVideo && (
+                    <StoredMedia value={resultVideo}>
+                        {(editedVideoUrl) => (
+                            <div>
+                                <div className="flex justify-between items-center mb-2">
+                                     <h3 className="text-lg font-semibold">Extended Video</h3>
+                                    <div className="flex items-center gap-2">
+                                        <SendToMenu source="Video Editing" kind="video" value={resultVideo} name="extended-video" />
+                                        <button
+                                            onClick={() => handleDownload(editedVideoUrl)}
+                                            className="flex items-center gap-2 px-3 py-1 bg-gray-700 hover:bg-gray-600 rounded-md text-sm"
+                                        >
+                                            <IconDownload />
+                                            Download
+                                        </button>
+                                    </div>
+                                 </div>
+                                <video src={editedVideoUrl} controls autoPlay loop className="rounded-lg shadow-lg w-full" />
+                            </div>
+                        )}
+                    </StoredMedia>
                 )}
             </div>
         </FeatureLayout>
@@ -0,0 +1,19 @@
+import React from 'react';
+import { FeatureDefinition } from './common/featureDefinition';
+import { IconMovie } from '../components/Icons';
+
+export const meta: FeatureDefinition<'Video Generation'> = {
+    name: 'Video Generation',
+    route: 'video-generation',
+    icon: IconMovie,
+    description: 'Generate video clips with Veo from text or an image.',
+    component: React.lazy(() => import('./VideoGeneration')),
+    inputSchema: {
+        image: { kind: 'image' },
+    },
+    outputSchema: {
+        video: { kind: 'video', fileSuffix: '.mp4', downloadLabel: 'Download Video' },
+    },
+    supportsRerun: true,
+    receives: { image: 'Use as the start frame', text: 'Use as the prompt' },
+};
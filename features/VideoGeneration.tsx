@@ -1,16 +1,22 @@
 import React, { useState, useContext, useEffect } from 'react';
-import { GoogleGenAI } from "@google/genai";
 import ReactMarkdown from 'react-markdown';
-import { VideoAspectRatio } from '../types';
+import { VideoAspectRatio, VideoGenerationEntry } from '../types';
 import Spinner from '../components/Spinner';
 import FeatureLayout from './common/FeatureLayout';
-import { Label, TextArea, Select, Button } from './common/Controls';
+import { Label, TextArea, Select, Button, CancelButton } from './common/Controls';
 import { fileToBase64 } from '../utils/fileUtils';
 import { HistoryContext } from '../context/HistoryContext';
+import { RouteContext } from '../context/RouteContext';
+import { optionParam } from '../utils/routing';
+import { JobsContext, isJobActive } from '../context/JobsContext';
 import { useVeoApiKey } from '../hooks/useVeoApiKey';
-import { getFriendlyErrorMessage } from '../utils/errorHandler';
+import { useHistoryRestore } from '../hooks/useHistoryRestore';
+import { useReceivedAsset } from '../hooks/useReceivedAsset';
+import { loadMediaFile } from '../services/historyStore';
 import { IconDownload, IconUpload } from '../components/Icons';
 import Dropzone from '../components/Dropzone';
+import StoredMedia from '../components/StoredMedia';
+import SendToMenu from './common/SendToMenu';
 
 type GenerationMode = 'text-to-video' | 'image-to-video';
 
@@ -48,24 +54,37 @@ const aspectRatios: { label: string, value: string }[] = [
 ];
 
 const VideoGeneration: React.FC = () => {
-    const { addHistoryItem } = useContext(HistoryContext);
+    const { historyItems } = useContext(HistoryContext);
+    const { params } = useContext(RouteContext).route;
+    const { jobs, startVideoJob, cancelJob } = useContext(JobsContext);
     const { isKeySelected, isCheckingKey, selectKey, handleApiError } = useVeoApiKey();
     const [mode, setMode] = useState<GenerationMode>('text-to-video');
-    const [prompt, setPrompt] = useState<string>('A high-speed chase between two futuristic spaceships through an asteroid field.');
+    const [prompt, setPrompt] = useState<string>(params.get('prompt') ?? 'A high-speed chase between two futuristic spaceships through an asteroid field.');
     const [imageFile, setImageFile] = useState<File | null>(null);
     const [imageUrl, setImageUrl] = useState<string | null>(null);
-    const [videoUrl, setVideoUrl] = useState<string | null>(null);
-    const [isLoading, setIsLoading] = useState<boolean>(false);
+    // Picks the latest running job back up when returning to this feature.
+    const [jobId, setJobId] = useState<string | null>(() => jobs.find(job => job.feature === 'Video Generation' && isJobActive(job))?.id ?? null);
     const [loadingMessage, setLoadingMessage] = useState(loadingMessages[0]);
     const [error, setError] = useState<string | null>(null);
 
-    const [model, setModel] = useState<string>('veo-3.1-fast-generate-preview');
-    const [style, setStyle] = useState<string>('Cinematic');
+    const [model, setModel] = useState<string>(optionParam(params, 'model', videoModels.map(m => m.value), 'veo-3.1-fast-generate-preview'));
+    const [style, setStyle] = useState<string>(optionParam(params, 'style', styles, 'Cinematic'));
     const [duration, setDuration] = useState<number>(10);
     const [resolution, setResolution] = useState<string>('1080p');
-    const [aspectRatio, setAspectRatio] = useState<string>('16:9');
+    const [aspectRatio, setAspectRatio] = useState<string>(optionParam(params, 'aspectRatio', aspectRatios.map(ar => ar.value), '16:9'));
     const [frameRate, setFrameRate] = useState<number>(30);
 
+    const job = jobs.find(j => j.id === jobId);
+    const isLoading = !!job && isJobActive(job);
+    const resultItem = job?.historyItemId ? historyItems.find(item => item.id === job.historyItemId) : undefined;
+    const resultVideo = resultItem?.feature === 'Video Generation' ? resultItem.outputs.video : undefined;
+
+    useEffect(() => {
+        if (job?.status === 'failed') {
+            handleApiError({ message: job.error });
+        }
+    }, [job?.status, job?.error, handleApiError]);
+
     useEffect(() => {
         let interval: number;
         if (isLoading) {
@@ -92,8 +111,7 @@ const VideoGeneration: React.FC = () => {
         }
     };
 
-    const handleDownload = () => {
-        if (!videoUrl) return;
+    const handleDownload = (videoUrl: string) => {
         const link = document.createElement('a');
         link.href = videoUrl;
         link.download = 'gemini-video.mp4';
@@ -102,7 +120,7 @@ const VideoGeneration: React.FC = () => {
         document.body.removeChild(link);
     };
     
-    const handleGenerate = async () => {
+    const handleGenerate = () => {
         const selectedModelObject = videoModels.find(m => m.value === model);
         if (!selectedModelObject || !selectedModelObject.isGeminiNative) {
             setError("Please select the VEO 3.1 model to generate a video.");
@@ -117,74 +135,66 @@ const VideoGeneration: React.FC = () => {
             return;
         }
 
-        setIsLoading(true);
         setError(null);
-        setVideoUrl(null);
         setLoadingMessage(loadingMessages[0]);
+        const historyInputs: VideoGenerationEntry['inputs'] = { prompt, mode, image: imageFile, model: selectedModelObject?.name, style, duration, resolution, aspectRatio, frameRate };
 
-        try {
-            const ai = new GoogleGenAI({ apiKey: process.env.API_KEY as string });
-
-            let finalPrompt = style === 'No Style' ? prompt : `${style} style, ${prompt}`;
-            if (['2K', '4K'].includes(resolution)) {
-                finalPrompt += `, ${resolution}, ultra-high definition, photorealistic`;
-            }
-            finalPrompt += `, ${frameRate}fps, a ${duration} second long video.`;
-            
-            const effectiveModel = 'veo-3.1-fast-generate-preview';
-            const apiResolution = ['720p', '1080p'].includes(resolution) ? resolution : '1080p';
-            const apiAspectRatio = ['16:9', '9:16'].includes(aspectRatio) ? aspectRatio : '16:9';
-
-            let operation;
-            if (mode === 'image-to-video' && imageFile) {
-                const base64Data = await fileToBase64(imageFile);
-                operation = await ai.models.generateVideos({
-                    model: effectiveModel,
-                    prompt: finalPrompt,
-                    image: { imageBytes: base64Data, mimeType: imageFile.type },
-                    config: { numberOfVideos: 1, resolution: apiResolution as '720p' | '1080p', aspectRatio: apiAspectRatio as VideoAspectRatio }
-                });
-            } else {
-                 operation = await ai.models.generateVideos({
-                    model: effectiveModel,
-                    prompt: finalPrompt,
-                    config: { numberOfVideos: 1, resolution: apiResolution as '720p' | '1080p', aspectRatio: apiAspectRatio as VideoAspectRatio }
-                });
-            }
-            
-            while (!operation.done) {
-                await new Promise(resolve => setTimeout(resolve, 10000));
-                operation = await ai.operations.getVideosOperation({ operation: operation });
-            }
+        let finalPrompt = style === 'No Style' ? prompt : `${style} style, ${prompt}`;
+        if (['2K', '4K'].includes(resolution)) {
+            finalPrompt += `, ${resolution}, ultra-high definition, photorealistic`;
+        }
+        finalPrompt += `, ${frameRate}fps, a ${duration} second long video.`;
+        
+        const effectiveModel = 'veo-3.1-fast-generate-preview';
+        const apiResolution = ['720p', '1080p'].includes(resolution) ? resolution : '1080p';
+        const apiAspectRatio = ['16:9', '9:16'].includes(aspectRatio) ? aspectRatio : '16:9';
+        const config = { numberOfVideos: 1, resolution: apiResolution as '720p' | '1080p', aspectRatio: apiAspectRatio as VideoAspectRatio };
 
-            const downloadLink = operation.response?.generatedVideos?.[0]?.video?.uri;
-            if (downloadLink) {
-                 const response = await fetch(`${downloadLink}&key=${process.env.API_KEY}`);
-                 const blob = await response.blob();
-                 const newVideoUrl = URL.createObjectURL(blob);
-                 setVideoUrl(newVideoUrl);
+        setJobId(startVideoJob({
+            feature: 'Video Generation',
+            label: prompt || imageFile?.name || 'Image-to-video',
+            inputs: historyInputs,
+            outputKey: 'video',
+            request: async () => {
+                if (mode === 'image-to-video' && imageFile) {
+                    const base64Data = await fileToBase64(imageFile);
+                    return {
+                        model: effectiveModel,
+                        prompt: finalPrompt,
+                        image: { imageBytes: base64Data, mimeType: imageFile.type },
+                        config,
+                    };
+                }
+                return { model: effectiveModel, prompt: finalPrompt, config };
+            },
+        }));
+    };
 
-                 const historyInputs: Record<string, any> = { prompt, mode, image: imageUrl, model: selectedModelObject?.name, style, duration, resolution, aspectRatio, frameRate };
-                 
-                 addHistoryItem({
-                    id: Date.now().toString(),
-                    feature: 'Video Generation',
-                    timestamp: Date.now(),
-                    inputs: historyInputs,
-                    outputs: { video: newVideoUrl }
-                 });
+    useHistoryRestore('Video Generation', {
+        restore: async ({ inputs }) => {
+            setPrompt(inputs.prompt);
+            setModel(videoModels.find(m => m.name === inputs.model || m.value === inputs.model)?.value ?? model);
+            setStyle(inputs.style);
+            setDuration(inputs.duration);
+            setResolution(inputs.resolution);
+            setAspectRatio(inputs.aspectRatio);
+            setFrameRate(inputs.frameRate);
+            const isImageMode = inputs.mode === 'image-to-video';
+            setMode(isImageMode ? 'image-to-video' : 'text-to-video');
+            if (isImageMode && inputs.image) handleFileSelect(await loadMediaFile(inputs.image, 'start-frame'));
+        },
+        run: handleGenerate,
+        onError: setError,
+    });
 
-            } else {
-                throw new Error("Video generation completed, but no download link was provided.");
-            }
-        } catch (e: any) {
-            handleApiError(e);
-            setError(getFriendlyErrorMessage(e));
-            console.error(e);
-        } finally {
-            setIsLoading(false);
+    useReceivedAsset('Video Generation', (asset) => {
+        if (asset.kind === 'text') {
+            setPrompt(asset.text);
+        } else if (asset.kind === 'image') {
+            setMode('image-to-video');
+            handleFileSelect(asset.file);
         }
-    };
+    });
 
     if (isCheckingKey) {
         return <div className="flex justify-center items-center h-full"><Spinner className="w-10 h-10" /></div>;
@@ -206,6 +216,7 @@ const VideoGeneration: React.FC = () => {
     const selectedModelObject = videoModels.find(m => m.value === model);
     const isGenerationDisabled = isLoading || !selectedModelObject?.isGeminiNative;
     const isRunwayMode = model === 'runway-gen3-alpha';
+    const displayedError = error || (job?.status === 'failed' ? job.error : null);
 
     return (
         <FeatureLayout
@@ -303,16 +314,17 @@ const VideoGeneration: React.FC = () => {
                     </div>
                 </div>
                 
-                <div>
+                <div className="flex gap-4">
                     <Button onClick={handleGenerate} disabled={isGenerationDisabled}>
                         {isLoading ? <><Spinner className="w-5 h-5 mr-2" /> Generating...</> : 'Generate Video'}
                     </Button>
+                    {isLoading && job && <CancelButton onClick={() => cancelJob(job.id)} />}
                 </div>
                 
-                {error && (
+                {displayedError && (
                     <div className="text-red-400 bg-red-900/50 p-3 rounded-md prose prose-invert max-w-none prose-p:my-0">
                         <ReactMarkdown components={{ a: ({node, ...props}) => <a {...props} className="text-blue-400 hover:underline" target="_blank" rel="noopener noreferrer" /> }}>
-                            {error}
+                            {displayedError}
                         </ReactMarkdown>
                     </div>
                 )}
@@ -320,23 +332,31 @@ const VideoGeneration: React.FC = () => {
                 {isLoading && (
                      <div className="text-center p-4 bg-gray-900/50 rounded-lg">
                         <p className="text-lg">{loadingMessage}</p>
+                        <p className="text-sm text-gray-400 mt-2">You can switch to another feature; the video keeps generating in the background and is saved to History when it's ready.</p>
                     </div>
                 )}
 
-                {videoUrl && (
-                    <div>
-                        <div className="flex justify-between items-center mb-2">
-                             <h3 className="text-lg font-semibold">Generated Video</h3>
-                             <button
-                                onClick={handleDownload}
-                                className="flex items-center gap-2 px-3 py-1 bg-gray-700 hover:bg-gray-600 rounded-md text-sm"
-                            >
-                                <IconDownload />
-                                Download
-                            </button>
-                        </div>
-                        <video src={videoUrl} controls autoPlay loop className="rounded-lg shadow-lg w-full" />
-                    </div>
+                {resultVideo && (
+                    <StoredMedia value={resultVideo}>
+                        {(videoUrl) => (
+                            <div>
+                                <div className="flex justify-between items-center mb-2">
+                                     <h3 className="text-lg font-semibold">Generated Video</h3>
+                                     <div className="flex items-center gap-2">
+                                        <SendToMenu source="Video Generation" kind="video" value={resultVideo} name="gemini-video" />
+                                        <button
+                                            onClick={() => handleDownload(videoUrl)}
+                                            className="flex items-center gap-2 px-3 py-1 bg-gray-700 hover:bg-gray-600 rounded-md text-sm"
+                                        >
+                                            <IconDownload />
+                                            Download
+                                        </button>
+                                    </div>
+                                </div>
+                                <video src={videoUrl} controls autoPlay loop className="rounded-lg shadow-lg w-full" />
+                            </div>
+                        )}
+                    </StoredMedia>
                 )}
             </div>
         </FeatureLayout>
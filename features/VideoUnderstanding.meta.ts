@@ -0,0 +1,19 @@
+import React from 'react';
+import { FeatureDefinition } from './common/featureDefinition';
+import { IconMovie } from '../components/Icons';
+
+export const meta: FeatureDefinition<'Video Understanding'> = {
+    name: 'Video Understanding',
+    route: 'video-understanding',
+    icon: IconMovie,
+    description: 'Summarize and ask questions about a video.',
+    component: React.lazy(() => import('./VideoUnderstanding')),
+    inputSchema: {
+        video: { kind: 'video' },
+    },
+    outputSchema: {
+        analysis: { kind: 'markdown', fileSuffix: '-analysis.txt', downloadLabel: 'Download Text' },
+    },
+    supportsRerun: true,
+    receives: { video: 'Analyze the video' },
+};
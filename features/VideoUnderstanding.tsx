@@ -1,20 +1,31 @@
 import React, { useState, useContext } from 'react';
-import { GoogleGenAI, Part } from "@google/genai";
+import { Part } from "@google/genai";
 import { extractVideoFrames } from '../utils/fileUtils';
 import Spinner from '../components/Spinner';
 import FeatureLayout from './common/FeatureLayout';
-import { Label, TextArea, Button } from './common/Controls';
+import RequestStatus from './common/RequestStatus';
+import { Label, TextArea, Button, CancelButton } from './common/Controls';
 import ReactMarkdown from 'react-markdown';
 import { HistoryContext } from '../context/HistoryContext';
+import { RouteContext } from '../context/RouteContext';
+import { useGeminiClient } from '../hooks/useGeminiClient';
+import { useCancellableRun } from '../hooks/useCancellableRun';
+import { useHistoryRestore } from '../hooks/useHistoryRestore';
+import { useReceivedAsset } from '../hooks/useReceivedAsset';
+import { loadMediaFile } from '../services/historyStore';
 import { getFriendlyErrorMessage } from '../utils/errorHandler';
 import Dropzone from '../components/Dropzone';
 import { IconUpload } from '../components/Icons';
+import SendToMenu from './common/SendToMenu';
 
 const VideoUnderstanding: React.FC = () => {
     const { addHistoryItem } = useContext(HistoryContext);
+    const { params } = useContext(RouteContext).route;
+    const { ai, requestActivity } = useGeminiClient();
+    const { startRun, cancelRun } = useCancellableRun();
     const [videoFile, setVideoFile] = useState<File | null>(null);
     const [videoUrl, setVideoUrl] = useState<string | null>(null);
-    const [prompt, setPrompt] = useState<string>('Summarize this video. What are the key events?');
+    const [prompt, setPrompt] = useState<string>(params.get('prompt') ?? 'Summarize this video. What are the key events?');
     const [analysis, setAnalysis] = useState<string>('');
     const [isLoading, setIsLoading] = useState<boolean>(false);
     const [loadingText, setLoadingText] = useState('');
@@ -36,17 +47,18 @@ const VideoUnderstanding: React.FC = () => {
         setIsLoading(true);
         setError(null);
         setAnalysis('');
+        const signal = startRun();
 
         try {
             setLoadingText('Extracting frames from video (1 frame per second)...');
             const frames = await extractVideoFrames(videoFile, 1);
+            signal.throwIfAborted();
             if(frames.length === 0) {
                 throw new Error("Could not extract any frames from the video. It might be too short or in an unsupported format.");
             }
             
             setLoadingText(`Analyzing ${frames.length} frames...`);
 
-            const ai = new GoogleGenAI({ apiKey: process.env.API_KEY as string });
             
             const parts: Part[] = [
                 { text: prompt },
@@ -61,6 +73,7 @@ const VideoUnderstanding: React.FC = () => {
             const response = await ai.models.generateContent({
                 model: 'gemini-2.5-pro',
                 contents: { parts: parts },
+                config: { abortSignal: signal },
             });
             
             const resultText = response.text;
@@ -70,19 +83,43 @@ const VideoUnderstanding: React.FC = () => {
                 id: Date.now().toString(),
                 feature: 'Video Understanding',
                 timestamp: Date.now(),
-                inputs: { prompt, video: videoUrl },
+                inputs: { prompt, video: videoFile },
                 outputs: { analysis: resultText }
             });
 
         } catch (e: any) {
-            setError(getFriendlyErrorMessage(e));
-            console.error(e);
+            if (signal.aborted) {
+                addHistoryItem({
+                    id: Date.now().toString(),
+                    feature: 'Video Understanding',
+                    timestamp: Date.now(),
+                    inputs: { prompt, video: videoFile },
+                    outputs: {},
+                    status: 'cancelled'
+                });
+            } else {
+                setError(getFriendlyErrorMessage(e));
+                console.error(e);
+            }
         } finally {
             setIsLoading(false);
             setLoadingText('');
         }
     };
 
+    useHistoryRestore('Video Understanding', {
+        restore: async ({ inputs }) => {
+            setPrompt(inputs.prompt);
+            handleFileSelect(await loadMediaFile(inputs.video, 'video'));
+        },
+        run: handleAnalyze,
+        onError: setError,
+    });
+
+    useReceivedAsset('Video Understanding', (asset) => {
+        if (asset.kind === 'video') handleFileSelect(asset.file);
+    });
+
     return (
         <FeatureLayout
             title="Video Understanding"
@@ -112,15 +149,17 @@ const VideoUnderstanding: React.FC = () => {
                                     placeholder="e.g., What brand of car is shown?"
                                 />
                             </div>
-                            <div>
+                            <div className="flex gap-4">
                                 <Button onClick={handleAnalyze} disabled={isLoading || !videoFile}>
                                     {isLoading ? <><Spinner className="w-5 h-5 mr-2" /> Analyzing...</> : 'Analyze Video'}
                                 </Button>
+                                {isLoading && <CancelButton onClick={cancelRun} />}
                             </div>
                         </div>
                     </div>
                 )}
                 {isLoading && <div className="text-blue-300">{loadingText}</div>}
+                <RequestStatus activity={requestActivity} />
                 {error && (
                     <div className="text-red-400 bg-red-900/50 p-3 rounded-md prose prose-invert max-w-none prose-p:my-0">
                         <ReactMarkdown components={{ a: ({node, ...props}) => <a {...props} className="text-blue-400 hover:underline" target="_blank" rel="noopener noreferrer" /> }}>
@@ -130,7 +169,10 @@ const VideoUnderstanding: React.FC = () => {
                 )}
                 {analysis && (
                     <div className="mt-6 p-4 bg-gray-900/50 rounded-lg">
-                        <h3 className="text-lg font-semibold mb-2">Analysis Result</h3>
+                        <div className="flex justify-between items-center mb-2">
+                            <h3 className="text-lg font-semibold">Analysis Result</h3>
+                            <SendToMenu source="Video Understanding" kind="text" value={analysis} />
+                        </div>
                          <div className="prose prose-invert max-w-none text-gray-300">
                              <ReactMarkdown>{analysis}</ReactMarkdown>
                         </div>
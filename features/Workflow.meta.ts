@@ -0,0 +1,14 @@
+import React from 'react';
+import { FeatureDefinition } from './common/featureDefinition';
+import { IconWorkflow } from '../components/Icons';
+
+export const meta: FeatureDefinition<'Workflow'> = {
+    name: 'Workflow',
+    route: 'workflow',
+    icon: IconWorkflow,
+    description: 'Chain features into a pipeline and run it in one go.',
+    component: React.lazy(() => import('./Workflow')),
+    inputSchema: {},
+    outputSchema: {},
+    receives: { text: 'Use as the workflow input', image: 'Use as the workflow input', audio: 'Use as the workflow input', video: 'Use as the workflow input' },
+};
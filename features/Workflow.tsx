@@ -0,0 +1,383 @@
+import React, { useState, useContext, useEffect, useMemo } from 'react';
+import ReactMarkdown from 'react-markdown';
+import { Workflow as SavedWorkflow, WorkflowStep } from '../types';
+import Spinner from '../components/Spinner';
+import Dropzone from '../components/Dropzone';
+import { IconUpload } from '../components/Icons';
+import FeatureLayout from './common/FeatureLayout';
+import RequestStatus from './common/RequestStatus';
+import { Label, Input, TextArea, Select, Button, CancelButton } from './common/Controls';
+import SendToMenu from './common/SendToMenu';
+import { PortType, PortValue, WORKFLOW_STEP_TYPES, getStepType, createStep, validateWorkflow } from './common/workflowSteps';
+import { HistoryContext } from '../context/HistoryContext';
+import { RouteContext } from '../context/RouteContext';
+import { useGeminiClient } from '../hooks/useGeminiClient';
+import { useCancellableRun } from '../hooks/useCancellableRun';
+import { useReceivedAsset } from '../hooks/useReceivedAsset';
+import { useVeoApiKey } from '../hooks/useVeoApiKey';
+import { loadWorkflows, saveWorkflows } from '../services/workflowStore';
+import { historyItemHash } from '../utils/routing';
+import { getFriendlyErrorMessage } from '../utils/errorHandler';
+
+type StepStatus = 'pending' | 'running' | 'done' | 'failed' | 'cancelled';
+
+interface StepRun {
+    status: StepStatus;
+    output?: PortValue;
+    error?: string;
+    historyItemId?: string;
+}
+
+const WORKFLOW_TEMPLATES: { name: string; steps: string[] }[] = [
+    { name: 'Translate and read aloud', steps: ['translate', 'speak'] },
+    { name: 'Generate, edit and animate an image', steps: ['generate-image', 'edit-image', 'animate-image'] },
+    { name: 'Describe an image aloud', steps: ['describe-image', 'speak'] },
+    { name: 'Transcribe and translate audio', steps: ['analyze-audio', 'translate'] },
+];
+
+const PORT_STYLES: Record<PortType, string> = {
+    text: 'bg-gray-700 text-gray-200',
+    image: 'bg-purple-900/60 text-purple-200',
+    audio: 'bg-green-900/60 text-green-200',
+    video: 'bg-red-900/60 text-red-200',
+};
+
+const STATUS_LABELS: Record<StepStatus, { label: string; className: string }> = {
+    pending: { label: 'Waiting', className: 'text-gray-400' },
+    running: { label: 'Running', className: 'text-blue-300' },
+    done: { label: 'Done', className: 'text-green-400' },
+    failed: { label: 'Failed', className: 'text-red-400' },
+    cancelled: { label: 'Cancelled', className: 'text-yellow-300' },
+};
+
+const PortChip: React.FC<{ type: PortType }> = ({ type }) => (
+    <span className={`text-xs font-semibold px-2 py-0.5 rounded-full ${PORT_STYLES[type]}`}>{type}</span>
+);
+
+const PortPreview: React.FC<{ value: PortValue }> = ({ value }) => {
+    const url = useMemo(() => typeof value === 'string' ? null : URL.createObjectURL(value), [value]);
+    useEffect(() => () => { if (url) URL.revokeObjectURL(url); }, [url]);
+
+    if (typeof value === 'string') {
+        return (
+            <div className="prose prose-invert max-w-none text-gray-300 bg-gray-900 p-2 rounded-md max-h-48 overflow-y-auto">
+                <ReactMarkdown>{value}</ReactMarkdown>
+            </div>
+        );
+    }
+    if (value.type.startsWith('image/')) return <img src={url!} alt="Step output" className="rounded-md max-h-64" />;
+    if (value.type.startsWith('video/')) return <video src={url!} controls className="rounded-md max-h-64" />;
+    return <audio src={url!} controls className="w-full" />;
+};
+
+const newWorkflowId = () => Date.now().toString();
+
+const Workflow: React.FC = () => {
+    const { addHistoryItem } = useContext(HistoryContext);
+    const { navigateToHash } = useContext(RouteContext);
+    const { ai, requestActivity } = useGeminiClient();
+    const { startRun, cancelRun } = useCancellableRun();
+    const { isKeySelected, selectKey, handleApiError } = useVeoApiKey();
+    const [savedWorkflows, setSavedWorkflows] = useState<SavedWorkflow[]>(loadWorkflows);
+    const [workflowId, setWorkflowId] = useState<string>(newWorkflowId);
+    const [name, setName] = useState<string>(WORKFLOW_TEMPLATES[0].name);
+    const [steps, setSteps] = useState<WorkflowStep[]>(() => WORKFLOW_TEMPLATES[0].steps.map(type => createStep(getStepType(type)!)));
+    const [newStepType, setNewStepType] = useState<string>('');
+    const [inputText, setInputText] = useState<string>('Good morning! Welcome to the team.');
+    const [inputFile, setInputFile] = useState<File | null>(null);
+    const [runs, setRuns] = useState<Record<string, StepRun>>({});
+    const [isRunning, setIsRunning] = useState<boolean>(false);
+    const [error, setError] = useState<string | null>(null);
+    const [savedMessage, setSavedMessage] = useState<string | null>(null);
+
+    const firstStepType = steps.length > 0 ? getStepType(steps[0].type) : undefined;
+    const lastStepType = steps.length > 0 ? getStepType(steps[steps.length - 1].type) : undefined;
+    const problem = validateWorkflow(steps);
+    // New steps must accept what the current last step produces.
+    const addableStepTypes = WORKFLOW_STEP_TYPES.filter(stepType => !lastStepType || stepType.input === lastStepType.output);
+    const stepTypeToAdd = addableStepTypes.some(stepType => stepType.type === newStepType) ? newStepType : addableStepTypes[0]?.type ?? '';
+    const needsVeoKey = steps.some(step => getStepType(step.type)?.feature === 'Video Generation');
+    const isSaved = savedWorkflows.some(workflow => workflow.id === workflowId);
+
+    const persistWorkflows = (workflows: SavedWorkflow[]) => {
+        setSavedWorkflows(workflows);
+        saveWorkflows(workflows);
+    };
+
+    const editSteps = (update: (current: WorkflowStep[]) => WorkflowStep[]) => {
+        setSteps(update);
+        setRuns({});
+        setSavedMessage(null);
+    };
+
+    const loadIntoBuilder = (id: string, workflowName: string, workflowSteps: WorkflowStep[]) => {
+        setWorkflowId(id);
+        setName(workflowName);
+        setSteps(workflowSteps);
+        setRuns({});
+        setError(null);
+        setSavedMessage(null);
+    };
+
+    const handleOpen = (value: string) => {
+        if (value.startsWith('template:')) {
+            const template = WORKFLOW_TEMPLATES[Number(value.slice('template:'.length))];
+            loadIntoBuilder(newWorkflowId(), template.name, template.steps.map(type => createStep(getStepType(type)!)));
+            return;
+        }
+        const workflow = savedWorkflows.find(w => w.id === value);
+        if (workflow) loadIntoBuilder(workflow.id, workflow.name, workflow.steps);
+    };
+
+    const handleSave = () => {
+        const workflow: SavedWorkflow = { id: workflowId, name: name.trim() || 'Untitled workflow', steps, updatedAt: Date.now() };
+        persistWorkflows(isSaved ? savedWorkflows.map(w => w.id === workflowId ? workflow : w) : [...savedWorkflows, workflow]);
+        setName(workflow.name);
+        setSavedMessage(`Saved "${workflow.name}".`);
+    };
+
+    const handleDelete = () => {
+        if (!window.confirm(`Delete the saved workflow "${name}"?`)) return;
+        persistWorkflows(savedWorkflows.filter(w => w.id !== workflowId));
+        loadIntoBuilder(newWorkflowId(), '', []);
+    };
+
+    const moveStep = (index: number, offset: number) => {
+        editSteps(current => {
+            const next = [...current];
+            [next[index], next[index + offset]] = [next[index + offset], next[index]];
+            return next;
+        });
+    };
+
+    const updateSetting = (stepId: string, key: string, value: string) => {
+        editSteps(current => current.map(step => step.id === stepId ? { ...step, settings: { ...step.settings, [key]: value } } : step));
+    };
+
+    const updateRun = (stepId: string, run: StepRun) => {
+        setRuns(current => ({ ...current, [stepId]: run }));
+    };
+
+    const handleRun = async () => {
+        if (problem || !firstStepType) {
+            setError(problem);
+            return;
+        }
+        const initialInput = firstStepType.input === 'text' ? inputText.trim() : inputFile;
+        if (!initialInput) {
+            setError(firstStepType.input === 'text' ? 'Please enter the text to start the workflow with.' : `Please upload the ${firstStepType.input} to start the workflow with.`);
+            return;
+        }
+
+        setIsRunning(true);
+        setError(null);
+        setRuns(Object.fromEntries(steps.map(step => [step.id, { status: 'pending' }])));
+        const signal = startRun();
+        const workflowName = name.trim() || 'Untitled workflow';
+        let value: PortValue = initialInput;
+
+        for (const [index, step] of steps.entries()) {
+            const stepType = getStepType(step.type)!;
+            updateRun(step.id, { status: 'running' });
+            try {
+                const result = await stepType.run(value, step.settings, { ai, signal });
+                signal.throwIfAborted();
+                const historyItemId = `${Date.now()}-${index + 1}`;
+                addHistoryItem({
+                    ...result.entry,
+                    id: historyItemId,
+                    timestamp: Date.now(),
+                    tags: [workflowName],
+                });
+                updateRun(step.id, { status: 'done', output: result.output, historyItemId });
+                value = result.output;
+            } catch (e: any) {
+                if (signal.aborted) {
+                    updateRun(step.id, { status: 'cancelled' });
+                } else {
+                    handleApiError(e);
+                    updateRun(step.id, { status: 'failed', error: getFriendlyErrorMessage(e) });
+                    console.error(e);
+                }
+                break;
+            }
+        }
+        setIsRunning(false);
+    };
+
+    useReceivedAsset('Workflow', (asset) => {
+        if (asset.kind === 'text') setInputText(asset.text);
+        else setInputFile(asset.file);
+    });
+
+    return (
+        <FeatureLayout
+            title="Workflow"
+            description="Chain features into a pipeline: each step's output becomes the next step's input. Save workflows to run them again, and find every step's result in History."
+        >
+            <div className="space-y-6">
+                <div className="p-4 bg-gray-900/50 rounded-lg space-y-4">
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                        <div>
+                            <Label htmlFor="workflow-open">Open</Label>
+                            <Select id="workflow-open" value={isSaved ? workflowId : ''} onChange={(e) => handleOpen(e.target.value)} disabled={isRunning}>
+                                <option value="" disabled>Choose a workflow or template...</option>
+                                {savedWorkflows.length > 0 && (
+                                    <optgroup label="Saved workflows">
+                                        {savedWorkflows.map(workflow => <option key={workflow.id} value={workflow.id}>{workflow.name}</option>)}
+                                    </optgroup>
+                                )}
+                                <optgroup label="Templates">
+                                    {WORKFLOW_TEMPLATES.map((template, index) => <option key={template.name} value={`template:${index}`}>{template.name}</option>)}
+                                </optgroup>
+                            </Select>
+                        </div>
+                        <div>
+                            <Label htmlFor="workflow-name">Name</Label>
+                            <Input id="workflow-name" value={name} onChange={(e) => { setName(e.target.value); setSavedMessage(null); }} placeholder="Untitled workflow" />
+                        </div>
+                    </div>
+                    <div className="flex items-center gap-4 text-sm">
+                        <button onClick={handleSave} disabled={isRunning || steps.length === 0} className="text-blue-400 hover:underline disabled:text-gray-500 disabled:no-underline">
+                            {isSaved ? 'Save changes' : 'Save workflow'}
+                        </button>
+                        <button onClick={() => loadIntoBuilder(newWorkflowId(), '', [])} disabled={isRunning} className="text-blue-400 hover:underline disabled:text-gray-500 disabled:no-underline">New</button>
+                        {isSaved && <button onClick={handleDelete} disabled={isRunning} className="text-red-400 hover:underline disabled:text-gray-500 disabled:no-underline">Delete</button>}
+                        {savedMessage && <span className="text-green-400">{savedMessage}</span>}
+                    </div>
+                </div>
+
+                <div>
+                    <h3 className="text-lg font-semibold mb-2">Input</h3>
+                    {!firstStepType ? (
+                        <p className="text-gray-500">Add a step to choose what the workflow starts from.</p>
+                    ) : firstStepType.input === 'text' ? (
+                        <TextArea value={inputText} onChange={(e) => setInputText(e.target.value)} placeholder="Text for the first step..." aria-label="Workflow input" />
+                    ) : (
+                        <Dropzone onFileSelect={setInputFile} accept={`${firstStepType.input}/*`}>
+                            <div className="flex flex-col items-center justify-center text-gray-400">
+                                <IconUpload />
+                                <p className="mt-2">Drag & drop {firstStepType.input === 'image' ? 'an image' : `a ${firstStepType.input} file`} here, or click to select a file</p>
+                                {inputFile && <p className="mt-2 text-sm text-green-400">Selected: {inputFile.name}</p>}
+                            </div>
+                        </Dropzone>
+                    )}
+                </div>
+
+                <div>
+                    <h3 className="text-lg font-semibold mb-2">Steps</h3>
+                    <ol className="space-y-2">
+                        {steps.map((step, index) => {
+                            const stepType = getStepType(step.type);
+                            const previousType = index > 0 ? getStepType(steps[index - 1].type) : undefined;
+                            const isConnected = !previousType || !stepType || previousType.output === stepType.input;
+                            const run = runs[step.id];
+                            return (
+                                <li key={step.id}>
+                                    {index > 0 && (
+                                        <div className={`text-center text-sm mb-2 ${isConnected ? 'text-gray-500' : 'text-red-400'}`}>
+                                            ↓ {isConnected ? previousType?.output : `${previousType?.output} does not fit ${stepType?.input}`}
+                                        </div>
+                                    )}
+                                    <div className={`bg-gray-900/50 p-4 rounded-lg ${isConnected ? '' : 'ring-2 ring-red-500'} ${run?.status === 'running' ? 'ring-2 ring-blue-500' : ''}`}>
+                                        <div className="flex justify-between items-start gap-3 mb-3">
+                                            <div>
+                                                <p className="font-semibold text-white">{index + 1}. {stepType?.label ?? `Unknown step "${step.type}"`}</p>
+                                                {stepType && (
+                                                    <div className="flex items-center gap-2 mt-1 text-xs text-gray-400">
+                                                        <span>{stepType.feature}</span>
+                                                        <PortChip type={stepType.input} /> → <PortChip type={stepType.output} />
+                                                    </div>
+                                                )}
+                                            </div>
+                                            <div className="flex items-center gap-3 text-sm">
+                                                {run && (
+                                                    <span className={`flex items-center gap-1 ${STATUS_LABELS[run.status].className}`}>
+                                                        {run.status === 'running' && <Spinner className="w-4 h-4" />}
+                                                        {STATUS_LABELS[run.status].label}
+                                                    </span>
+                                                )}
+                                                <button onClick={() => moveStep(index, -1)} disabled={isRunning || index === 0} aria-label="Move step up" className="text-gray-400 hover:text-white disabled:opacity-30">↑</button>
+                                                <button onClick={() => moveStep(index, 1)} disabled={isRunning || index === steps.length - 1} aria-label="Move step down" className="text-gray-400 hover:text-white disabled:opacity-30">↓</button>
+                                                <button onClick={() => editSteps(current => current.filter(s => s.id !== step.id))} disabled={isRunning} aria-label="Remove step" className="text-red-400 hover:text-red-300 disabled:opacity-30">&times;</button>
+                                            </div>
+                                        </div>
+                                        {stepType && stepType.settings.length > 0 && (
+                                            <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                                                {stepType.settings.map(setting => {
+                                                    const id = `step-${step.id}-${setting.key}`;
+                                                    const value = step.settings[setting.key] ?? setting.defaultValue;
+                                                    return (
+                                                        <div key={setting.key} className={setting.options ? '' : 'md:col-span-2'}>
+                                                            <Label htmlFor={id}>{setting.label}</Label>
+                                                            {setting.options ? (
+                                                                <Select id={id} value={value} onChange={(e) => updateSetting(step.id, setting.key, e.target.value)} disabled={isRunning}>
+                                                                    {setting.options.map(option => <option key={option} value={option}>{option}</option>)}
+                                                                </Select>
+                                                            ) : (
+                                                                <TextArea id={id} value={value} onChange={(e) => updateSetting(step.id, setting.key, e.target.value)} disabled={isRunning} />
+                                                            )}
+                                                        </div>
+                                                    );
+                                                })}
+                                            </div>
+                                        )}
+                                        {run?.error && <p className="mt-3 text-sm text-red-400 bg-red-900/50 p-2 rounded-md">{run.error}</p>}
+                                        {run?.output !== undefined && stepType && (
+                                            <div className="mt-3 space-y-2">
+                                                <PortPreview value={run.output} />
+                                                <div className="flex justify-end items-center gap-3">
+                                                    {run.historyItemId && (
+                                                        <button onClick={() => navigateToHash(historyItemHash(run.historyItemId!))} className="text-sm text-blue-400 hover:underline">Open in History</button>
+                                                    )}
+                                                    <SendToMenu source="Workflow" kind={stepType.output} value={run.output} name={`workflow-step-${index + 1}`} />
+                                                </div>
+                                            </div>
+                                        )}
+                                    </div>
+                                </li>
+                            );
+                        })}
+                    </ol>
+                    <div className="flex gap-3 mt-4">
+                        <Select value={stepTypeToAdd} onChange={(e) => setNewStepType(e.target.value)} disabled={isRunning || addableStepTypes.length === 0} aria-label="Step to add">
+                            {addableStepTypes.map(stepType => (
+                                <option key={stepType.type} value={stepType.type}>{stepType.label} ({stepType.input} → {stepType.output})</option>
+                            ))}
+                        </Select>
+                        <Button onClick={() => editSteps(current => [...current, createStep(getStepType(stepTypeToAdd)!)])} disabled={isRunning || !stepTypeToAdd}>
+                            Add Step
+                        </Button>
+                    </div>
+                    {lastStepType && addableStepTypes.length === 0 && (
+                        <p className="text-sm text-gray-500 mt-2">No step accepts {lastStepType.output} yet.</p>
+                    )}
+                </div>
+
+                {needsVeoKey && !isKeySelected && (
+                    <div className="text-yellow-300 bg-yellow-900/50 p-3 rounded-md flex justify-between items-center gap-3">
+                        <span>Video steps need an API key with billing enabled.</span>
+                        <Button onClick={selectKey}>Select API Key</Button>
+                    </div>
+                )}
+                {problem && steps.length > 0 && <p className="text-sm text-red-400">{problem}</p>}
+
+                <div className="flex gap-4 items-center">
+                    <Button onClick={handleRun} disabled={isRunning || !!problem}>
+                        {isRunning ? <><Spinner className="w-5 h-5 mr-2" /> Running...</> : 'Run Workflow'}
+                    </Button>
+                    {isRunning && <CancelButton onClick={cancelRun} />}
+                    {isRunning && needsVeoKey && <p className="text-sm text-gray-400">Video steps take a few minutes. Keep this page open until the workflow finishes.</p>}
+                </div>
+                <RequestStatus activity={requestActivity} />
+                {error && (
+                    <div className="text-red-400 bg-red-900/50 p-3 rounded-md prose prose-invert max-w-none prose-p:my-0">
+                        <ReactMarkdown>{error}</ReactMarkdown>
+                    </div>
+                )}
+            </div>
+        </FeatureLayout>
+    );
+};
+
+export default Workflow;
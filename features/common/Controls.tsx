@@ -37,3 +37,12 @@ export const Button: React.FC<React.ButtonHTMLAttributes<HTMLButtonElement>> = (
         {children}
     </button>
 );
+
+export const CancelButton: React.FC<React.ButtonHTMLAttributes<HTMLButtonElement>> = ({ children = 'Cancel', ...props }) => (
+    <button
+        {...props}
+        className="inline-flex items-center justify-center px-6 py-2 border border-gray-500 text-base font-medium rounded-md text-gray-200 bg-transparent hover:bg-gray-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-gray-800 focus:ring-gray-500 disabled:opacity-50 disabled:cursor-not-allowed transition"
+    >
+        {children}
+    </button>
+);
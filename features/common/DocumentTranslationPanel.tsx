@@ -0,0 +1,230 @@
+import React, { useState, useContext } from 'react';
+import Spinner from '../../components/Spinner';
+import Dropzone from '../../components/Dropzone';
+import { IconDownload, IconUpload } from '../../components/Icons';
+import RequestStatus from './RequestStatus';
+import { Button, CancelButton } from './Controls';
+import { TranslationOptions, optionHistoryInputs } from './translation';
+import { DOCUMENT_EXTENSIONS, TranslatableDocument, parseDocument, translateDocument, translatedFileName, documentMimeType } from './documentTranslation';
+import { HistoryContext } from '../../context/HistoryContext';
+import { useGeminiClient } from '../../hooks/useGeminiClient';
+import { useCancellableRun } from '../../hooks/useCancellableRun';
+import { createZip } from '../../utils/zip';
+import { downloadBlob, downloadText } from '../../utils/fileUtils';
+import { getFriendlyErrorMessage } from '../../utils/errorHandler';
+
+type JobStatus = 'pending' | 'running' | 'done' | 'failed' | 'cancelled';
+
+interface UploadedDocument {
+    name: string;
+    text: string;
+    document: TranslatableDocument;
+}
+
+interface TranslationJob {
+    status: JobStatus;
+    progress?: { done: number; total: number };
+    content?: string;
+    warnings?: string[];
+    error?: string;
+}
+
+interface DocumentTranslationPanelProps {
+    sourceLang: string;
+    targetLangs: string[];
+    options: TranslationOptions;
+}
+
+const STATUS_LABELS: Record<JobStatus, { label: string; className: string }> = {
+    pending: { label: 'Waiting', className: 'text-gray-400' },
+    running: { label: 'Translating', className: 'text-blue-300' },
+    done: { label: 'Done', className: 'text-green-400' },
+    failed: { label: 'Failed', className: 'text-red-400' },
+    cancelled: { label: 'Cancelled', className: 'text-yellow-300' },
+};
+
+const jobKey = (fileName: string, targetLang: string) => `${fileName}\n${targetLang}`;
+
+// Documents mode of Translation: translates uploaded text, Markdown, subtitle and JSON resource files
+// into one or more languages, keeping their structure.
+const DocumentTranslationPanel: React.FC<DocumentTranslationPanelProps> = ({ sourceLang, targetLangs, options }) => {
+    const { addHistoryItem } = useContext(HistoryContext);
+    const { ai, requestActivity } = useGeminiClient();
+    const { startRun, cancelRun } = useCancellableRun();
+    const [uploads, setUploads] = useState<UploadedDocument[]>([]);
+    const [jobs, setJobs] = useState<Record<string, TranslationJob>>({});
+    const [isRunning, setIsRunning] = useState<boolean>(false);
+    const [error, setError] = useState<string | null>(null);
+
+    const completedJobs = uploads.flatMap(upload => targetLangs.flatMap(targetLang => {
+        const job = jobs[jobKey(upload.name, targetLang)];
+        return job?.status === 'done' ? [{ name: translatedFileName(upload.name, targetLang), content: job.content! }] : [];
+    }));
+
+    const updateJob = (key: string, update: Partial<TranslationJob>) => {
+        setJobs(current => ({ ...current, [key]: { ...current[key], ...update } }));
+    };
+
+    const handleFileSelect = async (file: File) => {
+        setError(null);
+        try {
+            const text = await file.text();
+            const document = parseDocument(file.name, text);
+            if (document.segments.length === 0) throw new Error(`${file.name} does not contain any text to translate.`);
+            setUploads(current => [...current.filter(upload => upload.name !== file.name), { name: file.name, text, document }]);
+        } catch (e: any) {
+            setError(e?.message || String(e));
+        }
+    };
+
+    const runJob = async (upload: UploadedDocument, targetLang: string, signal: AbortSignal) => {
+        const key = jobKey(upload.name, targetLang);
+        updateJob(key, { status: 'running' });
+        try {
+            const result = await translateDocument(ai, upload.document, sourceLang, targetLang, options, signal, (done, total) => {
+                updateJob(key, { progress: { done, total } });
+            });
+            addHistoryItem({
+                id: `${Date.now()}-${upload.name}-${targetLang}`,
+                feature: 'Translation',
+                timestamp: Date.now(),
+                inputs: {
+                    text: upload.text,
+                    sourceLanguage: sourceLang,
+                    targetLanguage: targetLang,
+                    fileName: upload.name,
+                    ...optionHistoryInputs(options, upload.document.segments.join('\n'), targetLang),
+                },
+                outputs: { translatedText: result.content },
+            });
+            updateJob(key, { status: 'done', content: result.content, warnings: result.warnings });
+        } catch (e: any) {
+            if (signal.aborted) {
+                addHistoryItem({
+                    id: `${Date.now()}-${upload.name}-${targetLang}`,
+                    feature: 'Translation',
+                    timestamp: Date.now(),
+                    inputs: {
+                        text: upload.text,
+                        sourceLanguage: sourceLang,
+                        targetLanguage: targetLang,
+                        fileName: upload.name,
+                        ...optionHistoryInputs(options, upload.document.segments.join('\n'), targetLang),
+                    },
+                    outputs: {},
+                    status: 'cancelled'
+                });
+                updateJob(key, { status: 'cancelled' });
+            } else {
+                updateJob(key, { status: 'failed', error: getFriendlyErrorMessage(e) });
+                console.error(e);
+            }
+        }
+    };
+
+    const handleTranslate = async () => {
+        if (targetLangs.length === 0) {
+            setError('Please choose at least one target language.');
+            return;
+        }
+        if (targetLangs.includes(sourceLang)) {
+            setError('Source and target languages cannot be the same.');
+            return;
+        }
+        setIsRunning(true);
+        setError(null);
+        const pairs = uploads.flatMap(upload => targetLangs.map(targetLang => ({ upload, targetLang })));
+        setJobs(Object.fromEntries(pairs.map(({ upload, targetLang }) => [jobKey(upload.name, targetLang), { status: 'pending' }])));
+        const signal = startRun();
+        await Promise.all(pairs.map(({ upload, targetLang }) => runJob(upload, targetLang, signal)));
+        setIsRunning(false);
+    };
+
+    const handleDownloadAll = async () => {
+        try {
+            const archive = await createZip(completedJobs.map(({ name, content }) => ({ name, data: content })));
+            downloadBlob(archive, `translations-${new Date().toISOString().slice(0, 10)}.zip`);
+        } catch (e: any) {
+            setError(e?.message || String(e));
+        }
+    };
+
+    return (
+        <div className="space-y-6">
+            <div className="p-4 bg-gray-900/50 rounded-lg space-y-4">
+                <Dropzone onFileSelect={handleFileSelect} accept={DOCUMENT_EXTENSIONS.join(',')} multiple>
+                    <div className="flex flex-col items-center justify-center text-gray-400">
+                        <IconUpload />
+                        <p className="mt-2">Drag & drop documents here, or click to select files</p>
+                        <p className="mt-1 text-xs text-gray-500">Text, Markdown, SRT/VTT subtitles and JSON i18n resources</p>
+                    </div>
+                </Dropzone>
+                {uploads.length > 0 && (
+                    <ul className="space-y-1 text-sm">
+                        {uploads.map(upload => (
+                            <li key={upload.name} className="flex justify-between items-center bg-gray-800 px-3 py-2 rounded-md">
+                                <span className="text-gray-200">{upload.name} <span className="text-gray-500">({upload.document.segments.length} segments)</span></span>
+                                <button
+                                    onClick={() => setUploads(current => current.filter(u => u.name !== upload.name))}
+                                    disabled={isRunning}
+                                    className="text-gray-400 hover:text-red-400 disabled:opacity-50"
+                                >
+                                    Remove
+                                </button>
+                            </li>
+                        ))}
+                    </ul>
+                )}
+            </div>
+
+            <div className="flex flex-wrap gap-4 items-center">
+                <Button onClick={handleTranslate} disabled={isRunning || uploads.length === 0}>
+                    {isRunning ? <><Spinner className="w-5 h-5 mr-2" /> Translating...</> : 'Translate Documents'}
+                </Button>
+                {isRunning && <CancelButton onClick={cancelRun} />}
+                {completedJobs.length > 1 && !isRunning && (
+                    <button onClick={handleDownloadAll} className="flex items-center gap-2 px-4 py-2 bg-gray-700 hover:bg-gray-600 rounded-md text-sm">
+                        <IconDownload /> Download All (ZIP)
+                    </button>
+                )}
+            </div>
+
+            <RequestStatus activity={requestActivity} />
+            {error && <div className="text-red-400 bg-red-900/50 p-3 rounded-md">{error}</div>}
+
+            {Object.keys(jobs).length > 0 && (
+                <ul className="space-y-2">
+                    {uploads.flatMap(upload => targetLangs.map(targetLang => {
+                        const job = jobs[jobKey(upload.name, targetLang)];
+                        if (!job) return null;
+                        const outputName = translatedFileName(upload.name, targetLang);
+                        return (
+                            <li key={outputName} className="bg-gray-900/50 p-3 rounded-lg space-y-1">
+                                <div className="flex flex-wrap justify-between items-center gap-2 text-sm">
+                                    <span className="text-gray-200">{outputName}</span>
+                                    <span className={`flex items-center gap-1 ${STATUS_LABELS[job.status].className}`}>
+                                        {job.status === 'running' && <Spinner className="w-4 h-4" />}
+                                        {STATUS_LABELS[job.status].label}
+                                        {job.status === 'running' && job.progress && ` (${job.progress.done}/${job.progress.total} parts)`}
+                                    </span>
+                                    {job.status === 'done' && (
+                                        <button
+                                            onClick={() => downloadText(job.content!, outputName, documentMimeType(outputName))}
+                                            className="flex items-center gap-2 px-3 py-1 bg-gray-700 hover:bg-gray-600 rounded-md"
+                                        >
+                                            <IconDownload /> Download
+                                        </button>
+                                    )}
+                                </div>
+                                {job.error && <p className="text-xs text-red-400">{job.error}</p>}
+                                {job.warnings?.map(warning => <p key={warning} className="text-xs text-yellow-300">{warning}</p>)}
+                            </li>
+                        );
+                    }))}
+                </ul>
+            )}
+        </div>
+    );
+};
+
+export default DocumentTranslationPanel;
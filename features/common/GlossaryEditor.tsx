@@ -0,0 +1,63 @@
+import React from 'react';
+import { GlossaryEntry } from '../../types';
+import { Input, Select } from './Controls';
+import { languages } from './translation';
+
+interface GlossaryEditorProps {
+    glossary: GlossaryEntry[];
+    onChange: (glossary: GlossaryEntry[]) => void;
+    disabled?: boolean;
+}
+
+// Rows of term, required translation and language. Leaving the translation empty keeps the term untranslated.
+const GlossaryEditor: React.FC<GlossaryEditorProps> = ({ glossary, onChange, disabled }) => {
+    const updateEntry = (index: number, update: Partial<GlossaryEntry>) => {
+        onChange(glossary.map((entry, i) => i === index ? { ...entry, ...update } : entry));
+    };
+
+    return (
+        <div className="space-y-2">
+            {glossary.length === 0 && (
+                <p className="text-sm text-gray-500">No glossary terms yet. Add product names, brand terms or words that must always be translated the same way.</p>
+            )}
+            {glossary.map((entry, index) => (
+                <div key={index} className="grid grid-cols-1 md:grid-cols-[1fr_1fr_1fr_auto] gap-2 items-center">
+                    <Input
+                        value={entry.term}
+                        onChange={(e) => updateEntry(index, { term: e.target.value })}
+                        placeholder="Term"
+                        aria-label="Term"
+                        disabled={disabled}
+                    />
+                    <Input
+                        value={entry.translation}
+                        onChange={(e) => updateEntry(index, { translation: e.target.value })}
+                        placeholder="Translation (empty: do not translate)"
+                        aria-label="Translation"
+                        disabled={disabled}
+                    />
+                    <Select value={entry.language} onChange={(e) => updateEntry(index, { language: e.target.value })} aria-label="Language" disabled={disabled}>
+                        <option value="">All languages</option>
+                        {languages.map(lang => <option key={lang} value={lang}>{lang}</option>)}
+                    </Select>
+                    <button
+                        onClick={() => onChange(glossary.filter((_, i) => i !== index))}
+                        disabled={disabled}
+                        className="px-3 py-2 text-sm text-gray-400 hover:text-red-400 disabled:opacity-50"
+                    >
+                        Remove
+                    </button>
+                </div>
+            ))}
+            <button
+                onClick={() => onChange([...glossary, { term: '', translation: '', language: '' }])}
+                disabled={disabled}
+                className="px-3 py-1 bg-gray-700 hover:bg-gray-600 rounded-md text-sm disabled:opacity-50"
+            >
+                + Add Term
+            </button>
+        </div>
+    );
+};
+
+export default GlossaryEditor;
@@ -0,0 +1,135 @@
+import React, { useRef } from 'react';
+import { HistoryItem } from '../../types';
+import { HistoryField } from './featureDefinition';
+import { HistoryOutputs } from './HistoryFields';
+import { Button } from './Controls';
+import { getFeatureDefinition } from '../registry';
+import StoredMedia from '../../components/StoredMedia';
+import { useSyncedPlayback } from '../../hooks/useSyncedPlayback';
+import { diffWords } from '../../utils/wordDiff';
+
+// Tailwind only ships classes it finds in the source, so the column counts are spelled out.
+const GRID_COLUMNS: Record<number, string> = {
+    2: 'grid-cols-2',
+    3: 'grid-cols-3',
+    4: 'grid-cols-4',
+};
+
+const fieldLabel = (key: string, field?: HistoryField) => field?.label ?? key.replace(/([A-Z])/g, ' $1');
+
+const isMultiWord = (value: unknown): value is string => typeof value === 'string' && /\s/.test(value.trim());
+
+const CompareValue: React.FC<{ name: string; field?: HistoryField; value: any; baseline: any; isBaseline: boolean }> = ({ name, field, value, baseline, isBaseline }) => {
+    if (value === undefined || value === null || value === '') {
+        return <p className="text-gray-500 italic">None</p>;
+    }
+    switch (field?.kind) {
+        case 'image':
+            return <StoredMedia value={value}>{(url) => <img src={url} alt={name} className="rounded-md max-h-32" />}</StoredMedia>;
+        case 'video':
+            return <StoredMedia value={value}>{(url) => <video src={url} controls className="rounded-md max-h-32" />}</StoredMedia>;
+        case 'audio':
+            return <StoredMedia value={value}>{(url) => <audio src={url} controls className="w-full" />}</StoredMedia>;
+    }
+
+    // Longer text shows the words added and removed relative to the first entry.
+    if (!isBaseline && isMultiWord(value) && typeof baseline === 'string') {
+        return (
+            <p className="text-gray-300 bg-gray-900 p-2 rounded-md whitespace-pre-wrap">
+                {diffWords(baseline, value).map((part, index) => (
+                    <React.Fragment key={index}>
+                        {index > 0 && ' '}
+                        {part.type === 'same' ? part.text : part.type === 'added' ? (
+                            <ins className="bg-green-900/60 text-green-200 no-underline rounded px-0.5">{part.text}</ins>
+                        ) : (
+                            <del className="bg-red-900/60 text-red-300 rounded px-0.5">{part.text}</del>
+                        )}
+                    </React.Fragment>
+                ))}
+            </p>
+        );
+    }
+
+    const isChanged = !isBaseline && String(value) !== String(baseline ?? '');
+    return (
+        <p className={`p-2 rounded-md whitespace-pre-wrap ${isChanged ? 'bg-yellow-900/50 text-yellow-200' : 'bg-gray-900 text-gray-300'}`}>
+            {field?.kind === 'url' ? <a href={value} target="_blank" rel="noopener noreferrer" className="text-blue-400 hover:underline break-all">{value}</a> : String(value)}
+        </p>
+    );
+};
+
+interface HistoryCompareProps {
+    // Two to four entries of the same feature; the first is the baseline the others are diffed against.
+    items: HistoryItem[];
+    onClose: () => void;
+}
+
+// Side-by-side view of History entries: inputs are lined up row by row with their differences
+// highlighted, and the outputs' videos and audio play in sync.
+const HistoryCompare: React.FC<HistoryCompareProps> = ({ items, onClose }) => {
+    const outputsRef = useRef<HTMLDivElement>(null);
+    const { playAll, pauseAll, restartAll } = useSyncedPlayback(outputsRef);
+    const definition = getFeatureDefinition(items[0].feature);
+    const columns = GRID_COLUMNS[items.length] ?? GRID_COLUMNS[4];
+
+    const inputKeys = [...new Set(items.flatMap(item => Object.keys(item.inputs)))];
+    const inputFields = new Map<string, HistoryField>(Object.entries(definition.inputSchema));
+    const inputValues = items.map(item => new Map<string, any>(Object.entries(item.inputs)));
+    const hasPlayableOutputs = Object.values(definition.outputSchema).some((field: HistoryField) => field.kind === 'video' || field.kind === 'audio');
+
+    return (
+        <div className="bg-gray-900/50 p-4 rounded-lg mb-6 space-y-4 text-sm">
+            <div className="flex justify-between items-center gap-3 flex-wrap">
+                <h3 className="text-xl font-bold text-white">Comparing {items.length} {items[0].feature} entries</h3>
+                <div className="flex items-center gap-3">
+                    {hasPlayableOutputs && (
+                        <>
+                            <button onClick={playAll} className="text-blue-400 hover:underline">Play all</button>
+                            <button onClick={pauseAll} className="text-blue-400 hover:underline">Pause all</button>
+                            <button onClick={restartAll} className="text-blue-400 hover:underline">Restart</button>
+                        </>
+                    )}
+                    <Button onClick={onClose} className="py-1">Close</Button>
+                </div>
+            </div>
+            <div className={`grid ${columns} gap-4`}>
+                {items.map((item, index) => (
+                    <div key={item.id} className="min-w-0">
+                        <p className="font-semibold text-white break-words">
+                            {item.title ?? item.feature}
+                            {index === 0 && <span className="ml-2 text-xs font-normal text-gray-400 bg-gray-700 px-2 py-0.5 rounded-full">Baseline</span>}
+                        </p>
+                        <p className="text-xs text-gray-400">{new Date(item.timestamp).toLocaleString()}</p>
+                    </div>
+                ))}
+            </div>
+            <h4 className="text-lg font-semibold text-gray-300 border-b border-gray-700 pb-1">Inputs</h4>
+            {inputKeys.map(key => {
+                const field = inputFields.get(key);
+                const baseline = inputValues[0].get(key);
+                return (
+                    <div key={key}>
+                        <p className="font-semibold capitalize text-gray-400 mb-1">{fieldLabel(key, field)}</p>
+                        <div className={`grid ${columns} gap-4`}>
+                            {items.map((item, index) => (
+                                <div key={item.id} className="min-w-0">
+                                    <CompareValue name={key} field={field} value={inputValues[index].get(key)} baseline={baseline} isBaseline={index === 0} />
+                                </div>
+                            ))}
+                        </div>
+                    </div>
+                );
+            })}
+            <h4 className="text-lg font-semibold text-gray-300 border-b border-gray-700 pb-1">Outputs</h4>
+            <div ref={outputsRef} className={`grid ${columns} gap-4`}>
+                {items.map(item => (
+                    <div key={item.id} className="min-w-0">
+                        <HistoryOutputs item={item} schema={definition.outputSchema} />
+                    </div>
+                ))}
+            </div>
+        </div>
+    );
+};
+
+export default HistoryCompare;
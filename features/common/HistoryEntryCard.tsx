@@ -0,0 +1,148 @@
+import React, { useContext, useRef, useState } from 'react';
+import { HistoryItem } from '../../types';
+import { HistoryContext } from '../../context/HistoryContext';
+import { RouteContext } from '../../context/RouteContext';
+import { rerunHash } from '../../utils/routing';
+import { getFeatureDefinition } from '../registry';
+import { DefaultHistoryRenderer } from './HistoryRenderers';
+
+// Trims, drops empties and duplicates; tags are matched case-sensitively everywhere else.
+export const normalizeTags = (tags: string[]): string[] => [...new Set(tags.map(tag => tag.trim()).filter(Boolean))];
+
+interface HistoryEntryCardProps {
+    item: HistoryItem;
+    isLinked: boolean;
+    isSelected: boolean;
+    onToggleSelected: (id: string) => void;
+    isLinkCopied: boolean;
+    onCopyLink: (id: string) => void;
+    onTagClick: (tag: string) => void;
+}
+
+const HistoryEntryCard: React.FC<HistoryEntryCardProps> = ({ item, isLinked, isSelected, onToggleSelected, isLinkCopied, onCopyLink, onTagClick }) => {
+    const { updateHistoryItems, deleteHistoryItems } = useContext(HistoryContext);
+    const { navigateToHash } = useContext(RouteContext);
+    const [titleDraft, setTitleDraft] = useState<string | null>(null);
+    const [tagDraft, setTagDraft] = useState<string | null>(null);
+    // Set when Escape closes an editor, so the blur that follows doesn't save the discarded draft.
+    const discardRef = useRef(false);
+    const definition = getFeatureDefinition(item.feature);
+    const HistoryRenderer = definition.historyRenderer ?? DefaultHistoryRenderer;
+
+    const saveTitle = () => {
+        if (titleDraft === null || discardRef.current) return;
+        updateHistoryItems([item.id], () => ({ title: titleDraft.trim() || undefined }));
+        setTitleDraft(null);
+    };
+
+    const saveTag = () => {
+        if (tagDraft?.trim() && !discardRef.current) {
+            updateHistoryItems([item.id], current => ({ tags: normalizeTags([...(current.tags ?? []), tagDraft]) }));
+        }
+        setTagDraft(null);
+    };
+
+    const removeTag = (tag: string) => {
+        updateHistoryItems([item.id], current => ({ tags: current.tags?.filter(t => t !== tag) }));
+    };
+
+    const handleEditorKeys = (cancel: () => void) => (e: React.KeyboardEvent<HTMLInputElement>) => {
+        if (e.key === 'Enter') e.currentTarget.blur();
+        if (e.key === 'Escape') {
+            discardRef.current = true;
+            cancel();
+        }
+    };
+
+    const openEditor = (open: () => void) => {
+        discardRef.current = false;
+        open();
+    };
+
+    return (
+        <div
+            id={`history-item-${item.id}`}
+            className={`bg-gray-900/50 p-4 rounded-lg shadow-md scroll-mt-24 ${isLinked ? 'ring-2 ring-blue-500' : isSelected ? 'ring-2 ring-gray-500' : ''}`}
+        >
+            <div className="flex justify-between items-start gap-3 mb-3">
+                <div className="flex items-start gap-3 min-w-0">
+                    <input
+                        type="checkbox"
+                        checked={isSelected}
+                        onChange={() => onToggleSelected(item.id)}
+                        aria-label="Select entry"
+                        className="mt-2 w-4 h-4 accent-blue-500"
+                    />
+                    <div className="min-w-0">
+                        <div className="flex items-center gap-2 flex-wrap">
+                            <button
+                                onClick={() => updateHistoryItems([item.id], current => ({ pinned: !current.pinned }))}
+                                title={item.pinned ? 'Unpin' : 'Pin to top'}
+                                className={`text-xl leading-none ${item.pinned ? 'text-yellow-400' : 'text-gray-500 hover:text-yellow-400'}`}
+                            >
+                                {item.pinned ? '★' : '☆'}
+                            </button>
+                            {titleDraft !== null ? (
+                                <input
+                                    autoFocus
+                                    value={titleDraft}
+                                    onChange={(e) => setTitleDraft(e.target.value)}
+                                    onBlur={saveTitle}
+                                    onKeyDown={handleEditorKeys(() => setTitleDraft(null))}
+                                    placeholder={item.feature}
+                                    aria-label="Entry title"
+                                    className="bg-gray-900 border border-gray-600 rounded-md px-2 py-1 text-white text-lg font-bold focus:outline-none focus:ring-2 focus:ring-blue-500"
+                                />
+                            ) : (
+                                <h3 className="text-xl font-bold text-white break-words">{item.title ?? item.feature}</h3>
+                            )}
+                            {item.title && <span className="text-sm text-gray-400">{item.feature}</span>}
+                            {item.status === 'cancelled' && (
+                                <span className="text-xs font-semibold text-yellow-300 bg-yellow-900/50 px-2 py-0.5 rounded-full">Cancelled</span>
+                            )}
+                        </div>
+                        <div className="flex items-center gap-2 flex-wrap mt-1">
+                            {item.tags?.map(tag => (
+                                <span key={tag} className="text-xs bg-blue-900/60 text-blue-200 pl-2 pr-1 py-0.5 rounded-full flex items-center gap-1">
+                                    <button onClick={() => onTagClick(tag)} title="Show entries with this tag" className="hover:underline">#{tag}</button>
+                                    <button onClick={() => removeTag(tag)} aria-label={`Remove tag ${tag}`} className="text-blue-300 hover:text-white px-1">&times;</button>
+                                </span>
+                            ))}
+                            {tagDraft !== null ? (
+                                <input
+                                    autoFocus
+                                    value={tagDraft}
+                                    onChange={(e) => setTagDraft(e.target.value)}
+                                    onBlur={saveTag}
+                                    onKeyDown={handleEditorKeys(() => setTagDraft(null))}
+                                    placeholder="New tag"
+                                    aria-label="New tag"
+                                    className="bg-gray-900 border border-gray-600 rounded-md px-2 py-0.5 text-white text-xs w-28 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                                />
+                            ) : (
+                                <button onClick={() => openEditor(() => setTagDraft(''))} className="text-xs text-gray-400 hover:text-white">+ Tag</button>
+                            )}
+                        </div>
+                    </div>
+                </div>
+                <div className="flex items-center gap-3 flex-shrink-0">
+                    {definition.supportsRerun && (
+                        <>
+                            <button onClick={() => navigateToHash(rerunHash(item, true))} title="Run again with the same inputs" className="text-xs text-green-400 hover:underline">Re-run</button>
+                            <button onClick={() => navigateToHash(rerunHash(item, false))} title="Open with these inputs to change them before running" className="text-xs text-blue-400 hover:underline">Edit &amp; re-run</button>
+                        </>
+                    )}
+                    <button onClick={() => openEditor(() => setTitleDraft(item.title ?? ''))} className="text-xs text-blue-400 hover:underline">Rename</button>
+                    <button onClick={() => onCopyLink(item.id)} className="text-xs text-blue-400 hover:underline">
+                        {isLinkCopied ? 'Link copied' : 'Copy link'}
+                    </button>
+                    <button onClick={() => deleteHistoryItems([item.id])} className="text-xs text-red-400 hover:underline">Delete</button>
+                    <p className="text-xs text-gray-400">{new Date(item.timestamp).toLocaleString()}</p>
+                </div>
+            </div>
+            <HistoryRenderer item={item} definition={definition} />
+        </div>
+    );
+};
+
+export default HistoryEntryCard;
@@ -0,0 +1,180 @@
+import React from 'react';
+import ReactMarkdown from 'react-markdown';
+import { HistoryFeature, HistoryItem, HistoryItemOf, MediaRef } from '../../types';
+import { HistoryField, HistorySchema } from './featureDefinition';
+import { Button } from './Controls';
+import { IconDownload } from '../../components/Icons';
+import StoredMedia from '../../components/StoredMedia';
+import SendToMenu from './SendToMenu';
+import { downloadUrl, downloadText } from '../../utils/fileUtils';
+
+const fieldLabel = (key: string, field?: HistoryField) => field?.label ?? key.replace(/([A-Z])/g, ' $1');
+
+export const fileBaseName = (item: HistoryItem) => `${item.feature.toLowerCase().replace(/ /g, '-')}-${item.id}`;
+
+// '-image.jpg' becomes '-image-2.jpg' for the third image of a list.
+const indexedSuffix = (suffix: string, index: number) => suffix.replace(/(\.\w+)?$/, `-${index}$1`);
+
+const formatTranscript = (transcript: any[]) => {
+    return transcript.map(entry => `${entry.source === 'user' ? 'User' : 'Model'}: ${entry.text}`).join('\n\n');
+};
+
+interface HistoryInputsProps<F extends HistoryFeature> {
+    item: HistoryItemOf<F>;
+    schema: HistorySchema<HistoryItemOf<F>['inputs']>;
+}
+
+export const HistoryInputs = <F extends HistoryFeature>({ item, schema }: HistoryInputsProps<F>) => {
+    const fields = new Map<string, HistoryField>(Object.entries(schema));
+    const inputs: [string, any][] = Object.entries(item.inputs);
+    return (
+        <>
+            {inputs.map(([key, value]) => {
+                if (!value) return null;
+                const field = fields.get(key);
+                const label = <p className="font-semibold capitalize text-gray-400">{fieldLabel(key, field)}:</p>;
+                switch (field?.kind) {
+                    case 'image':
+                        return (
+                            <div key={key}>
+                                {label}
+                                <StoredMedia value={value}>{(url) => <img src={url} alt={key} className="rounded-md mt-1 max-h-32" />}</StoredMedia>
+                            </div>
+                        );
+                    case 'video':
+                        return (
+                            <div key={key}>
+                                {label}
+                                <StoredMedia value={value}>{(url) => <video src={url} controls className="rounded-md mt-1 max-h-32" />}</StoredMedia>
+                            </div>
+                        );
+                    case 'audio':
+                        return (
+                            <div key={key}>
+                                {label}
+                                <StoredMedia value={value}>{(url) => <audio src={url} controls className="rounded-md mt-1 w-full" />}</StoredMedia>
+                            </div>
+                        );
+                    case 'url':
+                        return (
+                            <div key={key}>
+                                {label}
+                                <a href={value} target="_blank" rel="noopener noreferrer" className="text-blue-400 hover:underline break-all">{value}</a>
+                            </div>
+                        );
+                    default:
+                        return (
+                            <div key={key}>
+                                {label}
+                                <p className="text-gray-300 bg-gray-900 p-2 rounded-md whitespace-pre-wrap">{String(value)}</p>
+                            </div>
+                        );
+                }
+            })}
+        </>
+    );
+};
+
+const HistoryOutput: React.FC<{ item: HistoryItem; name: string; field: HistoryField; value: any }> = ({ item, name, field, value }) => {
+    const fileName = `${fileBaseName(item)}${field.fileSuffix ?? ''}`;
+    const downloadLabel = field.downloadLabel ?? 'Download';
+
+    switch (field.kind) {
+        case 'images':
+            return (
+                <div className="grid grid-cols-2 gap-2 mt-2">
+                    {value.map((img: MediaRef | string, index: number) => (
+                        <StoredMedia key={index} value={img}>{(url) => (
+                            <div className="relative group">
+                                <img src={url} alt={`Generated ${index}`} className="rounded-md w-full" />
+                                <button onClick={() => downloadUrl(url, `${fileBaseName(item)}${indexedSuffix(field.fileSuffix ?? '', index)}`)} className="absolute top-1 right-1 bg-black bg-opacity-50 p-2 rounded-full text-white hover:bg-opacity-75 transition opacity-0 group-hover:opacity-100"><IconDownload /></button>
+                                <SendToMenu source={item.feature} kind="image" value={img} name={`${fileBaseName(item)}-${index + 1}`} className="flex justify-end mt-1" />
+                            </div>
+                        )}</StoredMedia>
+                    ))}
+                </div>
+            );
+        case 'image':
+            return (
+                <StoredMedia value={value}>{(url) => (
+                    <div className="relative group mt-2">
+                        <img src={url} alt={fieldLabel(name, field)} className="rounded-md w-full" />
+                        <button onClick={() => downloadUrl(url, fileName)} className="absolute top-1 right-1 bg-black bg-opacity-50 p-2 rounded-full text-white hover:bg-opacity-75 transition opacity-0 group-hover:opacity-100"><IconDownload /></button>
+                        <SendToMenu source={item.feature} kind="image" value={value} name={fileBaseName(item)} className="flex justify-end mt-1" />
+                    </div>
+                )}</StoredMedia>
+            );
+        case 'video':
+            return (
+                <StoredMedia value={value}>{(url) => (
+                    <div className="mt-2">
+                        <video src={url} controls loop className="rounded-md w-full" />
+                        <Button onClick={() => downloadUrl(url, fileName)} className="mt-2 w-full text-sm py-1"><IconDownload /> {downloadLabel}</Button>
+                        <SendToMenu source={item.feature} kind="video" value={value} name={fileBaseName(item)} className="flex justify-end mt-2" />
+                    </div>
+                )}</StoredMedia>
+            );
+        case 'audio':
+            return (
+                <StoredMedia value={value}>{(url) => (
+                    <div className="mt-2">
+                        <audio src={url} controls className="w-full" />
+                        <Button onClick={() => downloadUrl(url, fileName)} className="mt-2 w-full text-sm py-1"><IconDownload /> {downloadLabel}</Button>
+                        <SendToMenu source={item.feature} kind="audio" value={value} name={fileBaseName(item)} className="flex justify-end mt-2" />
+                    </div>
+                )}</StoredMedia>
+            );
+        case 'markdown':
+            return (
+                <div>
+                    <div className="prose prose-invert max-w-none text-gray-300 bg-gray-900 p-2 rounded-md mt-2">
+                        <ReactMarkdown>{value}</ReactMarkdown>
+                    </div>
+                    <Button onClick={() => downloadText(value, fileName)} className="mt-2 w-full text-sm py-1"><IconDownload /> {downloadLabel}</Button>
+                    <SendToMenu source={item.feature} kind="text" value={value} className="flex justify-end mt-2" />
+                </div>
+            );
+        case 'transcript':
+            return (
+                <div>
+                    <div className="space-y-2 mt-2 max-h-48 overflow-y-auto bg-gray-900 p-2 rounded-md">
+                        {value.map((entry: any, index: number) => (
+                            <div key={index} className={`flex ${entry.source === 'user' ? 'justify-end' : 'justify-start'}`}>
+                                <div className={`max-w-md px-3 py-1 rounded-lg prose prose-invert ${entry.source === 'user' ? 'bg-blue-700 text-white' : 'bg-gray-600 text-gray-200'}`}>
+                                    <ReactMarkdown>{entry.text}</ReactMarkdown>
+                                </div>
+                            </div>
+                        ))}
+                    </div>
+                    <Button onClick={() => downloadText(formatTranscript(value), fileName)} className="mt-2 w-full text-sm py-1"><IconDownload /> {downloadLabel}</Button>
+                </div>
+            );
+        case 'url':
+            return <a href={value} target="_blank" rel="noopener noreferrer" className="text-blue-400 hover:underline break-all">{value}</a>;
+        default:
+            return (
+                <div>
+                    <div className="text-gray-300 bg-gray-900 p-2 rounded-md whitespace-pre-wrap mt-2">{String(value)}</div>
+                    <Button onClick={() => downloadText(String(value), fileName)} className="mt-2 w-full text-sm py-1"><IconDownload /> {downloadLabel}</Button>
+                    <SendToMenu source={item.feature} kind="text" value={String(value)} className="flex justify-end mt-2" />
+                </div>
+            );
+    }
+};
+
+interface HistoryOutputsProps<F extends HistoryFeature> {
+    item: HistoryItemOf<F>;
+    schema: HistorySchema<HistoryItemOf<F>['outputs']>;
+}
+
+export const HistoryOutputs = <F extends HistoryFeature>({ item, schema }: HistoryOutputsProps<F>) => {
+    const values = new Map<string, any>(Object.entries(item.outputs));
+    return (
+        <div>
+            {Object.entries(schema).map(([key, field]: [string, HistoryField]) => {
+                const value = values.get(key);
+                return value ? <HistoryOutput key={key} item={item} name={key} field={field} value={value} /> : null;
+            })}
+        </div>
+    );
+};
@@ -0,0 +1,147 @@
+import React from 'react';
+import { HistoryRendererProps } from './featureDefinition';
+import { HistoryInputs, HistoryOutputs, fileBaseName } from './HistoryFields';
+import { Button } from './Controls';
+import { IconDownload } from '../../components/Icons';
+import StoredMedia from '../../components/StoredMedia';
+import { downloadText, downloadUrl } from '../../utils/fileUtils';
+import { translatedFileName, documentMimeType } from './documentTranslation';
+import LinkSourceDetails from './LinkSourceDetails';
+import LinkDigestList from './LinkDigestList';
+
+const SectionHeading: React.FC<{ children: React.ReactNode }> = ({ children }) => (
+    <h4 className="text-lg font-semibold text-gray-200 border-b border-gray-600 pb-1 mb-2">{children}</h4>
+);
+
+const SettingChip: React.FC<{ label: string; value?: string | number }> = ({ label, value }) => {
+    if (value === undefined || value === '') return null;
+    return (
+        <span className="text-xs bg-gray-700 text-gray-200 px-2 py-1 rounded-full">
+            <span className="text-gray-400">{label}:</span> {value}
+        </span>
+    );
+};
+
+export const DefaultHistoryRenderer: React.FC<HistoryRendererProps> = ({ item, definition }) => (
+    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div>
+            <SectionHeading>Inputs</SectionHeading>
+            <div className="space-y-2 text-sm"><HistoryInputs item={item} schema={definition.inputSchema} /></div>
+        </div>
+        <div>
+            <SectionHeading>Outputs</SectionHeading>
+            <HistoryOutputs item={item} schema={definition.outputSchema} />
+        </div>
+    </div>
+);
+
+export const ImageGenerationHistory: React.FC<HistoryRendererProps<'Image Generation'>> = ({ item, definition }) => {
+    const { prompt, mode, model, style, aspectRatio, numImages, quality, image } = item.inputs;
+
+    return (
+        <div className="space-y-3">
+            <p className="text-gray-300 bg-gray-900 p-2 rounded-md whitespace-pre-wrap text-sm">{prompt}</p>
+            <div className="flex flex-wrap gap-2">
+                <SettingChip label="Mode" value={mode} />
+                <SettingChip label="Model" value={model} />
+                <SettingChip label="Style" value={style} />
+                <SettingChip label="Aspect ratio" value={aspectRatio} />
+                <SettingChip label="Images" value={numImages} />
+                <SettingChip label="Quality" value={quality} />
+            </div>
+            {image && (
+                <StoredMedia value={image}>{(url) => <img src={url} alt="Reference" className="rounded-md max-h-32" />}</StoredMedia>
+            )}
+            <HistoryOutputs item={item} schema={definition.outputSchema} />
+        </div>
+    );
+};
+
+export const TranslationHistory: React.FC<HistoryRendererProps<'Translation'>> = ({ item }) => {
+    const { text, sourceLanguage, targetLanguage, fileName, formality, tone, glossary, sourceAudio, voice } = item.inputs;
+    const { translatedText, detectedLanguage, speech, backTranslation, confidence, alternativeNote } = item.outputs;
+    const source = detectedLanguage ? `${sourceLanguage}: ${detectedLanguage}` : sourceLanguage;
+    const settings = [formality && `Formality: ${formality}`, tone && `Tone: ${tone}`, glossary && `Glossary: ${glossary}`, voice && `Voice: ${voice}`].filter(Boolean);
+    const downloadName = fileName ? translatedFileName(fileName, targetLanguage) : `${fileBaseName(item)}-translation.txt`;
+
+    return (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4 text-sm">
+            <div>
+                <SectionHeading>{fileName ? `${fileName} (${source})` : source}</SectionHeading>
+                {sourceAudio && <StoredMedia value={sourceAudio}>{(url) => <audio src={url} controls className="w-full mb-2" />}</StoredMedia>}
+                <p className="text-gray-300 bg-gray-900 p-2 rounded-md whitespace-pre-wrap max-h-96 overflow-y-auto">{text}</p>
+            </div>
+            <div>
+                <SectionHeading>{targetLanguage}</SectionHeading>
+                {settings.length > 0 && <p className="text-xs text-gray-400 mb-2">{settings.join(' · ')}</p>}
+                {translatedText && (
+                    <>
+                        <p className="text-gray-300 bg-gray-900 p-2 rounded-md whitespace-pre-wrap max-h-96 overflow-y-auto">{translatedText}</p>
+                        {alternativeNote && <p className="text-xs text-gray-400 mt-1">Alternative kept: {alternativeNote}</p>}
+                        <Button onClick={() => downloadText(translatedText, downloadName, fileName ? documentMimeType(fileName) : undefined)} className="mt-2 w-full text-sm py-1"><IconDownload /> {fileName ? 'Download File' : 'Download Text'}</Button>
+                    </>
+                )}
+                {backTranslation && (
+                    <div className="mt-2">
+                        <p className="text-xs text-gray-400">Back-translation of the first translation{confidence && ` (${confidence} confidence)`}</p>
+                        <p className="text-gray-400 bg-gray-900 p-2 rounded-md whitespace-pre-wrap">{backTranslation}</p>
+                    </div>
+                )}
+                {speech && (
+                    <StoredMedia value={speech}>{(url) => (
+                        <div className="mt-2">
+                            <audio src={url} controls className="w-full" />
+                            <Button onClick={() => downloadUrl(url, `${fileBaseName(item)}-speech.wav`)} className="mt-2 w-full text-sm py-1"><IconDownload /> Download Speech</Button>
+                        </div>
+                    )}</StoredMedia>
+                )}
+            </div>
+        </div>
+    );
+};
+
+export const LinkSummarizerHistory: React.FC<HistoryRendererProps<'Link Summarizer'>> = ({ item, definition }) => {
+    const { format, length, language } = item.inputs;
+    return (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+                <SectionHeading>Inputs</SectionHeading>
+                <div className="space-y-2 text-sm">
+                    {(format || length || language) && (
+                        <div className="flex flex-wrap gap-2">
+                            <SettingChip label="Format" value={format} />
+                            <SettingChip label="Length" value={length} />
+                            <SettingChip label="Language" value={language} />
+                        </div>
+                    )}
+                    {item.outputs.links ? (
+                        <LinkDigestList items={item.outputs.links} />
+                    ) : (
+                        <>
+                            <HistoryInputs item={item} schema={definition.inputSchema} />
+                            {item.outputs.source && <LinkSourceDetails source={item.outputs.source} />}
+                        </>
+                    )}
+                </div>
+            </div>
+            <div>
+                <SectionHeading>Outputs</SectionHeading>
+                <HistoryOutputs item={item} schema={definition.outputSchema} />
+            </div>
+        </div>
+    );
+};
+
+// The chat features show their transcript as full-width message bubbles.
+export const FastChatHistory: React.FC<HistoryRendererProps<'Fast Chat'>> = ({ item, definition }) => (
+    <div>
+        <div className="flex flex-wrap gap-2 mb-2">
+            <SettingChip label="Model" value={item.inputs.model} />
+        </div>
+        <HistoryOutputs item={item} schema={definition.outputSchema} />
+    </div>
+);
+
+export const LiveConversationHistory: React.FC<HistoryRendererProps<'Live Conversation'>> = ({ item, definition }) => (
+    <HistoryOutputs item={item} schema={definition.outputSchema} />
+);
@@ -0,0 +1,282 @@
+import React, { useState, useContext } from 'react';
+import { AspectRatio, ImageGenerationEntry } from '../../types';
+import Spinner from '../../components/Spinner';
+import Dropzone from '../../components/Dropzone';
+import { IconDownload, IconUpload } from '../../components/Icons';
+import RequestStatus from './RequestStatus';
+import { Button, CancelButton } from './Controls';
+import { aspectRatios, styles, imageModels, generateImages, ImageRequest } from './imageGeneration';
+import { HistoryContext } from '../../context/HistoryContext';
+import { useGeminiClient } from '../../hooks/useGeminiClient';
+import { useCancellableRun } from '../../hooks/useCancellableRun';
+import { PromptRow, parsePromptList } from '../../utils/promptList';
+import { createZip } from '../../utils/zip';
+import { dataUrlToBlob, downloadBlob } from '../../utils/fileUtils';
+import { getFriendlyErrorMessage } from '../../utils/errorHandler';
+
+type RowStatus = 'pending' | 'running' | 'done' | 'failed' | 'cancelled';
+
+interface RowRun {
+    status: RowStatus;
+    images: string[];
+    error?: string;
+}
+
+// Settings from the form, used for any column a row leaves empty.
+export interface BatchDefaults {
+    model: string;
+    style: string;
+    aspectRatio: AspectRatio;
+    numImages: number;
+    quality: string;
+}
+
+interface ImageBatchPanelProps {
+    defaults: BatchDefaults;
+}
+
+const STATUS_LABELS: Record<RowStatus, { label: string; className: string }> = {
+    pending: { label: 'Waiting', className: 'text-gray-400' },
+    running: { label: 'Running', className: 'text-blue-300' },
+    done: { label: 'Done', className: 'text-green-400' },
+    failed: { label: 'Failed', className: 'text-red-400' },
+    cancelled: { label: 'Cancelled', className: 'text-yellow-300' },
+};
+
+const findCaseInsensitive = <T extends string>(options: readonly T[], value: string): T | undefined => {
+    return options.find(option => option.toLowerCase() === value.toLowerCase());
+};
+
+// Applies a row's overrides to the defaults, or describes the first value that isn't supported.
+const resolveRow = (row: PromptRow, defaults: BatchDefaults): ImageRequest | string => {
+    const style = row.style ? findCaseInsensitive(styles, row.style) : defaults.style;
+    if (!style) return `Unknown style "${row.style}".`;
+    const aspectRatio = row.aspectRatio ? findCaseInsensitive(aspectRatios, row.aspectRatio) : defaults.aspectRatio;
+    if (!aspectRatio) return `Unsupported aspect ratio "${row.aspectRatio}". Use one of ${aspectRatios.join(', ')}.`;
+    const model = row.model
+        ? imageModels.find(m => [m.name, m.value].some(value => value.toLowerCase() === row.model!.toLowerCase()))
+        : imageModels.find(m => m.value === defaults.model);
+    if (!model) return `Unknown model "${row.model}".`;
+    if (!model.isGeminiNative) return `${model.name} is not available. Use ImageFX or Nano Banana.`;
+    return {
+        prompt: row.prompt,
+        model: model.value,
+        style,
+        aspectRatio,
+        numImages: defaults.numImages,
+        quality: defaults.quality,
+    };
+};
+
+const rowFileName = (row: number, index: number, image: string) => {
+    const extension = image.match(/^data:image\/(\w+)/)?.[1]?.replace('jpeg', 'jpg') || 'jpg';
+    return `images/row-${String(row).padStart(3, '0')}-${index + 1}.${extension}`;
+};
+
+// Batch mode of Image Generation: runs every prompt of an uploaded CSV or JSON list and packs the
+// results into a ZIP with a manifest mapping rows to files.
+const ImageBatchPanel: React.FC<ImageBatchPanelProps> = ({ defaults }) => {
+    const { addHistoryItem } = useContext(HistoryContext);
+    const { ai, requestActivity } = useGeminiClient();
+    const { startRun, cancelRun } = useCancellableRun();
+    const [fileName, setFileName] = useState<string>('');
+    const [rows, setRows] = useState<PromptRow[]>([]);
+    const [listErrors, setListErrors] = useState<string[]>([]);
+    const [runs, setRuns] = useState<Record<number, RowRun>>({});
+    const [isRunning, setIsRunning] = useState<boolean>(false);
+    const [isZipping, setIsZipping] = useState<boolean>(false);
+    const [error, setError] = useState<string | null>(null);
+
+    const finishedCount = Object.values(runs).filter(run => run.status === 'done' || run.status === 'failed').length;
+    const doneCount = Object.values(runs).filter(run => run.status === 'done').length;
+
+    const updateRun = (row: number, update: Partial<RowRun>) => {
+        setRuns(current => ({ ...current, [row]: { ...current[row], ...update } }));
+    };
+
+    const handleFileSelect = async (file: File) => {
+        setError(null);
+        setRuns({});
+        try {
+            const list = parsePromptList(await file.text(), file.name);
+            if (list.rows.length === 0) throw new Error('The file does not contain any prompts.');
+            setFileName(file.name);
+            setRows(list.rows);
+            setListErrors(list.errors);
+        } catch (e: any) {
+            setFileName('');
+            setRows([]);
+            setListErrors([]);
+            setError(e?.message || String(e));
+        }
+    };
+
+    const runRow = async (row: PromptRow, signal: AbortSignal) => {
+        const request = resolveRow(row, defaults);
+        if (typeof request === 'string') {
+            updateRun(row.row, { status: 'failed', error: request });
+            return;
+        }
+        updateRun(row.row, { status: 'running' });
+        const imagesSoFar: string[] = [];
+        const historyInputs: ImageGenerationEntry['inputs'] = {
+            prompt: request.prompt,
+            mode: 'Text-to-Image',
+            model: imageModels.find(m => m.value === request.model)?.name || request.model,
+            style: request.style,
+            aspectRatio: request.aspectRatio,
+            numImages: request.numImages,
+            quality: request.quality,
+            image: null,
+        };
+        try {
+            const images = await generateImages(ai, request, signal, (image) => {
+                imagesSoFar.push(image);
+                updateRun(row.row, { images: [...imagesSoFar] });
+            });
+            addHistoryItem({
+                id: `${Date.now()}-${row.row}`,
+                feature: 'Image Generation',
+                timestamp: Date.now(),
+                inputs: historyInputs,
+                outputs: { images },
+                tags: [fileName],
+            });
+            updateRun(row.row, { status: 'done', images });
+        } catch (e: any) {
+            if (signal.aborted) {
+                addHistoryItem({
+                    id: `${Date.now()}-${row.row}`,
+                    feature: 'Image Generation',
+                    timestamp: Date.now(),
+                    inputs: historyInputs,
+                    outputs: { images: imagesSoFar },
+                    tags: [fileName],
+                    status: 'cancelled'
+                });
+                updateRun(row.row, { status: 'cancelled' });
+            } else {
+                updateRun(row.row, { status: 'failed', error: getFriendlyErrorMessage(e) });
+                console.error(e);
+            }
+        }
+    };
+
+    const handleRun = async () => {
+        setIsRunning(true);
+        setError(null);
+        setRuns(Object.fromEntries(rows.map(row => [row.row, { status: 'pending', images: [] }])));
+        const signal = startRun();
+        // Every row is queued at once; the request scheduler keeps the calls within the rate limit.
+        await Promise.all(rows.map(row => runRow(row, signal)));
+        setIsRunning(false);
+    };
+
+    const handleDownload = async () => {
+        setIsZipping(true);
+        try {
+            const manifest = {
+                source: fileName,
+                generatedAt: new Date().toISOString(),
+                rows: rows.map(row => {
+                    const run = runs[row.row];
+                    const request = resolveRow(row, defaults);
+                    return {
+                        row: row.row,
+                        prompt: row.prompt,
+                        ...(typeof request === 'string' ? {} : { style: request.style, aspectRatio: request.aspectRatio, model: request.model }),
+                        status: run?.status ?? 'pending',
+                        files: run?.status === 'done' ? run.images.map((image, index) => rowFileName(row.row, index, image)) : [],
+                        ...(run?.error ? { error: run.error } : {}),
+                    };
+                }),
+            };
+            const files = rows.flatMap(row => {
+                const run = runs[row.row];
+                if (run?.status !== 'done') return [];
+                return run.images.map((image, index) => ({ name: rowFileName(row.row, index, image), data: dataUrlToBlob(image) }));
+            });
+            const archive = await createZip([{ name: 'manifest.json', data: JSON.stringify(manifest, null, 2) }, ...files]);
+            downloadBlob(archive, `${fileName.replace(/\.\w+$/, '') || 'batch'}-images.zip`);
+        } catch (e: any) {
+            setError(e?.message || String(e));
+        } finally {
+            setIsZipping(false);
+        }
+    };
+
+    return (
+        <div className="space-y-6">
+            <div className="p-4 bg-gray-900/50 rounded-lg space-y-3">
+                <Dropzone onFileSelect={handleFileSelect} accept=".csv,.json,text/csv,application/json">
+                    <div className="flex flex-col items-center justify-center text-gray-400">
+                        <IconUpload />
+                        <p className="mt-2">Drag & drop a CSV or JSON prompt list here, or click to select a file</p>
+                        {fileName && <p className="mt-2 text-sm text-green-400">Selected: {fileName} ({rows.length} prompts)</p>}
+                    </div>
+                </Dropzone>
+                <p className="text-xs text-gray-500">
+                    CSV files need a header row with a <code>prompt</code> column; JSON files hold an array of prompts or of objects with a <code>prompt</code> key.
+                    Optional <code>style</code>, <code>aspect_ratio</code> and <code>model</code> columns override the settings above for that row.
+                </p>
+                {listErrors.length > 0 && (
+                    <ul className="text-sm text-yellow-300 list-disc list-inside">
+                        {listErrors.map(listError => <li key={listError}>Skipped {listError}</li>)}
+                    </ul>
+                )}
+            </div>
+
+            <div className="flex flex-wrap gap-4 items-center">
+                <Button onClick={handleRun} disabled={isRunning || rows.length === 0}>
+                    {isRunning ? <><Spinner className="w-5 h-5 mr-2" /> Generating...</> : `Generate ${rows.length || ''} ${rows.length === 1 ? 'Prompt' : 'Prompts'}`}
+                </Button>
+                {isRunning && <CancelButton onClick={cancelRun} />}
+                {doneCount > 0 && !isRunning && (
+                    <button
+                        onClick={handleDownload}
+                        disabled={isZipping}
+                        className="flex items-center gap-2 px-4 py-2 bg-gray-700 hover:bg-gray-600 rounded-md text-sm disabled:opacity-50"
+                    >
+                        <IconDownload /> {isZipping ? 'Preparing ZIP...' : 'Download ZIP'}
+                    </button>
+                )}
+                {Object.keys(runs).length > 0 && (
+                    <span className="text-sm text-gray-400">{finishedCount} / {rows.length} finished</span>
+                )}
+            </div>
+
+            <RequestStatus activity={requestActivity} />
+            {error && <div className="text-red-400 bg-red-900/50 p-3 rounded-md">{error}</div>}
+
+            {rows.length > 0 && (
+                <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4">
+                    {rows.map(row => {
+                        const run = runs[row.row];
+                        return (
+                            <div key={row.row} className={`bg-gray-900/50 p-3 rounded-lg space-y-2 ${run?.status === 'running' ? 'ring-2 ring-blue-500' : ''}`}>
+                                <div className="flex justify-between items-center text-sm">
+                                    <span className="font-semibold text-gray-300">Row {row.row}</span>
+                                    {run && (
+                                        <span className={`flex items-center gap-1 ${STATUS_LABELS[run.status].className}`}>
+                                            {run.status === 'running' && <Spinner className="w-4 h-4" />}
+                                            {STATUS_LABELS[run.status].label}
+                                        </span>
+                                    )}
+                                </div>
+                                <p className="text-sm text-gray-400 line-clamp-2" title={row.prompt}>{row.prompt}</p>
+                                {run?.images.length > 0 && (
+                                    <div className="grid grid-cols-2 gap-2">
+                                        {run.images.map((src, index) => <img key={index} src={src} alt={`Row ${row.row} image ${index + 1}`} className="rounded-md w-full h-auto object-cover" />)}
+                                    </div>
+                                )}
+                                {run?.error && <p className="text-xs text-red-400">{run.error}</p>}
+                            </div>
+                        );
+                    })}
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default ImageBatchPanel;
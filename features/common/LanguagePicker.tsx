@@ -0,0 +1,100 @@
+import React, { useState } from 'react';
+import { Input, Select } from './Controls';
+import { LANGUAGES, Language } from './translation';
+
+const matchesSearch = (language: Language, search: string) => {
+    const query = search.trim().toLowerCase();
+    return !query
+        || language.name.toLowerCase().includes(query)
+        || language.nativeName.toLowerCase().includes(query)
+        || language.code.toLowerCase() === query;
+};
+
+interface LanguageSelectProps {
+    id: string;
+    value: string;
+    onChange: (language: string) => void;
+    // Offers "Auto-detect" as the first option, for source languages.
+    allowAutoDetect?: boolean;
+    disabled?: boolean;
+}
+
+// A language select with a search box that narrows the catalog by name, native name or code.
+export const LanguageSelect: React.FC<LanguageSelectProps> = ({ id, value, onChange, allowAutoDetect = false, disabled }) => {
+    const [search, setSearch] = useState('');
+    // The selected language stays listed so the select never shows a blank value.
+    const options = LANGUAGES.filter(language => language.name === value || matchesSearch(language, search));
+
+    return (
+        <div className="flex gap-2">
+            <div className="w-2/5 shrink-0">
+                <Input
+                    value={search}
+                    onChange={(e) => setSearch(e.target.value)}
+                    placeholder="Search..."
+                    aria-label="Search languages"
+                    disabled={disabled}
+                />
+            </div>
+            <Select id={id} value={value} onChange={(e) => onChange(e.target.value)} disabled={disabled}>
+                {allowAutoDetect && <option value="Auto-detect">Auto-detect</option>}
+                {options.map(language => (
+                    <option key={language.code} value={language.name}>{language.name} ({language.nativeName})</option>
+                ))}
+            </Select>
+        </div>
+    );
+};
+
+interface LanguageMultiSelectProps {
+    id: string;
+    value: string[];
+    onChange: (languages: string[]) => void;
+    disabled?: boolean;
+}
+
+// Chips for the chosen languages above a searchable checklist of the catalog.
+export const LanguageMultiSelect: React.FC<LanguageMultiSelectProps> = ({ id, value, onChange, disabled }) => {
+    const [search, setSearch] = useState('');
+    const options = LANGUAGES.filter(language => matchesSearch(language, search));
+
+    const toggle = (name: string) => {
+        onChange(value.includes(name) ? value.filter(selected => selected !== name) : [...value, name]);
+    };
+
+    return (
+        <div className="space-y-2">
+            <div className="flex flex-wrap gap-2">
+                {value.length === 0 && <span className="text-sm text-gray-500">No target languages chosen.</span>}
+                {value.map(name => (
+                    <span key={name} className="flex items-center gap-1 text-sm bg-blue-900/60 text-blue-200 px-2 py-0.5 rounded-full">
+                        {name}
+                        <button onClick={() => toggle(name)} disabled={disabled} aria-label={`Remove ${name}`} className="hover:text-white disabled:opacity-50">×</button>
+                    </span>
+                ))}
+            </div>
+            <Input
+                id={id}
+                value={search}
+                onChange={(e) => setSearch(e.target.value)}
+                placeholder="Search languages..."
+                disabled={disabled}
+            />
+            <div className="max-h-40 overflow-y-auto bg-gray-900/50 border border-gray-600 rounded-md p-2 grid grid-cols-1 sm:grid-cols-2 gap-1">
+                {options.map(language => (
+                    <label key={language.code} className="flex items-center gap-2 text-sm text-gray-300">
+                        <input
+                            type="checkbox"
+                            checked={value.includes(language.name)}
+                            onChange={() => toggle(language.name)}
+                            disabled={disabled}
+                            className="w-4 h-4 accent-blue-500"
+                        />
+                        {language.name} <span className="text-gray-500">{language.nativeName}</span>
+                    </label>
+                ))}
+                {options.length === 0 && <p className="text-sm text-gray-500">No languages match "{search}".</p>}
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,99 @@
+import React, { useState } from 'react';
+import ReactMarkdown from 'react-markdown';
+import { TranscriptEntry } from '../../types';
+import Spinner from '../../components/Spinner';
+import { Label, TextArea, Button, CancelButton } from './Controls';
+import { GeminiChat } from '../../services/geminiClient';
+import { useCancellableRun } from '../../hooks/useCancellableRun';
+import { getFriendlyErrorMessage } from '../../utils/errorHandler';
+
+interface LinkChatPanelProps {
+    chat: GeminiChat;
+    // Called after every answer, including one cut short by Stop, with the whole conversation so far.
+    onAnswered: (transcript: TranscriptEntry[]) => void;
+}
+
+// Follow-up questions about the summarized links, answered from their content.
+const LinkChatPanel: React.FC<LinkChatPanelProps> = ({ chat, onAnswered }) => {
+    const { startRun, cancelRun } = useCancellableRun();
+    const [transcript, setTranscript] = useState<TranscriptEntry[]>([]);
+    const [question, setQuestion] = useState<string>('');
+    const [isAnswering, setIsAnswering] = useState<boolean>(false);
+    const [error, setError] = useState<string | null>(null);
+
+    const handleAsk = async () => {
+        if (!question.trim() || isAnswering) return;
+        const asked: TranscriptEntry[] = [...transcript, { source: 'user', text: question.trim() }];
+        setTranscript(asked);
+        setQuestion('');
+        setIsAnswering(true);
+        setError(null);
+        const signal = startRun();
+
+        let answer = '';
+        try {
+            const stream = await chat.sendMessageStream({ message: asked[asked.length - 1].text, config: { abortSignal: signal } });
+            for await (const chunk of stream) {
+                answer += chunk.text ?? '';
+                setTranscript([...asked, { source: 'model', text: answer }]);
+            }
+        } catch (e: any) {
+            // Stopping keeps whatever part of the answer already streamed in.
+            if (!signal.aborted) {
+                setError(getFriendlyErrorMessage(e));
+                console.error(e);
+            }
+        } finally {
+            const final: TranscriptEntry[] = answer ? [...asked, { source: 'model', text: answer }] : asked;
+            setTranscript(final);
+            setIsAnswering(false);
+            if (answer) onAnswered(final);
+        }
+    };
+
+    return (
+        <div className="p-4 bg-gray-900/50 rounded-lg space-y-4">
+            <h3 className="text-lg font-semibold">Follow-up Questions</h3>
+            {transcript.length > 0 && (
+                <div className="space-y-3 max-h-96 overflow-y-auto">
+                    {transcript.map((entry, index) => (
+                        <div key={index} className={`flex ${entry.source === 'user' ? 'justify-end' : 'justify-start'}`}>
+                            <div className={`max-w-xl px-4 py-2 rounded-xl prose prose-invert ${entry.source === 'user' ? 'bg-blue-600 text-white' : 'bg-gray-700 text-gray-200'}`}>
+                                <ReactMarkdown>{entry.text}</ReactMarkdown>
+                            </div>
+                        </div>
+                    ))}
+                    {isAnswering && transcript[transcript.length - 1]?.source === 'user' && (
+                        <div className="flex justify-start">
+                            <div className="px-4 py-2 rounded-xl bg-gray-700"><Spinner className="w-5 h-5" /></div>
+                        </div>
+                    )}
+                </div>
+            )}
+            {error && <div className="text-red-400 bg-red-900/50 p-3 rounded-md">{error}</div>}
+            <div>
+                <Label htmlFor="link-question">Ask about the content</Label>
+                <TextArea
+                    id="link-question"
+                    value={question}
+                    onChange={(e) => setQuestion(e.target.value)}
+                    onKeyDown={(e) => {
+                        if (e.key === 'Enter' && !e.shiftKey) {
+                            e.preventDefault();
+                            handleAsk();
+                        }
+                    }}
+                    placeholder="What do these sources say about...?"
+                />
+            </div>
+            <div className="flex gap-4">
+                <Button onClick={handleAsk} disabled={isAnswering || !question.trim()}>
+                    {isAnswering ? <><Spinner className="w-5 h-5 mr-2" /> Answering...</> : 'Ask'}
+                </Button>
+                {isAnswering && <CancelButton onClick={cancelRun} />}
+            </div>
+        </div>
+    );
+};
+
+export default LinkChatPanel;
@@ -0,0 +1,46 @@
+import React from 'react';
+import ReactMarkdown from 'react-markdown';
+import { LinkDigestItem } from '../../types';
+import Spinner from '../../components/Spinner';
+import LinkSourceDetails from './LinkSourceDetails';
+
+interface DigestListItem extends LinkDigestItem {
+    content?: string;
+    truncated?: boolean;
+}
+
+interface LinkDigestListProps {
+    items: DigestListItem[];
+    // Shows a spinner on links that have neither a summary nor an error yet.
+    isLoading?: boolean;
+}
+
+// The links of a digest, numbered as the digest cites them, each with its source details and summary.
+const LinkDigestList: React.FC<LinkDigestListProps> = ({ items, isLoading }) => (
+    <ol className="space-y-3">
+        {items.map((item, index) => (
+            <li key={item.url} className="flex gap-3">
+                <span className="shrink-0 w-8 text-right font-semibold text-gray-400">[{index + 1}]</span>
+                <div className="flex-grow min-w-0 space-y-2">
+                    {item.source ? (
+                        <LinkSourceDetails source={item.source} content={item.content} truncated={item.truncated} />
+                    ) : (
+                        <a href={item.url} target="_blank" rel="noopener noreferrer" className="block text-blue-400 hover:underline break-all">{item.url}</a>
+                    )}
+                    {!item.summary && !item.error && isLoading && <Spinner className="w-5 h-5" />}
+                    {item.error && <p className="text-sm text-red-400">{item.error}</p>}
+                    {item.summary && (
+                        <details>
+                            <summary className="cursor-pointer text-sm text-gray-300">Summary</summary>
+                            <div className="prose prose-invert max-w-none text-sm text-gray-300 mt-2">
+                                <ReactMarkdown>{item.summary}</ReactMarkdown>
+                            </div>
+                        </details>
+                    )}
+                </div>
+            </li>
+        ))}
+    </ol>
+);
+
+export default LinkDigestList;
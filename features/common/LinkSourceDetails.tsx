@@ -0,0 +1,38 @@
+import React from 'react';
+import { LinkSource } from '../../types';
+import { MAX_CONTENT_CHARS, RETRIEVAL_METHOD_LABELS } from './linkSummary';
+
+interface LinkSourceDetailsProps {
+    source: LinkSource;
+    // The extracted text that was summarized, when it was fetched through the proxy.
+    content?: string;
+    truncated?: boolean;
+}
+
+// What Link Summarizer read behind a link: how it was retrieved, the page's metadata and its opening words.
+const LinkSourceDetails: React.FC<LinkSourceDetailsProps> = ({ source, content, truncated }) => {
+    const details = [source.byline, source.siteName, source.publishedAt, source.wordCount !== undefined && `${source.wordCount.toLocaleString()} words`].filter(Boolean);
+
+    return (
+        <div className="p-3 bg-gray-900/50 border border-gray-700 rounded-lg text-sm space-y-1">
+            <div className="flex flex-wrap items-center gap-2">
+                <span className="text-gray-400">Content used</span>
+                <span className="text-xs bg-gray-700 text-gray-200 px-2 py-0.5 rounded-full">{RETRIEVAL_METHOD_LABELS[source.method]}</span>
+            </div>
+            <a href={source.url} target="_blank" rel="noopener noreferrer" className="block font-medium text-blue-400 hover:underline break-all">
+                {source.title || source.url}
+            </a>
+            {details.length > 0 && <p className="text-xs text-gray-400">{details.join(' · ')}</p>}
+            {source.excerpt && <blockquote className="border-l-2 border-gray-600 pl-2 text-gray-400 italic">{source.excerpt}</blockquote>}
+            {truncated && <p className="text-xs text-yellow-300">The page is long; only its first {MAX_CONTENT_CHARS.toLocaleString()} characters were summarized.</p>}
+            {content && (
+                <details>
+                    <summary className="cursor-pointer text-xs text-gray-400">Show extracted text</summary>
+                    <p className="mt-2 max-h-64 overflow-y-auto whitespace-pre-wrap text-gray-400 bg-gray-900 p-2 rounded-md">{content}</p>
+                </details>
+            )}
+        </div>
+    );
+};
+
+export default LinkSourceDetails;
@@ -0,0 +1,36 @@
+import React, { useState, useEffect } from 'react';
+import { RequestActivity } from '../../hooks/useGeminiClient';
+import { MAX_REQUEST_ATTEMPTS } from '../../services/requestScheduler';
+
+const RequestStatus: React.FC<{ activity: RequestActivity | null }> = ({ activity }) => {
+    const [now, setNow] = useState(Date.now());
+
+    useEffect(() => {
+        if (!activity?.retry) return;
+        const interval = window.setInterval(() => setNow(Date.now()), 1000);
+        return () => window.clearInterval(interval);
+    }, [activity?.retry]);
+
+    if (!activity) return null;
+
+    const messages: string[] = [];
+    if (activity.retry) {
+        const seconds = Math.max(0, Math.ceil((activity.retry.retryAt - now) / 1000));
+        messages.push(`Rate limited by the API. Retrying in ${seconds}s (attempt ${activity.retry.attempt} of ${MAX_REQUEST_ATTEMPTS})...`);
+    }
+    if (activity.queuePosition !== null) {
+        messages.push(`Waiting for a free slot: position ${activity.queuePosition} in the queue.`);
+    }
+    if (activity.total > 1) {
+        messages.push(`${activity.completed} of ${activity.total} requests complete.`);
+    }
+    if (messages.length === 0) return null;
+
+    return (
+        <div className="text-sm text-blue-300 bg-blue-900/30 p-3 rounded-md space-y-1">
+            {messages.map(message => <p key={message}>{message}</p>)}
+        </div>
+    );
+};
+
+export default RequestStatus;
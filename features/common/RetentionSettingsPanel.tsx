@@ -0,0 +1,47 @@
+import React, { useContext, useState } from 'react';
+import { HistoryContext } from '../../context/HistoryContext';
+import { RetentionSettings } from '../../services/historyRetention';
+import { Button, Input, Label } from './Controls';
+
+const parseLimit = (value: string): number | null => {
+    const number = Number(value);
+    return value.trim() && number > 0 ? number : null;
+};
+
+// Edits the automatic pruning rules applied to unpinned History entries.
+const RetentionSettingsPanel: React.FC = () => {
+    const { retention, setRetention } = useContext(HistoryContext);
+    const [maxAgeDays, setMaxAgeDays] = useState(retention.maxAgeDays?.toString() ?? '');
+    const [maxStorageMB, setMaxStorageMB] = useState(retention.maxStorageMB?.toString() ?? '');
+
+    const draft: RetentionSettings = { maxAgeDays: parseLimit(maxAgeDays), maxStorageMB: parseLimit(maxStorageMB) };
+    const isChanged = draft.maxAgeDays !== retention.maxAgeDays || draft.maxStorageMB !== retention.maxStorageMB;
+
+    const handleSave = () => {
+        const isStricter = (draft.maxAgeDays !== null && (retention.maxAgeDays === null || draft.maxAgeDays < retention.maxAgeDays))
+            || (draft.maxStorageMB !== null && (retention.maxStorageMB === null || draft.maxStorageMB < retention.maxStorageMB));
+        if (isStricter && !window.confirm('Unpinned entries outside these limits will be deleted now and cannot be restored. Continue?')) {
+            return;
+        }
+        setRetention(draft);
+    };
+
+    return (
+        <div className="bg-gray-900/50 p-4 rounded-lg space-y-3 text-sm">
+            <p className="text-gray-400">Automatically delete unpinned entries. Leave a field empty to turn that rule off.</p>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                <div>
+                    <Label htmlFor="retention-age">Delete entries older than (days)</Label>
+                    <Input id="retention-age" type="number" min={1} value={maxAgeDays} onChange={(e) => setMaxAgeDays(e.target.value)} placeholder="Keep forever" />
+                </div>
+                <div>
+                    <Label htmlFor="retention-storage">Keep total storage under (MB)</Label>
+                    <Input id="retention-storage" type="number" min={1} value={maxStorageMB} onChange={(e) => setMaxStorageMB(e.target.value)} placeholder="No limit" />
+                </div>
+            </div>
+            <Button onClick={handleSave} disabled={!isChanged}>Save Rules</Button>
+        </div>
+    );
+};
+
+export default RetentionSettingsPanel;
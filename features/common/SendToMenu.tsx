@@ -0,0 +1,89 @@
+import React, { useContext, useState } from 'react';
+import { Feature, MediaValue, SendableKind, SentAsset } from '../../types';
+import { SendToContext } from '../../context/SendToContext';
+import { loadMediaFile } from '../../services/historyStore';
+import { featureRegistry } from '../registry';
+import { IconSend } from '../../components/Icons';
+
+interface SendToMenuProps {
+    source: Feature;
+    kind: SendableKind;
+    // Text for 'text'; otherwise the media as a data or object URL, a Blob, or a stored MediaRef.
+    value: MediaValue;
+    // File name, without extension, given to sent media.
+    name?: string;
+    className?: string;
+}
+
+const toFile = async (value: MediaValue, name: string): Promise<File> => {
+    // Object URLs of results still on screen are read back; everything else is a History media value.
+    if (typeof value === 'string' && value.startsWith('blob:')) {
+        return loadMediaFile(await (await fetch(value)).blob(), name);
+    }
+    return loadMediaFile(value, name);
+};
+
+// "Send to…" button listing every feature that accepts this kind of output (see FeatureDefinition.receives).
+const SendToMenu: React.FC<SendToMenuProps> = ({ source, kind, value, name, className = '' }) => {
+    const { sendTo } = useContext(SendToContext);
+    const [isOpen, setIsOpen] = useState(false);
+    const [isSending, setIsSending] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const targets = featureRegistry.filter(definition => definition.receives?.[kind]);
+
+    if (targets.length === 0) return null;
+
+    const handleSend = async (target: Feature) => {
+        setIsSending(true);
+        setError(null);
+        try {
+            const asset: SentAsset = kind === 'text'
+                ? { kind, text: String(value), source }
+                : { kind, file: await toFile(value, name ?? `${source.toLowerCase().replace(/ /g, '-')}-${kind}`), source };
+            sendTo(target, asset);
+        } catch (e: any) {
+            console.error(e);
+            setError(e?.message || String(e));
+            setIsSending(false);
+        }
+    };
+
+    return (
+        <div
+            className={`relative ${className}`}
+            onBlur={(e) => {
+                if (!e.currentTarget.contains(e.relatedTarget as Node | null)) setIsOpen(false);
+            }}
+        >
+            <button
+                onClick={() => setIsOpen(open => !open)}
+                disabled={isSending}
+                aria-haspopup="menu"
+                aria-expanded={isOpen}
+                className="flex items-center gap-2 px-3 py-1 bg-gray-700 hover:bg-gray-600 rounded-md text-sm disabled:opacity-50"
+            >
+                <IconSend />
+                {isSending ? 'Sending...' : 'Send to…'}
+            </button>
+            {isOpen && (
+                <ul role="menu" className="absolute right-0 z-20 mt-1 w-64 bg-gray-800 border border-gray-600 rounded-md shadow-lg py-1">
+                    {targets.map(({ name: target, receives }) => (
+                        <li key={target}>
+                            <button
+                                role="menuitem"
+                                onClick={() => handleSend(target)}
+                                className="w-full text-left px-3 py-2 text-sm hover:bg-gray-700"
+                            >
+                                <span className="text-white">{target}</span>
+                                <span className="block text-xs text-gray-400">{receives?.[kind]}</span>
+                            </button>
+                        </li>
+                    ))}
+                </ul>
+            )}
+            {error && <p className="absolute right-0 mt-1 w-64 text-xs text-red-400">{error}</p>}
+        </div>
+    );
+};
+
+export default SendToMenu;
@@ -0,0 +1,78 @@
+import React from 'react';
+import { StructuredSummary, SummaryFormat, timestampSeconds } from './summaryFormats';
+import { isYouTubeUrl } from './linkSummary';
+
+interface StructuredSummaryViewProps {
+    summary: StructuredSummary;
+    format: SummaryFormat;
+    // The summarized link; chapter timestamps of a YouTube video open it at that point.
+    url?: string;
+}
+
+const timestampUrl = (url: string, timestamp: string): string | undefined => {
+    const seconds = timestampSeconds(timestamp);
+    if (seconds === undefined || !isYouTubeUrl(url)) return undefined;
+    const target = new URL(url);
+    target.searchParams.set('t', `${seconds}s`);
+    return target.toString();
+};
+
+const TimestampBadge: React.FC<{ timestamp: string; url?: string }> = ({ timestamp, url }) => {
+    const href = url && timestampUrl(url, timestamp);
+    const className = 'shrink-0 font-mono text-xs bg-gray-700 text-blue-300 px-2 py-1 rounded-md';
+    return href
+        ? <a href={href} target="_blank" rel="noopener noreferrer" className={`${className} hover:bg-gray-600`}>{timestamp}</a>
+        : <span className={className}>{timestamp}</span>;
+};
+
+// A summary in the layout of its format: thread posts as cards, action items as checklists,
+// chapters with their timestamps and other formats as headed bullet lists.
+const StructuredSummaryView: React.FC<StructuredSummaryViewProps> = ({ summary, format, url }) => {
+    const points = summary.sections.flatMap(section => section.points);
+    return (
+        <div className="space-y-4 text-gray-300">
+            {summary.title && <h4 className="text-xl font-semibold text-white">{summary.title}</h4>}
+            {summary.overview && <p className={format === 'TL;DR' ? 'text-lg' : 'text-gray-400'}>{summary.overview}</p>}
+
+            {format === 'Thread' ? (
+                <ol className="space-y-2">
+                    {points.map((post, index) => (
+                        <li key={index} className="p-3 bg-gray-800 border border-gray-700 rounded-lg">
+                            <span className="text-xs font-semibold text-gray-400">{index + 1}/{points.length}</span>
+                            <p className="mt-1">{post}</p>
+                        </li>
+                    ))}
+                </ol>
+            ) : (
+                summary.sections.map((section, index) => (
+                    <div key={index} className="space-y-2">
+                        {(section.heading || section.timestamp) && (
+                            <div className="flex items-center gap-2">
+                                {section.timestamp && <TimestampBadge timestamp={section.timestamp} url={url} />}
+                                {section.heading && <h5 className="font-semibold text-gray-200">{section.heading}</h5>}
+                            </div>
+                        )}
+                        {format === 'Action Items' ? (
+                            <ul className="space-y-1">
+                                {section.points.map((point, i) => (
+                                    <li key={i}>
+                                        <label className="flex items-start gap-2">
+                                            <input type="checkbox" className="w-4 h-4 mt-1 accent-blue-500" />
+                                            <span>{point}</span>
+                                        </label>
+                                    </li>
+                                ))}
+                            </ul>
+                        ) : (
+                            <ul className="list-disc pl-5 space-y-1">
+                                {section.points.map((point, i) => <li key={i}>{point}</li>)}
+                            </ul>
+                        )}
+                    </div>
+                ))
+            )}
+        </div>
+    );
+};
+
+export default StructuredSummaryView;
@@ -0,0 +1,86 @@
+import React from 'react';
+import { Confidence, MeaningDrift, TranslationReview } from './translation';
+
+interface TranslationReviewPanelProps {
+    translatedText: string;
+    review: TranslationReview;
+    // 0 is the first translation, 1 and up the alternatives.
+    selected: number;
+    onSelect: (choice: number) => void;
+    disabled?: boolean;
+}
+
+const CONFIDENCE_STYLES: Record<Confidence, string> = {
+    High: 'bg-green-900/60 text-green-300',
+    Medium: 'bg-yellow-900/60 text-yellow-300',
+    Low: 'bg-red-900/60 text-red-300',
+};
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Marks each drifted excerpt where it occurs in the back-translation.
+const highlightDrift = (text: string, drift: MeaningDrift[]): React.ReactNode => {
+    const excerpts = drift.map(item => item.excerpt.trim()).filter(Boolean);
+    if (excerpts.length === 0) return text;
+    const pattern = new RegExp(`(${excerpts.map(escapeRegExp).join('|')})`, 'gi');
+    return text.split(pattern).map((part, index) => {
+        const match = drift.find(item => item.excerpt.trim().toLowerCase() === part.toLowerCase());
+        if (!match) return part;
+        return (
+            <mark key={index} title={match.note} className={`rounded px-0.5 text-gray-100 ${match.severity === 'Major' ? 'bg-red-700/70' : 'bg-yellow-700/70'}`}>
+                {part}
+            </mark>
+        );
+    });
+};
+
+// Quality mode results for one target language: the back-translation with meaning drift marked, and a
+// choice between the translation and its alternatives.
+const TranslationReviewPanel: React.FC<TranslationReviewPanelProps> = ({ translatedText, review, selected, onSelect, disabled }) => {
+    const choices = [{ translatedText, note: 'First translation' }, ...review.alternatives];
+
+    return (
+        <div className="space-y-3 text-sm">
+            <div className="space-y-1">
+                <div className="flex items-center gap-2">
+                    <span className="font-medium text-gray-300">Back-translation</span>
+                    <span className={`text-xs px-2 py-0.5 rounded-full ${CONFIDENCE_STYLES[review.confidence]}`}>{review.confidence} confidence</span>
+                </div>
+                <p className="text-gray-400 whitespace-pre-wrap">{highlightDrift(review.backTranslation, review.drift)}</p>
+                {review.drift.length === 0 ? (
+                    <p className="text-xs text-green-400">No meaning drift found.</p>
+                ) : (
+                    <ul className="text-xs space-y-1">
+                        {review.drift.map((item, index) => (
+                            <li key={index} className={item.severity === 'Major' ? 'text-red-300' : 'text-yellow-300'}>
+                                <span className="font-medium">{item.severity}:</span> "{item.excerpt}" ({item.note})
+                            </li>
+                        ))}
+                    </ul>
+                )}
+            </div>
+            <fieldset className="space-y-2" disabled={disabled}>
+                <legend className="font-medium text-gray-300 mb-1">Choose the translation to keep</legend>
+                {choices.map((choice, index) => (
+                    <label
+                        key={index}
+                        className={`flex items-start gap-2 p-2 rounded-md cursor-pointer border ${selected === index ? 'border-blue-500 bg-blue-900/20' : 'border-gray-700 hover:bg-gray-800'}`}
+                    >
+                        <input
+                            type="radio"
+                            checked={selected === index}
+                            onChange={() => onSelect(index)}
+                            className="mt-1 w-4 h-4 accent-blue-500"
+                        />
+                        <span>
+                            <span className="block text-gray-200 whitespace-pre-wrap">{choice.translatedText}</span>
+                            <span className="block text-xs text-gray-500 mt-0.5">{choice.note}</span>
+                        </span>
+                    </label>
+                ))}
+            </fieldset>
+        </div>
+    );
+};
+
+export default TranslationReviewPanel;
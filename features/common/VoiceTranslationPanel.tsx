@@ -0,0 +1,261 @@
+import React, { useState, useContext } from 'react';
+import { TranslationEntry } from '../../types';
+import Spinner from '../../components/Spinner';
+import Dropzone from '../../components/Dropzone';
+import { IconDownload, IconMicrophone, IconUpload } from '../../components/Icons';
+import RequestStatus from './RequestStatus';
+import { Label, Select, Button, CancelButton } from './Controls';
+import SendToMenu from './SendToMenu';
+import { TranslationOptions, languages, transcribeSpeech, translateText, optionHistoryInputs } from './translation';
+import { voiceGroups, synthesizeSpeech } from './voices';
+import { HistoryContext } from '../../context/HistoryContext';
+import { useGeminiClient } from '../../hooks/useGeminiClient';
+import { useCancellableRun } from '../../hooks/useCancellableRun';
+import { useMicrophoneRecorder } from '../../hooks/useMicrophoneRecorder';
+import { downloadUrl } from '../../utils/fileUtils';
+import { getFriendlyErrorMessage } from '../../utils/errorHandler';
+
+interface SpokenTranslation {
+    translatedText?: string;
+    speechUrl?: string;
+    error?: string;
+}
+
+interface VoiceTranslationPanelProps {
+    sourceLang: string;
+    targetLangs: string[];
+    options: TranslationOptions;
+}
+
+// Voice mode of Translation: transcribes recorded or uploaded speech, translates the transcript into
+// each target language and reads every translation aloud.
+const VoiceTranslationPanel: React.FC<VoiceTranslationPanelProps> = ({ sourceLang, targetLangs, options }) => {
+    const { addHistoryItem } = useContext(HistoryContext);
+    const { ai, requestActivity } = useGeminiClient();
+    const { startRun, cancelRun } = useCancellableRun();
+    const { isRecording, startRecording, stopRecording } = useMicrophoneRecorder();
+    const [audioFile, setAudioFile] = useState<File | null>(null);
+    const [audioUrl, setAudioUrl] = useState<string | null>(null);
+    const [voiceName, setVoiceName] = useState<string>('Adam (Deep American Male)');
+    const [transcript, setTranscript] = useState<string>('');
+    const [detectedLanguage, setDetectedLanguage] = useState<string | null>(null);
+    const [results, setResults] = useState<Record<string, SpokenTranslation>>({});
+    const [resultLangs, setResultLangs] = useState<string[]>([]);
+    const [stage, setStage] = useState<string | null>(null);
+    const [error, setError] = useState<string | null>(null);
+    const isRunning = stage !== null;
+
+    const handleFileSelect = (file: File) => {
+        setAudioFile(file);
+        setAudioUrl(URL.createObjectURL(file));
+    };
+
+    const handleRecordToggle = async () => {
+        setError(null);
+        if (isRecording) {
+            const recording = stopRecording();
+            if (recording) handleFileSelect(recording);
+            else setError('Nothing was recorded. Check that your microphone is working.');
+            return;
+        }
+        try {
+            await startRecording();
+        } catch (e: any) {
+            setError(getFriendlyErrorMessage(e));
+            console.error(e);
+        }
+    };
+
+    const updateResult = (targetLang: string, update: Partial<SpokenTranslation>) => {
+        setResults(current => ({ ...current, [targetLang]: { ...current[targetLang], ...update } }));
+    };
+
+    const historyInputs = (text: string, targetLang: string): TranslationEntry['inputs'] => ({
+        text,
+        sourceLanguage: sourceLang,
+        targetLanguage: targetLang,
+        sourceAudio: audioFile!,
+        voice: voiceName,
+        ...optionHistoryInputs(options, text, targetLang),
+    });
+
+    // A cancelled run keeps the transcript and any translation that finished before the cancel.
+    const saveCancelled = (text: string, targetLang: string, translatedText?: string) => {
+        addHistoryItem({
+            id: `${Date.now()}-${targetLang}`,
+            feature: 'Translation',
+            timestamp: Date.now(),
+            inputs: historyInputs(text, targetLang),
+            outputs: translatedText ? { translatedText } : {},
+            status: 'cancelled'
+        });
+    };
+
+    const translateAndSpeak = async (text: string, fromLang: string, targetLang: string, detected: string | undefined, signal: AbortSignal) => {
+        let translatedText: string | undefined;
+        try {
+            ({ translatedText } = await translateText(ai, text, fromLang, targetLang, options, signal));
+            updateResult(targetLang, { translatedText });
+            const speech = await synthesizeSpeech(ai, translatedText, voiceName, signal);
+            updateResult(targetLang, { speechUrl: URL.createObjectURL(speech) });
+
+            addHistoryItem({
+                id: `${Date.now()}-${targetLang}`,
+                feature: 'Translation',
+                timestamp: Date.now(),
+                inputs: historyInputs(text, targetLang),
+                outputs: {
+                    translatedText,
+                    speech,
+                    ...(detected ? { detectedLanguage: detected } : {}),
+                },
+            });
+        } catch (e: any) {
+            if (signal.aborted) {
+                saveCancelled(text, targetLang, translatedText);
+            } else {
+                updateResult(targetLang, { error: getFriendlyErrorMessage(e) });
+                console.error(e);
+            }
+        }
+    };
+
+    const handleTranslate = async () => {
+        if (!audioFile) {
+            setError('Please record or upload some speech first.');
+            return;
+        }
+        if (targetLangs.length === 0) {
+            setError('Please choose at least one target language.');
+            return;
+        }
+        if (targetLangs.includes(sourceLang)) {
+            setError('Source and target languages cannot be the same.');
+            return;
+        }
+        setError(null);
+        setTranscript('');
+        setDetectedLanguage(null);
+        setResults({});
+        setResultLangs(targetLangs);
+        const signal = startRun();
+
+        try {
+            setStage('Transcribing...');
+            const transcription = await transcribeSpeech(ai, audioFile, sourceLang, signal);
+            setTranscript(transcription.transcript);
+            if (transcription.detectedLanguage) setDetectedLanguage(transcription.detectedLanguage);
+            // A recognized language makes a better source than asking the translation to detect it again.
+            const fromLang = languages.includes(transcription.detectedLanguage ?? '') ? transcription.detectedLanguage! : sourceLang;
+
+            setStage('Translating and speaking...');
+            await Promise.all(targetLangs.map(targetLang => translateAndSpeak(transcription.transcript, fromLang, targetLang, transcription.detectedLanguage, signal)));
+        } catch (e: any) {
+            // Only the transcription can end up here; cancelled translations are saved by translateAndSpeak.
+            if (signal.aborted) {
+                targetLangs.forEach(targetLang => saveCancelled('', targetLang));
+            } else {
+                setError(getFriendlyErrorMessage(e));
+                console.error(e);
+            }
+        } finally {
+            setStage(null);
+        }
+    };
+
+    return (
+        <div className="space-y-6">
+            <div className="p-4 bg-gray-900/50 rounded-lg space-y-4">
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4 items-start">
+                    <div className="space-y-2">
+                        <Label htmlFor="voice-record">Speak</Label>
+                        <button
+                            id="voice-record"
+                            onClick={handleRecordToggle}
+                            disabled={isRunning}
+                            className={`w-full flex items-center justify-center gap-2 py-3 rounded-md font-medium transition disabled:opacity-50 ${isRecording ? 'bg-red-600 hover:bg-red-700' : 'bg-green-600 hover:bg-green-700'}`}
+                        >
+                            <IconMicrophone />
+                            {isRecording ? 'Stop Recording' : 'Start Recording'}
+                        </button>
+                        {isRecording && <p className="text-green-400 animate-pulse">Recording...</p>}
+                    </div>
+                    <div className="space-y-2">
+                        <Label htmlFor="voice-upload">Or upload speech</Label>
+                        <Dropzone onFileSelect={handleFileSelect} accept="audio/*">
+                            <div id="voice-upload" className="flex flex-col items-center justify-center text-gray-400">
+                                <IconUpload />
+                                <p className="mt-2 text-sm">Drag & drop an audio file, or click to select one</p>
+                            </div>
+                        </Dropzone>
+                    </div>
+                </div>
+                {audioUrl && <audio src={audioUrl} controls className="w-full" />}
+                <div>
+                    <Label htmlFor="voice-select">Voice for the translation</Label>
+                    <Select id="voice-select" value={voiceName} onChange={(e) => setVoiceName(e.target.value)} disabled={isRunning}>
+                        {Object.entries(voiceGroups).map(([groupName, voices]) => (
+                            <optgroup key={groupName} label={groupName}>
+                                {voices.map(v => (
+                                    <option key={v.name} value={v.name}>{v.name}</option>
+                                ))}
+                            </optgroup>
+                        ))}
+                    </Select>
+                </div>
+            </div>
+
+            <div className="flex flex-wrap gap-4 items-center">
+                <Button onClick={handleTranslate} disabled={isRunning || isRecording || !audioFile}>
+                    {isRunning ? <><Spinner className="w-5 h-5 mr-2" /> {stage}</> : 'Translate Speech'}
+                </Button>
+                {isRunning && <CancelButton onClick={cancelRun} />}
+            </div>
+
+            <RequestStatus activity={requestActivity} />
+            {error && <div className="text-red-400 bg-red-900/50 p-3 rounded-md">{error}</div>}
+
+            {transcript && (
+                <div className="bg-gray-900/50 p-4 rounded-lg space-y-2">
+                    <div className="flex justify-between items-center gap-2">
+                        <h3 className="font-semibold text-gray-200">Transcript{detectedLanguage && <span className="ml-2 text-sm font-normal text-gray-400">Detected: {detectedLanguage}</span>}</h3>
+                        <SendToMenu source="Translation" kind="text" value={transcript} />
+                    </div>
+                    <p className="text-gray-300 whitespace-pre-wrap">{transcript}</p>
+                </div>
+            )}
+            {transcript && resultLangs.length > 0 && (
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                    {resultLangs.map(targetLang => {
+                        const result = results[targetLang];
+                        return (
+                            <div key={targetLang} className="bg-gray-900/50 p-4 rounded-lg space-y-2">
+                                <div className="flex justify-between items-center gap-2">
+                                    <h3 className="font-semibold text-gray-200">{targetLang}</h3>
+                                    {result?.speechUrl && (
+                                        <div className="flex items-center gap-2">
+                                            <SendToMenu source="Translation" kind="audio" value={result.speechUrl} name={`translation-${targetLang.toLowerCase()}`} />
+                                            <button
+                                                onClick={() => downloadUrl(result.speechUrl!, `translation-${targetLang.toLowerCase()}.wav`)}
+                                                className="flex items-center gap-2 px-3 py-1 bg-gray-700 hover:bg-gray-600 rounded-md text-sm"
+                                            >
+                                                <IconDownload /> Download
+                                            </button>
+                                        </div>
+                                    )}
+                                </div>
+                                {!result?.translatedText && !result?.error && isRunning && <Spinner className="w-5 h-5" />}
+                                {result?.translatedText && <p className="text-gray-300 whitespace-pre-wrap">{result.translatedText}</p>}
+                                {result?.translatedText && !result.speechUrl && !result.error && isRunning && <p className="text-sm text-blue-300">Generating speech...</p>}
+                                {result?.speechUrl && <audio src={result.speechUrl} controls className="w-full" />}
+                                {result?.error && <p className="text-sm text-red-400">{result.error}</p>}
+                            </div>
+                        );
+                    })}
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default VoiceTranslationPanel;
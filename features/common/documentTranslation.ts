@@ -0,0 +1,246 @@
+import { Type } from '@google/genai';
+import { GeminiClient } from '../../services/geminiClient';
+import { TranslationOptions, buildSegmentTranslationPrompt, findLanguage } from './translation';
+
+export type DocumentFormat = 'text' | 'markdown' | 'subtitles' | 'json';
+
+// A document split into the strings to translate and the structure around them.
+export interface TranslatableDocument {
+    format: DocumentFormat;
+    segments: string[];
+    rebuild: (translations: string[]) => string;
+}
+
+export interface DocumentTranslation {
+    content: string;
+    // Segments whose placeholders changed in translation.
+    warnings: string[];
+}
+
+export const DOCUMENT_EXTENSIONS = ['.txt', '.md', '.markdown', '.srt', '.vtt', '.json'];
+
+const FORMAT_DESCRIPTIONS: Record<DocumentFormat, string> = {
+    text: 'paragraphs of a plain text document',
+    markdown: 'blocks of a Markdown document',
+    subtitles: 'subtitle cues; keep each cue about as long as the original so it fits its timing',
+    json: 'values of an i18n resource file',
+};
+
+// Upper bounds for the segments sent in one request.
+const MAX_CHUNK_CHARACTERS = 6000;
+const MAX_CHUNK_SEGMENTS = 100;
+
+const PLACEHOLDER_PATTERN = /\{\{[^{}]*\}\}|\{[^{}]*\}|\$\{[^{}]*\}|%\d+\$[a-z@]|%(?:\(\w+\))?[-+ 0#]*\d*(?:\.\d+)?[sdifuxXeEgGc@]|<\/?[a-zA-Z][^<>]*>/g;
+
+const placeholders = (text: string): string => (text.match(PLACEHOLDER_PATTERN) ?? []).sort().join(' ');
+
+export const documentFormat = (fileName: string): DocumentFormat | null => {
+    const name = fileName.toLowerCase();
+    if (name.endsWith('.txt')) return 'text';
+    if (name.endsWith('.md') || name.endsWith('.markdown')) return 'markdown';
+    if (name.endsWith('.srt') || name.endsWith('.vtt')) return 'subtitles';
+    if (name.endsWith('.json')) return 'json';
+    return null;
+};
+
+// "strings.json" translated to Hindi becomes "strings.hi.json".
+export const translatedFileName = (fileName: string, targetLang: string): string => {
+    const language = findLanguage(targetLang)?.code ?? targetLang.toLowerCase().replace(/\s+/g, '-');
+    return /\.\w+$/.test(fileName) ? fileName.replace(/(\.\w+)$/, `.${language}$1`) : `${fileName}.${language}`;
+};
+
+const MIME_TYPES: Record<DocumentFormat, string> = {
+    text: 'text/plain',
+    markdown: 'text/markdown',
+    subtitles: 'text/plain',
+    json: 'application/json',
+};
+
+export const documentMimeType = (fileName: string): string => MIME_TYPES[documentFormat(fileName) ?? 'text'];
+
+// Lines are grouped into pieces that are either kept verbatim or translated; joining the pieces
+// with newlines restores the original layout.
+type Piece = string | { segment: number };
+
+const fromPieces = (format: DocumentFormat, pieces: Piece[], segments: string[]): TranslatableDocument => ({
+    format,
+    segments,
+    rebuild: (translations) => pieces.map(piece => typeof piece === 'string' ? piece : translations[piece.segment]).join('\n'),
+});
+
+// Paragraphs separated by blank lines are translated; Markdown code fences are kept verbatim.
+const parseParagraphs = (text: string, format: 'text' | 'markdown'): TranslatableDocument => {
+    const pieces: Piece[] = [];
+    const segments: string[] = [];
+    let paragraph: string[] = [];
+    let fence: string[] | null = null;
+
+    const flush = () => {
+        if (paragraph.length === 0) return;
+        pieces.push({ segment: segments.length });
+        segments.push(paragraph.join('\n'));
+        paragraph = [];
+    };
+
+    for (const line of text.split('\n')) {
+        const isFenceLine = format === 'markdown' && /^\s*(```|~~~)/.test(line);
+        if (fence) {
+            fence.push(line);
+            if (isFenceLine) {
+                pieces.push(fence.join('\n'));
+                fence = null;
+            }
+        } else if (isFenceLine) {
+            flush();
+            fence = [line];
+        } else if (!line.trim()) {
+            flush();
+            pieces.push(line);
+        } else {
+            paragraph.push(line);
+        }
+    }
+    flush();
+    if (fence) pieces.push(fence.join('\n'));
+    return fromPieces(format, pieces, segments);
+};
+
+// SRT and WebVTT: only cue text is translated; numbers, timings, headers and notes are kept.
+const parseSubtitles = (text: string): TranslatableDocument => {
+    const pieces: Piece[] = [];
+    const segments: string[] = [];
+    const trailing = text.match(/\n\s*$/)?.[0] ?? '';
+    const body = text.slice(0, text.length - trailing.length);
+    const blocks = body.split(/\n(?:[ \t]*\n)+/);
+    const separators = body.match(/\n(?:[ \t]*\n)+/g) ?? [];
+
+    blocks.forEach((block, index) => {
+        const lines = block.split('\n');
+        const timing = lines.findIndex(line => line.includes('-->'));
+        const cueText = timing === -1 ? '' : lines.slice(timing + 1).join('\n');
+        if (!cueText.trim()) {
+            pieces.push(block);
+        } else {
+            pieces.push(lines.slice(0, timing + 1).join('\n'));
+            pieces.push({ segment: segments.length });
+            segments.push(cueText);
+        }
+        // The separator's first newline is supplied by the join.
+        if (index < separators.length) pieces.push(separators[index].slice(1, -1));
+    });
+    if (trailing) pieces.push(trailing.slice(1));
+    return fromPieces('subtitles', pieces, segments);
+};
+
+// i18n resources: every string value is translated; keys, nesting and other values are kept.
+const parseJson = (text: string): TranslatableDocument => {
+    let data: unknown;
+    try {
+        data = JSON.parse(text);
+    } catch (e: any) {
+        throw new Error(`The JSON file could not be read: ${e?.message || e}`);
+    }
+    const segments: string[] = [];
+    const collect = (value: unknown) => {
+        if (typeof value === 'string') segments.push(value);
+        else if (Array.isArray(value)) value.forEach(collect);
+        else if (value && typeof value === 'object') Object.values(value).forEach(collect);
+    };
+    collect(data);
+
+    const indent = text.match(/\n([ \t]+)["\[{]/)?.[1] ?? 2;
+    return {
+        format: 'json',
+        segments,
+        rebuild: (translations) => {
+            let next = 0;
+            const replace = (value: unknown): unknown => {
+                if (typeof value === 'string') return translations[next++];
+                if (Array.isArray(value)) return value.map(replace);
+                if (value && typeof value === 'object') {
+                    return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, replace(item)]));
+                }
+                return value;
+            };
+            return JSON.stringify(replace(data), null, indent) + (text.endsWith('\n') ? '\n' : '');
+        },
+    };
+};
+
+export const parseDocument = (fileName: string, text: string): TranslatableDocument => {
+    const format = documentFormat(fileName);
+    const normalized = text.replace(/^\uFEFF/, '').replace(/\r\n?/g, '\n');
+    switch (format) {
+        case 'text':
+        case 'markdown':
+            return parseParagraphs(normalized, format);
+        case 'subtitles':
+            return parseSubtitles(normalized);
+        case 'json':
+            return parseJson(normalized);
+        default:
+            throw new Error(`${fileName} is not a supported file. Upload one of ${DOCUMENT_EXTENSIONS.join(', ')}.`);
+    }
+};
+
+// Groups segments into requests of bounded size, keeping their order.
+export const chunkSegments = (segments: string[]): string[][] => {
+    const chunks: string[][] = [];
+    let chunk: string[] = [];
+    let size = 0;
+    for (const segment of segments) {
+        if (chunk.length > 0 && (size + segment.length > MAX_CHUNK_CHARACTERS || chunk.length >= MAX_CHUNK_SEGMENTS)) {
+            chunks.push(chunk);
+            chunk = [];
+            size = 0;
+        }
+        chunk.push(segment);
+        size += segment.length;
+    }
+    if (chunk.length > 0) chunks.push(chunk);
+    return chunks;
+};
+
+// Translates a document chunk by chunk and reassembles it. `onProgress` receives the number of
+// finished chunks and the total.
+export const translateDocument = async (
+    ai: GeminiClient,
+    document: TranslatableDocument,
+    sourceLang: string,
+    targetLang: string,
+    options: TranslationOptions,
+    signal: AbortSignal,
+    onProgress?: (done: number, total: number) => void,
+): Promise<DocumentTranslation> => {
+    const chunks = chunkSegments(document.segments);
+    let done = 0;
+    onProgress?.(done, chunks.length);
+
+    // All chunks are queued at once; the request scheduler limits how many run concurrently.
+    const translatedChunks = await Promise.all(chunks.map(async (chunk, index) => {
+        const response = await ai.models.generateContent({
+            model: 'gemini-2.5-flash',
+            contents: buildSegmentTranslationPrompt(chunk, sourceLang, targetLang, FORMAT_DESCRIPTIONS[document.format], options),
+            config: {
+                responseMimeType: 'application/json',
+                responseSchema: { type: Type.ARRAY, items: { type: Type.STRING } },
+                abortSignal: signal,
+            },
+        });
+        const translated: unknown = JSON.parse(response.text);
+        if (!Array.isArray(translated) || translated.length !== chunk.length) {
+            throw new Error(`Part ${index + 1} of the translation did not match the original; please try again.`);
+        }
+        onProgress?.(++done, chunks.length);
+        return translated.map(String);
+    }));
+
+    // Models tend to add trailing newlines, which would break the layout; JSON values are kept exact.
+    const translations = translatedChunks.flat().map(translation => document.format === 'json' ? translation : translation.trimEnd());
+    const warnings = document.segments.flatMap((segment, index) => {
+        return placeholders(segment) === placeholders(translations[index])
+            ? []
+            : [`Placeholders changed in "${segment.length > 60 ? `${segment.slice(0, 60)}…` : segment}".`];
+    });
+    return { content: document.rebuild(translations), warnings };
+};
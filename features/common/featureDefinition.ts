@@ -0,0 +1,48 @@
+import React from 'react';
+import { Feature, HistoryFeature, HistoryItemOf, SendableKind } from '../../types';
+
+// How a saved input or output value is displayed in History.
+export type HistoryFieldKind = 'text' | 'markdown' | 'url' | 'image' | 'images' | 'video' | 'audio' | 'transcript';
+
+export interface HistoryField {
+    kind: HistoryFieldKind;
+    label?: string;
+    // Appended to the entry's file name when the value is downloaded, e.g. '-edited.mp4'.
+    fileSuffix?: string;
+    downloadLabel?: string;
+}
+
+// The inputs or outputs a feature saves to History; features that save nothing have none.
+type EntryFields<F extends Feature, Part extends 'inputs' | 'outputs'> = F extends HistoryFeature ? HistoryItemOf<F>[Part] : {};
+
+// Keys a feature saves in `HistoryItem.inputs` / `outputs`, taken from its entry type so a misspelled key
+// fails to compile. Inputs missing from the schema render as text; outputs missing from it are not shown.
+export type HistorySchema<T> = { [K in keyof T]?: HistoryField };
+
+export interface HistoryRendererProps<F extends Feature = HistoryFeature> {
+    item: HistoryItemOf<F>;
+    definition: FeatureDefinition<F>;
+}
+
+export interface FeatureDefinition<F extends Feature = Feature> {
+    name: F;
+    // Hash route segment, e.g. 'image-generation' for `#/image-generation`.
+    route: string;
+    icon: React.FC;
+    // One-line summary shown as the nav tooltip.
+    description: string;
+    component: React.LazyExoticComponent<React.ComponentType>;
+    inputSchema: HistorySchema<EntryFields<F, 'inputs'>>;
+    outputSchema: HistorySchema<EntryFields<F, 'outputs'>>;
+    // Custom History view for the feature's entries; defaults to inputs and outputs side by side.
+    historyRenderer?: React.FC<HistoryRendererProps<F>>;
+    // Set when the component restores a History entry's inputs from the `from` route parameter
+    // (see useHistoryRestore), enabling History's Re-run actions.
+    supportsRerun?: boolean;
+    // Kinds of output other features can "Send to" this one, each with what it does here,
+    // e.g. `{ image: 'Use as start frame' }`. The component accepts them with useReceivedAsset.
+    receives?: Partial<Record<SendableKind, string>>;
+}
+
+// Any one feature's definition, as listed in the registry.
+export type AnyFeatureDefinition = { [F in Feature]: FeatureDefinition<F> }[Feature];
@@ -0,0 +1,98 @@
+import { Modality, Part } from '@google/genai';
+import { AspectRatio } from '../../types';
+import { GeminiClient } from '../../services/geminiClient';
+import { fileToBase64 } from '../../utils/fileUtils';
+
+export const aspectRatios: AspectRatio[] = ["1:1", "16:9", "9:16", "4:3", "3:4"];
+export const qualityOptions = ['720p', '1080p', '2K', '4K', '8K'];
+
+export const styles = [
+    "No Style", "Realistic", "Hyper-realistic", "Cinematic", "Epic", "Fantasy",
+    "Anime", "Cartoon", "Surreal", "Cyberpunk", "Steampunk", "Concept Art",
+    "Digital Art", "Oil Painting", "Watercolor", "Minimalist", "Retro",
+    "Futuristic", "Dark Art", "Portrait", "Landscape", "Nature Documentary", "Abstract", "Vaporwave"
+];
+
+export const imageModels = [
+    { name: 'ImageFX', value: 'imagen-4.0-generate-001', isGeminiNative: true, note: 'High Quality (Imagen 4)' },
+    { name: 'Nano Banana', value: 'gemini-2.5-flash-image', isGeminiNative: true, note: 'Fast, Supports Image & Text' },
+    { name: 'DALL·E', value: 'dalle', isGeminiNative: false, note: 'Not Available' },
+    { name: 'MidJourney', value: 'midjourney', isGeminiNative: false, note: 'Not Available' },
+    { name: 'Stable Diffusion', value: 'stable-diffusion', isGeminiNative: false, note: 'Not Available' },
+    { name: 'Seedream', value: 'seedream', isGeminiNative: false, note: 'Not Available' },
+];
+
+export interface ImageRequest {
+    prompt: string;
+    // Model value, e.g. 'imagen-4.0-generate-001'.
+    model: string;
+    style: string;
+    aspectRatio: AspectRatio;
+    numImages: number;
+    // Only applied to text-to-image requests.
+    quality?: string;
+    // Base image for Image & Text requests (Nano Banana only).
+    image?: File | null;
+}
+
+// Generates images through the Imagen or Nano Banana path and returns them as data URLs.
+// `onImage` is called as each image arrives.
+export const generateImages = async (ai: GeminiClient, request: ImageRequest, signal: AbortSignal, onImage?: (image: string) => void): Promise<string[]> => {
+    const { prompt, model, style, aspectRatio, numImages, quality, image } = request;
+    let basePrompt = style === 'No Style' ? prompt : `${style} style, ${prompt}`;
+    if (quality) {
+        basePrompt += `, ${quality}, ultra high resolution, cinematic quality, sharp focus`;
+    }
+    const effectivePrompt = basePrompt + `, in a ${aspectRatio} aspect ratio`;
+
+    if (model === 'imagen-4.0-generate-001') {
+        const response = await ai.models.generateImages({
+            model: 'imagen-4.0-generate-001',
+            prompt: effectivePrompt,
+            config: {
+                numberOfImages: numImages,
+                outputMimeType: 'image/jpeg',
+                aspectRatio: aspectRatio,
+                abortSignal: signal,
+            },
+        });
+
+        const images = response.generatedImages.map(
+            (img) => `data:image/jpeg;base64,${img.image.imageBytes}`
+        );
+        images.forEach(generated => onImage?.(generated));
+        return images;
+    }
+
+    // gemini-2.5-flash-image
+    const baseParts: Part[] = [{ text: effectivePrompt }];
+    if (image) {
+        const base64Data = await fileToBase64(image);
+        baseParts.unshift({ inlineData: { data: base64Data, mimeType: image.type } });
+    }
+
+    const generateSingleImage = async (): Promise<string> => {
+        const response = await ai.models.generateContent({
+            model: 'gemini-2.5-flash-image',
+            contents: { parts: baseParts },
+            config: {
+                responseModalities: [Modality.IMAGE],
+                abortSignal: signal,
+            },
+        });
+        const part = response.candidates?.[0]?.content?.parts?.[0];
+        if (part?.inlineData) {
+            const base64ImageBytes = part.inlineData.data;
+            return `data:${part.inlineData.mimeType};base64,${base64ImageBytes}`;
+        } else {
+            throw new Error("No image was returned from the API for one of the requests.");
+        }
+    };
+
+    // All requests are queued at once; the request scheduler limits how many run concurrently.
+    return Promise.all(Array.from({ length: numImages }, async () => {
+        const newImage = await generateSingleImage();
+        onImage?.(newImage);
+        return newImage;
+    }));
+};
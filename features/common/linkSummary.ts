@@ -0,0 +1,280 @@
+import { GenerateContentResponse, UrlRetrievalStatus } from '@google/genai';
+import { LinkSource } from '../../types';
+import { GeminiChat, GeminiClient } from '../../services/geminiClient';
+import { fetchThroughProxy, loadLinkFetchProxy } from '../../services/linkFetcher';
+import { extractReadableContent } from '../../utils/readableContent';
+import {
+    ORIGINAL_LANGUAGE,
+    STRUCTURED_SUMMARY_SCHEMA,
+    StructuredSummary,
+    SummaryFormat,
+    SummarySettings,
+    effectiveFormat,
+    parseStructuredSummary,
+    summaryInstructions,
+    summaryToMarkdown,
+} from './summaryFormats';
+
+// Longer pages are cut to this many characters before they are sent to the model.
+export const MAX_CONTENT_CHARS = 60000;
+const EXCERPT_CHARS = 280;
+
+export interface LinkSummary {
+    // Markdown, as used in digests and saved to History.
+    summary: string;
+    structured: StructuredSummary;
+    // The format actually written; Chapters falls back to Outline for pages.
+    format: SummaryFormat;
+    source: LinkSource;
+    // The extracted text sent to the model; only set for pages fetched through the proxy.
+    content?: string;
+    truncated?: boolean;
+}
+
+// What was read behind a link, before it is summarized.
+interface RetrievedContent {
+    source: LinkSource;
+    // The page's extracted text, or the model's notes on content only the model can read.
+    material: string;
+    content?: string;
+    truncated?: boolean;
+}
+
+export const RETRIEVAL_METHOD_LABELS: Record<LinkSource['method'], string> = {
+    'url-context': 'Gemini URL context',
+    youtube: 'YouTube video',
+    proxy: 'Fetch proxy',
+};
+
+export const isYouTubeUrl = (url: string): boolean => {
+    try {
+        const { hostname } = new URL(url);
+        return /(^|\.)youtube\.com$/.test(hostname) || hostname === 'youtu.be';
+    } catch {
+        return false;
+    }
+};
+
+const excerptOf = (text: string): string | undefined => {
+    const normalized = text.replace(/\s+/g, ' ').trim();
+    if (!normalized) return undefined;
+    return normalized.length > EXCERPT_CHARS ? `${normalized.slice(0, EXCERPT_CHARS)}…` : normalized;
+};
+
+const countWords = (text: string): number => text.split(/\s+/).filter(Boolean).length;
+
+// Asked of the model when it reads the content itself, so the reply says what it actually read. Its notes
+// are then summarized like fetched text, since the URL context tool cannot be combined with JSON output.
+const sourceHeaderInstructions = (body: string): string => [
+    'Start your reply with these four lines, leaving a value empty when the content does not give it:',
+    'Title: <the title>',
+    'Author: <the author, or the channel for a video>',
+    'Published: <the publication date>',
+    'Excerpt: <the first one or two sentences of the main content, quoted exactly>',
+    `Then write a line containing only ---, followed by ${body}`,
+].join('\n');
+
+const NOTES_INSTRUCTION = 'detailed notes on the content: every main point, fact, figure, name and recommendation, in the order they appear.';
+const VIDEO_NOTES_INSTRUCTION = 'detailed notes on the video: every main point, fact, figure, name and recommendation, in the order they appear, each starting with its timestamp as [M:SS].';
+
+const HEADER_FIELDS: Record<string, keyof LinkSource> = { title: 'title', author: 'byline', published: 'publishedAt', excerpt: 'excerpt' };
+
+// Splits a reply written to sourceHeaderInstructions into the source details and the summary.
+export const parseSourceHeader = (reply: string): { details: Partial<LinkSource>; summary: string } => {
+    const separator = reply.match(/^\s*---\s*$/m);
+    if (!separator || separator.index === undefined) return { details: {}, summary: reply.trim() };
+    const details: Partial<LinkSource> = {};
+    let isHeader = false;
+    for (const line of reply.slice(0, separator.index).split('\n')) {
+        const match = line.match(/^\W*(title|author|published|excerpt)\W*:\s*(.*)$/i);
+        if (!match) continue;
+        isHeader = true;
+        const value = match[2].trim().replace(/^"(.*)"$/, '$1');
+        if (value) (details as Record<string, string>)[HEADER_FIELDS[match[1].toLowerCase()]] = value;
+    }
+    // A reply without the header may still use --- as a Markdown rule.
+    if (!isHeader) return { details: {}, summary: reply.trim() };
+    return { details, summary: reply.slice(separator.index + separator[0].length).trim() };
+};
+
+const RETRIEVAL_FAILURES: Partial<Record<UrlRetrievalStatus, string>> = {
+    [UrlRetrievalStatus.URL_RETRIEVAL_STATUS_PAYWALL]: 'is behind a paywall',
+    [UrlRetrievalStatus.URL_RETRIEVAL_STATUS_UNSAFE]: 'was flagged as unsafe',
+};
+
+// The URL context tool reports per URL whether it could be read; a summary without a successful
+// retrieval would be written from the address alone, so it is rejected.
+const checkUrlRetrieval = (response: GenerateContentResponse, url: string): string => {
+    const metadata = response.candidates?.[0]?.urlContextMetadata?.urlMetadata ?? [];
+    const retrieved = metadata.find(entry => entry.urlRetrievalStatus === UrlRetrievalStatus.URL_RETRIEVAL_STATUS_SUCCESS);
+    if (retrieved) return retrieved.retrievedUrl || url;
+    const reason = metadata.map(entry => entry.urlRetrievalStatus && RETRIEVAL_FAILURES[entry.urlRetrievalStatus]).find(Boolean);
+    throw new Error(reason
+        ? `The page at ${url} ${reason}, so its content could not be retrieved.`
+        : `The content at ${url} could not be retrieved. Check that the page is public, or set LINK_FETCH_PROXY to fetch pages through a local proxy.`);
+};
+
+const readWithUrlContext = async (ai: GeminiClient, url: string, signal?: AbortSignal): Promise<RetrievedContent> => {
+    const response = await ai.models.generateContent({
+        model: 'gemini-2.5-flash',
+        contents: `Read the page at ${url} and take notes on it. Base them only on the page's content.\n${sourceHeaderInstructions(NOTES_INSTRUCTION)}`,
+        config: { tools: [{ urlContext: {} }], abortSignal: signal },
+    });
+    const retrievedUrl = checkUrlRetrieval(response, url);
+    const { details, summary: notes } = parseSourceHeader(response.text ?? '');
+    if (!notes) throw new Error('The page was retrieved, but nothing could be read from it; please try again.');
+    return { source: { method: 'url-context', url: retrievedUrl, ...details }, material: notes };
+};
+
+const readYouTubeVideo = async (ai: GeminiClient, url: string, signal?: AbortSignal): Promise<RetrievedContent> => {
+    const response = await ai.models.generateContent({
+        model: 'gemini-2.5-flash',
+        contents: {
+            parts: [
+                { fileData: { fileUri: url, mimeType: 'video/*' } },
+                { text: `Watch this video. For the excerpt, quote its opening words.\n${sourceHeaderInstructions(VIDEO_NOTES_INSTRUCTION)}` },
+            ],
+        },
+        config: { abortSignal: signal },
+    });
+    const { details, summary: notes } = parseSourceHeader(response.text ?? '');
+    if (!notes) throw new Error('The video could not be read. Check that it is public and not age-restricted.');
+    return { source: { method: 'youtube', url, ...details }, material: notes };
+};
+
+const fetchPage = async (proxy: string, url: string, signal?: AbortSignal): Promise<RetrievedContent> => {
+    const page = await fetchThroughProxy(proxy, url, signal);
+    const readable = /html|xml/.test(page.contentType) || /^\s*</.test(page.body)
+        ? extractReadableContent(page.body)
+        : { text: page.body.trim() };
+    if (!readable.text) {
+        throw new Error(`The page at ${url} has no readable text. It may need JavaScript to show its content, which the fetch proxy cannot run.`);
+    }
+    const truncated = readable.text.length > MAX_CONTENT_CHARS;
+    const content = truncated ? readable.text.slice(0, MAX_CONTENT_CHARS) : readable.text;
+    const metadata = [
+        readable.title && `Title: ${readable.title}`,
+        readable.byline && `Author: ${readable.byline}`,
+        readable.siteName && `Site: ${readable.siteName}`,
+        readable.publishedAt && `Published: ${readable.publishedAt}`,
+    ].filter(Boolean);
+
+    return {
+        material: [...metadata, '', content].join('\n').trim(),
+        source: {
+            method: 'proxy',
+            url,
+            title: readable.title,
+            byline: readable.byline,
+            siteName: readable.siteName,
+            publishedAt: readable.publishedAt,
+            excerpt: excerptOf(content),
+            wordCount: countWords(content),
+        },
+        content,
+        truncated,
+    };
+};
+
+// YouTube videos are passed to the model as video; other pages go through LINK_FETCH_PROXY when it is
+// set and the URL context tool otherwise.
+const retrieveContent = async (ai: GeminiClient, url: string, signal?: AbortSignal): Promise<RetrievedContent> => {
+    if (isYouTubeUrl(url)) return readYouTubeVideo(ai, url, signal);
+    const proxy = loadLinkFetchProxy();
+    return proxy ? fetchPage(proxy, url, signal) : readWithUrlContext(ai, url, signal);
+};
+
+// Retrieves the content behind a link and summarizes it in the chosen format, length and language.
+export const summarizeLink = async (ai: GeminiClient, url: string, settings: SummarySettings, signal?: AbortSignal): Promise<LinkSummary> => {
+    const retrieved = await retrieveContent(ai, url, signal);
+    const format = effectiveFormat(settings.format, retrieved.source.method === 'youtube');
+    const response = await ai.models.generateContent({
+        model: 'gemini-2.5-flash',
+        contents: [
+            `Summarize the following ${retrieved.source.method === 'proxy' ? 'content' : 'notes on the content'} from ${url}. Base the summary only on them.`,
+            summaryInstructions({ ...settings, format }),
+            '',
+            retrieved.material,
+        ].join('\n'),
+        config: { responseMimeType: 'application/json', responseSchema: STRUCTURED_SUMMARY_SCHEMA, abortSignal: signal },
+    });
+    const structured = parseStructuredSummary(response.text ?? '');
+    return {
+        summary: summaryToMarkdown(structured, format),
+        structured,
+        format,
+        source: retrieved.source,
+        content: retrieved.content,
+        truncated: retrieved.truncated,
+    };
+};
+
+// More links make the digest and the follow-up chat's context unwieldy.
+export const MAX_LINKS = 10;
+
+// Links pasted one per line (or separated by spaces), without duplicates.
+export const parseLinks = (text: string): { links: string[]; invalid: string[] } => {
+    const candidates = [...new Set(text.split(/\s+/).map(value => value.trim()).filter(Boolean))];
+    const isValid = (value: string) => {
+        try {
+            return /^https?:$/.test(new URL(value).protocol);
+        } catch {
+            return false;
+        }
+    };
+    return { links: candidates.filter(isValid), invalid: candidates.filter(value => !isValid(value)) };
+};
+
+// A link whose content was retrieved, with its position in the pasted list; citations use that number.
+export interface NumberedSource {
+    number: number;
+    summary: LinkSummary;
+}
+
+const describeSource = ({ number, summary: { source } }: NumberedSource): string => {
+    return `[${number}] ${source.title ? `${source.title} (${source.url})` : source.url}`;
+};
+
+// Combines the per-link summaries into one digest that cites each claim by source number.
+export const createDigest = async (ai: GeminiClient, sources: NumberedSource[], language: string, signal?: AbortSignal): Promise<string> => {
+    const response = await ai.models.generateContent({
+        model: 'gemini-2.5-flash',
+        contents: [
+            `Write a combined Markdown digest of the following ${sources.length} sources, based only on their summaries.`,
+            'Bring out the main themes, where the sources agree, where they differ or contradict each other, and what each one adds.',
+            'Cite the sources inline by their numbers in square brackets, such as [1] or [2][3], after every claim. Do not add a list of sources at the end.',
+            ...(language === ORIGINAL_LANGUAGE ? [] : [`Write in ${language}.`]),
+            '',
+            ...sources.flatMap(source => [describeSource(source), source.summary.summary, '']),
+        ].join('\n'),
+        config: { abortSignal: signal },
+    });
+    const digest = (response.text ?? '').trim();
+    if (!digest) throw new Error('The digest could not be written; please try again.');
+    // Not an ordered list: Markdown would renumber it when a failed link leaves a gap.
+    const references = sources.map(({ number, summary: { source } }) => `- **[${number}]** [${source.title || source.url}](${source.url})`);
+    return `${digest}\n\n**Sources**\n\n${references.join('\n')}`;
+};
+
+// A chat for follow-up questions, primed with the sources: their summaries, the extracted text of
+// proxied pages and the videos themselves. Other pages can be read again with the URL context tool.
+export const createLinkChat = (ai: GeminiClient, sources: NumberedSource[]): GeminiChat => {
+    const sourceText = sources.map(numbered => {
+        const { summary, content } = numbered.summary;
+        return [describeSource(numbered), `Summary: ${summary}`, ...(content ? [`Content:\n${content}`] : [])].join('\n');
+    }).join('\n\n');
+    const videos = sources.filter(({ summary }) => summary.source.method === 'youtube')
+        .map(({ summary }) => ({ fileData: { fileUri: summary.source.url, mimeType: 'video/*' } }));
+
+    return ai.chats.create({
+        model: 'gemini-2.5-flash',
+        config: {
+            systemInstruction: 'Answer questions using only the sources the user shared. Cite them by their numbers in square brackets, such as [1]. If the sources do not answer a question, say so instead of guessing.',
+            ...(sources.some(({ summary }) => summary.source.method === 'url-context') ? { tools: [{ urlContext: {} }] } : {}),
+        },
+        history: [
+            { role: 'user', parts: [...videos, { text: `These are the sources:\n\n${sourceText}` }] },
+            { role: 'model', parts: [{ text: 'I have the sources and will answer questions about them, citing them by number.' }] },
+        ],
+    });
+};
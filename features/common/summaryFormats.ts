@@ -0,0 +1,126 @@
+import { Schema, Type } from '@google/genai';
+
+export const summaryFormats = ['TL;DR', 'Key Points', 'Outline', 'Chapters', 'Action Items', 'Thread'] as const;
+export type SummaryFormat = typeof summaryFormats[number];
+
+export const summaryLengths = ['Brief', 'Standard', 'Detailed'] as const;
+export type SummaryLength = typeof summaryLengths[number];
+
+// 'Original' keeps the language of the content.
+export const ORIGINAL_LANGUAGE = 'Original';
+
+export interface SummarySettings {
+    format: SummaryFormat;
+    length: SummaryLength;
+    language: string;
+}
+
+export const DEFAULT_SUMMARY_SETTINGS: SummarySettings = { format: 'Key Points', length: 'Standard', language: ORIGINAL_LANGUAGE };
+
+export const SUMMARY_FORMAT_LABELS: Record<SummaryFormat, string> = {
+    'TL;DR': 'TL;DR',
+    'Key Points': 'Key points',
+    Outline: 'Detailed outline',
+    Chapters: 'Chapters (videos)',
+    'Action Items': 'Action items',
+    Thread: 'Thread',
+};
+
+export interface SummarySection {
+    heading?: string;
+    // Chapters only: where the chapter starts, as M:SS or H:MM:SS.
+    timestamp?: string;
+    points: string[];
+}
+
+// The JSON every format is written in; formats differ in which parts they fill.
+export interface StructuredSummary {
+    title: string;
+    overview: string;
+    sections: SummarySection[];
+}
+
+const FORMAT_INSTRUCTIONS: Record<SummaryFormat, string> = {
+    'TL;DR': 'a TL;DR. Put the whole summary in `overview` as one short paragraph and leave `sections` empty.',
+    'Key Points': 'bullet key points. Write a one-sentence `overview` and one section without a heading whose `points` are the key points, most important first.',
+    Outline: 'a detailed outline. Write a short `overview`, then one section per topic, in the order of the content, with a `heading` and its `points`.',
+    Chapters: 'a chapter list. Write a one-sentence `overview`, then one section per chapter with its start `timestamp` (M:SS or H:MM:SS), a `heading` and one or two `points` describing it.',
+    'Action Items': 'action items. Write a one-sentence `overview`, then one section per theme with a `heading`, whose `points` are concrete actions a reader could take, each starting with a verb.',
+    Thread: 'a social media thread. Write a hook in `overview` and one section without a heading whose `points` are the posts of the thread, each under 280 characters.',
+};
+
+const LENGTH_WORDS: Record<SummaryLength, number> = { Brief: 75, Standard: 200, Detailed: 500 };
+
+// Chapters need timestamps, which only videos have; other content gets an outline instead.
+export const effectiveFormat = (format: SummaryFormat, isVideo: boolean): SummaryFormat => {
+    return format === 'Chapters' && !isVideo ? 'Outline' : format;
+};
+
+export const summaryInstructions = (settings: SummarySettings): string => [
+    `Write the summary as ${FORMAT_INSTRUCTIONS[settings.format]}`,
+    `Aim for about ${LENGTH_WORDS[settings.length]} words in total.`,
+    settings.language === ORIGINAL_LANGUAGE ? 'Write in the language of the content.' : `Write in ${settings.language}.`,
+    'Use the content\'s own title for `title`, or a short headline if it has none.',
+].join('\n');
+
+export const STRUCTURED_SUMMARY_SCHEMA: Schema = {
+    type: Type.OBJECT,
+    properties: {
+        title: { type: Type.STRING },
+        overview: { type: Type.STRING },
+        sections: {
+            type: Type.ARRAY,
+            items: {
+                type: Type.OBJECT,
+                properties: {
+                    heading: { type: Type.STRING },
+                    timestamp: { type: Type.STRING },
+                    points: { type: Type.ARRAY, items: { type: Type.STRING } },
+                },
+                required: ['points'],
+            },
+        },
+    },
+    required: ['title', 'overview', 'sections'],
+};
+
+export const parseStructuredSummary = (text: string): StructuredSummary => {
+    const parsed = JSON.parse(text) as Partial<StructuredSummary>;
+    if (typeof parsed.title !== 'string' || typeof parsed.overview !== 'string') {
+        throw new Error('The summary response was incomplete; please try again.');
+    }
+    return {
+        title: parsed.title.trim(),
+        overview: parsed.overview.trim(),
+        sections: (parsed.sections ?? []).map(section => ({
+            ...(section.heading?.trim() ? { heading: section.heading.trim() } : {}),
+            ...(section.timestamp?.trim() ? { timestamp: section.timestamp.trim() } : {}),
+            points: (section.points ?? []).map(point => point.trim()).filter(Boolean),
+        })),
+    };
+};
+
+// "1:02:03" or "4:05" in seconds, or undefined for anything else.
+export const timestampSeconds = (timestamp: string): number | undefined => {
+    if (!/^\d+(:\d{1,2}){1,2}$/.test(timestamp)) return undefined;
+    return timestamp.split(':').reduce((total, part) => total * 60 + Number(part), 0);
+};
+
+export const summaryToMarkdown = (summary: StructuredSummary, format: SummaryFormat): string => {
+    const blocks: string[] = [];
+    if (summary.title) blocks.push(`# ${summary.title}`);
+    if (summary.overview) blocks.push(summary.overview);
+    const posts = summary.sections.flatMap(section => section.points);
+    if (format === 'Thread') {
+        posts.forEach((post, index) => blocks.push(`**${index + 1}/${posts.length}** ${post}`));
+        return blocks.join('\n\n');
+    }
+    for (const section of summary.sections) {
+        const heading = [section.timestamp, section.heading].filter(Boolean).join(' – ');
+        if (heading) blocks.push(`## ${heading}`);
+        if (section.points.length > 0) {
+            blocks.push(section.points.map(point => format === 'Action Items' ? `- [ ] ${point}` : `- ${point}`).join('\n'));
+        }
+    }
+    return blocks.join('\n\n');
+};
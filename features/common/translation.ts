@@ -0,0 +1,353 @@
+import { Type } from '@google/genai';
+import { GlossaryEntry } from '../../types';
+import { GeminiClient } from '../../services/geminiClient';
+import { fileToBase64 } from '../../utils/fileUtils';
+
+export interface Language {
+    name: string;
+    // ISO 639-1 code where there is one, otherwise a BCP 47 tag.
+    code: string;
+    nativeName: string;
+}
+
+export const LANGUAGES: Language[] = [
+    { name: 'Afrikaans', code: 'af', nativeName: 'Afrikaans' },
+    { name: 'Albanian', code: 'sq', nativeName: 'Shqip' },
+    { name: 'Amharic', code: 'am', nativeName: 'አማርኛ' },
+    { name: 'Arabic', code: 'ar', nativeName: 'العربية' },
+    { name: 'Armenian', code: 'hy', nativeName: 'Հայերեն' },
+    { name: 'Assamese', code: 'as', nativeName: 'অসমীয়া' },
+    { name: 'Azerbaijani', code: 'az', nativeName: 'Azərbaycanca' },
+    { name: 'Basque', code: 'eu', nativeName: 'Euskara' },
+    { name: 'Belarusian', code: 'be', nativeName: 'Беларуская' },
+    { name: 'Bengali', code: 'bn', nativeName: 'বাংলা' },
+    { name: 'Bosnian', code: 'bs', nativeName: 'Bosanski' },
+    { name: 'Bulgarian', code: 'bg', nativeName: 'Български' },
+    { name: 'Burmese', code: 'my', nativeName: 'မြန်မာ' },
+    { name: 'Catalan', code: 'ca', nativeName: 'Català' },
+    { name: 'Chinese (Simplified)', code: 'zh-Hans', nativeName: '简体中文' },
+    { name: 'Chinese (Traditional)', code: 'zh-Hant', nativeName: '繁體中文' },
+    { name: 'Croatian', code: 'hr', nativeName: 'Hrvatski' },
+    { name: 'Czech', code: 'cs', nativeName: 'Čeština' },
+    { name: 'Danish', code: 'da', nativeName: 'Dansk' },
+    { name: 'Dutch', code: 'nl', nativeName: 'Nederlands' },
+    { name: 'English', code: 'en', nativeName: 'English' },
+    { name: 'Estonian', code: 'et', nativeName: 'Eesti' },
+    { name: 'Filipino', code: 'fil', nativeName: 'Filipino' },
+    { name: 'Finnish', code: 'fi', nativeName: 'Suomi' },
+    { name: 'French', code: 'fr', nativeName: 'Français' },
+    { name: 'Galician', code: 'gl', nativeName: 'Galego' },
+    { name: 'Georgian', code: 'ka', nativeName: 'ქართული' },
+    { name: 'German', code: 'de', nativeName: 'Deutsch' },
+    { name: 'Greek', code: 'el', nativeName: 'Ελληνικά' },
+    { name: 'Gujarati', code: 'gu', nativeName: 'ગુજરાતી' },
+    { name: 'Hausa', code: 'ha', nativeName: 'Hausa' },
+    { name: 'Hebrew', code: 'he', nativeName: 'עברית' },
+    { name: 'Hindi', code: 'hi', nativeName: 'हिन्दी' },
+    { name: 'Hungarian', code: 'hu', nativeName: 'Magyar' },
+    { name: 'Icelandic', code: 'is', nativeName: 'Íslenska' },
+    { name: 'Igbo', code: 'ig', nativeName: 'Igbo' },
+    { name: 'Indonesian', code: 'id', nativeName: 'Bahasa Indonesia' },
+    { name: 'Irish', code: 'ga', nativeName: 'Gaeilge' },
+    { name: 'Italian', code: 'it', nativeName: 'Italiano' },
+    { name: 'Japanese', code: 'ja', nativeName: '日本語' },
+    { name: 'Javanese', code: 'jv', nativeName: 'Basa Jawa' },
+    { name: 'Kannada', code: 'kn', nativeName: 'ಕನ್ನಡ' },
+    { name: 'Kazakh', code: 'kk', nativeName: 'Қазақ' },
+    { name: 'Khmer', code: 'km', nativeName: 'ខ្មែរ' },
+    { name: 'Korean', code: 'ko', nativeName: '한국어' },
+    { name: 'Kurdish', code: 'ku', nativeName: 'Kurdî' },
+    { name: 'Kyrgyz', code: 'ky', nativeName: 'Кыргызча' },
+    { name: 'Lao', code: 'lo', nativeName: 'ລາວ' },
+    { name: 'Latvian', code: 'lv', nativeName: 'Latviešu' },
+    { name: 'Lithuanian', code: 'lt', nativeName: 'Lietuvių' },
+    { name: 'Macedonian', code: 'mk', nativeName: 'Македонски' },
+    { name: 'Malay', code: 'ms', nativeName: 'Bahasa Melayu' },
+    { name: 'Malayalam', code: 'ml', nativeName: 'മലയാളം' },
+    { name: 'Maltese', code: 'mt', nativeName: 'Malti' },
+    { name: 'Marathi', code: 'mr', nativeName: 'मराठी' },
+    { name: 'Mongolian', code: 'mn', nativeName: 'Монгол' },
+    { name: 'Nepali', code: 'ne', nativeName: 'नेपाली' },
+    { name: 'Norwegian', code: 'no', nativeName: 'Norsk' },
+    { name: 'Odia', code: 'or', nativeName: 'ଓଡ଼ିଆ' },
+    { name: 'Pashto', code: 'ps', nativeName: 'پښتو' },
+    { name: 'Persian', code: 'fa', nativeName: 'فارسی' },
+    { name: 'Polish', code: 'pl', nativeName: 'Polski' },
+    { name: 'Portuguese (Brazil)', code: 'pt-BR', nativeName: 'Português (Brasil)' },
+    { name: 'Portuguese (Portugal)', code: 'pt-PT', nativeName: 'Português (Portugal)' },
+    { name: 'Punjabi', code: 'pa', nativeName: 'ਪੰਜਾਬੀ' },
+    { name: 'Romanian', code: 'ro', nativeName: 'Română' },
+    { name: 'Russian', code: 'ru', nativeName: 'Русский' },
+    { name: 'Serbian', code: 'sr', nativeName: 'Српски' },
+    { name: 'Sinhala', code: 'si', nativeName: 'සිංහල' },
+    { name: 'Slovak', code: 'sk', nativeName: 'Slovenčina' },
+    { name: 'Slovenian', code: 'sl', nativeName: 'Slovenščina' },
+    { name: 'Somali', code: 'so', nativeName: 'Soomaali' },
+    { name: 'Spanish', code: 'es', nativeName: 'Español' },
+    { name: 'Spanish (Latin America)', code: 'es-419', nativeName: 'Español (Latinoamérica)' },
+    { name: 'Swahili', code: 'sw', nativeName: 'Kiswahili' },
+    { name: 'Swedish', code: 'sv', nativeName: 'Svenska' },
+    { name: 'Tajik', code: 'tg', nativeName: 'Тоҷикӣ' },
+    { name: 'Tamil', code: 'ta', nativeName: 'தமிழ்' },
+    { name: 'Telugu', code: 'te', nativeName: 'తెలుగు' },
+    { name: 'Thai', code: 'th', nativeName: 'ไทย' },
+    { name: 'Turkish', code: 'tr', nativeName: 'Türkçe' },
+    { name: 'Ukrainian', code: 'uk', nativeName: 'Українська' },
+    { name: 'Urdu', code: 'ur', nativeName: 'اردو' },
+    { name: 'Uzbek', code: 'uz', nativeName: 'Oʻzbek' },
+    { name: 'Vietnamese', code: 'vi', nativeName: 'Tiếng Việt' },
+    { name: 'Welsh', code: 'cy', nativeName: 'Cymraeg' },
+    { name: 'Xhosa', code: 'xh', nativeName: 'isiXhosa' },
+    { name: 'Yoruba', code: 'yo', nativeName: 'Yorùbá' },
+    { name: 'Zulu', code: 'zu', nativeName: 'isiZulu' },
+];
+
+export const languages = LANGUAGES.map(language => language.name);
+export const sourceLanguages = ['Auto-detect', ...languages];
+
+export const findLanguage = (name: string): Language | undefined => LANGUAGES.find(language => language.name === name);
+
+export const formalityOptions = ['Default', 'Formal', 'Informal'] as const;
+export const toneOptions = ['Neutral', 'Friendly', 'Professional', 'Technical', 'Playful'] as const;
+
+export type Formality = typeof formalityOptions[number];
+export type Tone = typeof toneOptions[number];
+
+export interface TranslationOptions {
+    formality: Formality;
+    tone: Tone;
+    glossary: GlossaryEntry[];
+}
+
+export const DEFAULT_TRANSLATION_OPTIONS: TranslationOptions = { formality: 'Default', tone: 'Neutral', glossary: [] };
+
+// The glossary entries that apply to a request: those for the target language whose term occurs in the text.
+export const applicableGlossary = (glossary: GlossaryEntry[], text: string, targetLang: string): GlossaryEntry[] => {
+    const lowerText = text.toLowerCase();
+    return glossary.filter(entry => entry.term.trim()
+        && (!entry.language || entry.language === targetLang)
+        && lowerText.includes(entry.term.trim().toLowerCase()));
+};
+
+// "API (keep); checkout → Kasse", as saved with History entries.
+export const describeGlossary = (entries: GlossaryEntry[]): string => {
+    return entries.map(entry => entry.translation ? `${entry.term} → ${entry.translation}` : `${entry.term} (keep)`).join('; ');
+};
+
+// The non-default options of a request, as saved with its History entry.
+export const optionHistoryInputs = (options: TranslationOptions, text: string, targetLang: string): { formality?: string; tone?: string; glossary?: string } => {
+    const glossary = applicableGlossary(options.glossary, text, targetLang);
+    return {
+        ...(options.formality !== 'Default' ? { formality: options.formality } : {}),
+        ...(options.tone !== 'Neutral' ? { tone: options.tone } : {}),
+        ...(glossary.length > 0 ? { glossary: describeGlossary(glossary) } : {}),
+    };
+};
+
+const FORMALITY_INSTRUCTIONS: Record<Exclude<Formality, 'Default'>, string> = {
+    Formal: 'Use a formal register and polite forms of address.',
+    Informal: 'Use an informal register and familiar forms of address.',
+};
+
+const optionInstructions = (text: string, targetLang: string, options: TranslationOptions): string[] => {
+    const instructions: string[] = [];
+    if (options.formality !== 'Default') instructions.push(FORMALITY_INSTRUCTIONS[options.formality]);
+    if (options.tone !== 'Neutral') instructions.push(`Use a ${options.tone.toLowerCase()} tone.`);
+    const glossary = applicableGlossary(options.glossary, text, targetLang);
+    const keep = glossary.filter(entry => !entry.translation).map(entry => `"${entry.term}"`);
+    const terms = glossary.filter(entry => entry.translation).map(entry => `"${entry.term}" → "${entry.translation}"`);
+    if (keep.length > 0) instructions.push(`Do not translate these terms; keep them exactly as written: ${keep.join(', ')}.`);
+    if (terms.length > 0) instructions.push(`Always translate these terms as given: ${terms.join(', ')}.`);
+    return instructions;
+};
+
+const buildTranslationPrompt = (text: string, sourceLang: string, targetLang: string, options: TranslationOptions = DEFAULT_TRANSLATION_OPTIONS): string => {
+    const request = sourceLang === 'Auto-detect'
+        ? `Translate the following text to ${targetLang}: "${text}"`
+        : `Translate the following text from ${sourceLang} to ${targetLang}: "${text}"`;
+    return [...optionInstructions(text, targetLang, options), request].join('\n');
+};
+
+// The instruction for translating the segments of an uploaded document. Segments travel as a JSON
+// array so that the reply can be put back into the document's structure.
+export const buildSegmentTranslationPrompt = (segments: string[], sourceLang: string, targetLang: string, formatDescription: string, options: TranslationOptions = DEFAULT_TRANSLATION_OPTIONS): string => {
+    const from = sourceLang === 'Auto-detect' ? '' : ` from ${sourceLang}`;
+    return [
+        `Translate each string in the following JSON array${from} to ${targetLang}. The strings are ${formatDescription}.`,
+        'Reply with a JSON array of the translated strings, in the same order and with exactly the same number of items.',
+        'Keep Markdown syntax, HTML tags, line breaks, URLs and placeholders such as {name}, {{count}}, %s, %1$d and ${value} exactly as they are.',
+        ...optionInstructions(segments.join('\n'), targetLang, options),
+        '',
+        JSON.stringify(segments),
+    ].join('\n');
+};
+
+export interface TextTranslation {
+    translatedText: string;
+    // Reported when the source language is "Auto-detect".
+    detectedLanguage?: string;
+}
+
+// Translates plain text; shared by Translation and Workflow.
+export const translateText = async (
+    ai: GeminiClient,
+    text: string,
+    sourceLang: string,
+    targetLang: string,
+    options: TranslationOptions,
+    signal?: AbortSignal,
+): Promise<TextTranslation> => {
+    const isAutoDetect = sourceLang === 'Auto-detect';
+    const response = await ai.models.generateContent({
+        model: 'gemini-2.5-flash',
+        contents: buildTranslationPrompt(text, sourceLang, targetLang, options)
+            + '\nReply with the translation only' + (isAutoDetect ? ', and name the language of the original text.' : '.'),
+        config: {
+            responseMimeType: 'application/json',
+            responseSchema: {
+                type: Type.OBJECT,
+                properties: {
+                    translatedText: { type: Type.STRING },
+                    ...(isAutoDetect ? { detectedLanguage: { type: Type.STRING, enum: [...languages, 'Other'] } } : {}),
+                },
+                required: isAutoDetect ? ['translatedText', 'detectedLanguage'] : ['translatedText'],
+            },
+            abortSignal: signal,
+        },
+    });
+    const result = JSON.parse(response.text) as TextTranslation;
+    if (typeof result.translatedText !== 'string') throw new Error('The translation response was incomplete; please try again.');
+    return { translatedText: result.translatedText, detectedLanguage: isAutoDetect ? result.detectedLanguage : undefined };
+};
+
+export const confidenceLevels = ['High', 'Medium', 'Low'] as const;
+export type Confidence = typeof confidenceLevels[number];
+
+export interface MeaningDrift {
+    // Quoted from the back-translation, so it can be highlighted there.
+    excerpt: string;
+    note: string;
+    severity: 'Minor' | 'Major';
+}
+
+export interface AlternativeTranslation {
+    translatedText: string;
+    // How its wording or nuance differs from the first translation.
+    note: string;
+}
+
+export interface TranslationReview {
+    backTranslation: string;
+    confidence: Confidence;
+    drift: MeaningDrift[];
+    alternatives: AlternativeTranslation[];
+}
+
+// Quality mode of Translation. `sourceLang` must be a catalog language, not "Auto-detect", since the
+// translation is translated back into it.
+export const reviewTranslation = async (
+    ai: GeminiClient,
+    text: string,
+    translatedText: string,
+    sourceLang: string,
+    targetLang: string,
+    options: TranslationOptions,
+    signal?: AbortSignal,
+): Promise<TranslationReview> => {
+    // The back-translation only sees the translation, so it can only carry over what the translation says.
+    const { translatedText: backTranslation } = await translateText(ai, translatedText, targetLang, sourceLang, DEFAULT_TRANSLATION_OPTIONS, signal);
+    const response = await ai.models.generateContent({
+        model: 'gemini-2.5-flash',
+        contents: [
+            `A text was translated from ${sourceLang} to ${targetLang}, and the translation was then translated back to ${sourceLang} without seeing the original.`,
+            'Compare the original with the back-translation. List every place where the meaning drifted: quote the affected words exactly as they appear in the back-translation, explain what changed and rate it Minor or Major.',
+            'Rate your confidence that the translation is faithful to the original as High, Medium or Low.',
+            `Suggest two or three alternative ${targetLang} translations of the original that differ in wording or nuance, each with a short note on how it differs from the translation.`,
+            ...optionInstructions(text, targetLang, options),
+            '',
+            `Original: "${text}"`,
+            `Translation: "${translatedText}"`,
+            `Back-translation: "${backTranslation}"`,
+        ].join('\n'),
+        config: {
+            responseMimeType: 'application/json',
+            responseSchema: {
+                type: Type.OBJECT,
+                properties: {
+                    confidence: { type: Type.STRING, enum: [...confidenceLevels] },
+                    drift: {
+                        type: Type.ARRAY,
+                        items: {
+                            type: Type.OBJECT,
+                            properties: {
+                                excerpt: { type: Type.STRING },
+                                note: { type: Type.STRING },
+                                severity: { type: Type.STRING, enum: ['Minor', 'Major'] },
+                            },
+                            required: ['excerpt', 'note', 'severity'],
+                        },
+                    },
+                    alternatives: {
+                        type: Type.ARRAY,
+                        items: {
+                            type: Type.OBJECT,
+                            properties: {
+                                translatedText: { type: Type.STRING },
+                                note: { type: Type.STRING },
+                            },
+                            required: ['translatedText', 'note'],
+                        },
+                    },
+                },
+                required: ['confidence', 'drift', 'alternatives'],
+            },
+            abortSignal: signal,
+        },
+    });
+    const result = JSON.parse(response.text) as Omit<TranslationReview, 'backTranslation'>;
+    if (!confidenceLevels.includes(result.confidence)) throw new Error('The quality check response was incomplete; please try again.');
+    return {
+        backTranslation,
+        confidence: result.confidence,
+        drift: result.drift ?? [],
+        alternatives: (result.alternatives ?? []).filter(alternative => alternative.translatedText?.trim()).slice(0, 3),
+    };
+};
+
+export interface SpeechTranscription {
+    transcript: string;
+    // Reported when the source language is "Auto-detect".
+    detectedLanguage?: string;
+}
+
+// Transcribes recorded or uploaded speech, the first step of Translation's Voice mode.
+export const transcribeSpeech = async (ai: GeminiClient, audio: File, sourceLang: string, signal?: AbortSignal): Promise<SpeechTranscription> => {
+    const isAutoDetect = sourceLang === 'Auto-detect';
+    const response = await ai.models.generateContent({
+        model: 'gemini-2.5-flash',
+        contents: {
+            parts: [
+                { inlineData: { data: await fileToBase64(audio), mimeType: audio.type || 'audio/wav' } },
+                {
+                    text: (isAutoDetect ? 'Transcribe the speech in this audio and name its language.' : `Transcribe the ${sourceLang} speech in this audio.`)
+                        + ' Reply with the spoken words only, without timestamps, speaker labels or descriptions of sounds.',
+                },
+            ],
+        },
+        config: {
+            responseMimeType: 'application/json',
+            responseSchema: {
+                type: Type.OBJECT,
+                properties: {
+                    transcript: { type: Type.STRING },
+                    ...(isAutoDetect ? { detectedLanguage: { type: Type.STRING, enum: [...languages, 'Other'] } } : {}),
+                },
+                required: isAutoDetect ? ['transcript', 'detectedLanguage'] : ['transcript'],
+            },
+            abortSignal: signal,
+        },
+    });
+    const result = JSON.parse(response.text) as SpeechTranscription;
+    if (!result.transcript?.trim()) throw new Error('No speech was recognized in the recording.');
+    return { transcript: result.transcript.trim(), detectedLanguage: isAutoDetect ? result.detectedLanguage : undefined };
+};
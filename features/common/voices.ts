@@ -0,0 +1,102 @@
+import { Modality } from '@google/genai';
+import { GeminiClient } from '../../services/geminiClient';
+import { decode, decodeAudioData, audioBufferToWav } from '../../utils/audioUtils';
+
+// Text to Speech voices, grouped for the voice picker. Each maps a display name to a prebuilt Gemini voice.
+export const voiceGroups = {
+    "Baby & Toddler Voices": [
+        { name: 'Baby (Cooing Boy)', value: 'Puck' },
+        { name: 'Baby (Giggling Girl)', value: 'Kore' },
+        { name: 'Baby (Babbling)', value: 'Puck' },
+        { name: 'Baby (Sleepy Yawns)', value: 'Puck' },
+        { name: 'Baby (Excited Squeals)', value: 'Kore' },
+        { name: 'Toddler (Male)', value: 'Puck' },
+        { name: 'Toddler (Female)', value: 'Kore' },
+        { name: 'Toddler (Giggly Girl)', value: 'Kore' },
+        { name: 'Toddler (Curious Boy)', value: 'Puck' },
+        { name: 'Leo (Playful Boy)', value: 'Puck' },
+        { name: 'Lily (Sweet Girl)', value: 'Kore' },
+    ],
+    "Young Age": [
+        { name: 'Rachel (Clear American Female)', value: 'Kore' },
+        { name: 'Antoni (Youthful Male)', value: 'Puck' },
+        { name: 'Bella (Soft Female Narrator)', value: 'Zephyr' },
+        { name: 'Josh (Casual Male)', value: 'Puck' },
+        { name: 'Elli (Upbeat Female)', value: 'Kore' },
+        { name: 'Mia (Upbeat American Female)', value: 'Kore' },
+        { name: 'Noah (Friendly Young Male)', value: 'Puck' },
+        { name: 'Olivia (Sweet Female Voice)', value: 'Zephyr' },
+        { name: 'Liam (Calm Narrator)', value: 'Puck' },
+        { name: 'Young Male (Energetic)', value: 'Puck' },
+        { name: 'Young Female (Storyteller)', value: 'Kore' },
+        { name: 'Teen Boy (Casual)', value: 'Puck' },
+        { name: 'Teen Girl (Upbeat)', value: 'Kore' },
+    ],
+    "Middle Age": [
+        { name: 'Adam (Deep American Male)', value: 'Fenrir' },
+        { name: 'Adam V2 (Storyteller)', value: 'Puck' },
+        { name: 'Serena (Soothing Female)', value: 'Zephyr' },
+        { name: 'Arnold (Powerful Male)', value: 'Charon' },
+        { name: 'Ethan (Clear Announcer)', value: 'Charon' },
+        { name: 'Fin (Raspy Male)', value: 'Fenrir' },
+        { name: 'Middle-Aged Male (Confident)', value: 'Charon' },
+        { name: 'Middle-Aged Female (Warm)', value: 'Zephyr' },
+        { name: 'Middle-Aged Male (Friendly)', value: 'Puck' },
+        { name: 'Middle-Aged Female (Professional)', value: 'Kore' },
+        { name: 'Middle-Aged Male (Authoritative)', value: 'Fenrir' },
+        { name: 'Middle-Aged Female (Energetic)', value: 'Kore' },
+        { name: 'James (Deep Documentary Male)', value: 'Fenrir' },
+        { name: 'Sophia (Elegant Female Narrator)', value: 'Zephyr' },
+        { name: 'David (Corporate Male)', value: 'Charon' },
+        { name: 'Emma (Warm Conversational Female)', value: 'Kore' },
+        { name: 'Middle-Aged Female (News Anchor)', value: 'Kore' },
+        { name: 'Middle-Aged Female (Calm Instructor)', value: 'Zephyr' },
+        { name: 'Middle-Aged Male (Radio Host)', value: 'Charon' },
+    ],
+    "Old Age": [
+        { name: 'Old Man (Narrator)', value: 'Fenrir' },
+        { name: 'Old Woman (Storyteller)', value: 'Zephyr' },
+        { name: 'Old Man (Wise Sage)', value: 'Charon' },
+        { name: 'Old Woman (Gentle Grandmother)', value: 'Zephyr' },
+        { name: 'Arthur (Grandfatherly Storyteller)', value: 'Fenrir' },
+        { name: 'Eleanor (Wise Grandmother)', value: 'Zephyr' },
+        { name: 'Old Male (Gruff Veteran)', value: 'Fenrir' },
+        { name: 'Old Male (Gentle Professor)', value: 'Charon' },
+        { name: 'Old Female (Quirky Aunt)', value: 'Zephyr' },
+    ],
+    "Gemini Base Voices": [
+        { name: 'Kore (Female)', value: 'Kore' },
+        { name: 'Puck (Male)', value: 'Puck' },
+        { name: 'Charon (Male)', value: 'Charon' },
+        { name: 'Fenrir (Male)', value: 'Fenrir' },
+        { name: 'Zephyr (Female)', value: 'Zephyr' },
+    ]
+};
+
+export const allVoices = Object.values(voiceGroups).flat();
+
+// Speaks text with one of the voices above and returns the speech as a WAV file; shared by
+// Text to Speech, Translation and Workflow.
+export const synthesizeSpeech = async (ai: GeminiClient, text: string, voiceName: string, signal?: AbortSignal): Promise<Blob> => {
+    const response = await ai.models.generateContent({
+        model: 'gemini-2.5-flash-preview-tts',
+        contents: [{ parts: [{ text }] }],
+        config: {
+            responseModalities: [Modality.AUDIO],
+            speechConfig: {
+                voiceConfig: {
+                    prebuiltVoiceConfig: { voiceName: allVoices.find(voice => voice.name === voiceName)?.value || 'Fenrir' },
+                },
+            },
+            abortSignal: signal,
+        },
+    });
+    const base64Audio = response.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data;
+    if (!base64Audio) throw new Error("No audio data was returned from the API.");
+    const audioContext = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: 24000 });
+    try {
+        return audioBufferToWav(await decodeAudioData(decode(base64Audio), audioContext, 24000, 1));
+    } finally {
+        audioContext.close();
+    }
+};
@@ -0,0 +1,283 @@
+import { Modality, Part } from '@google/genai';
+import { HistoryFeature, HistoryItemOf, SendableKind, WorkflowStep } from '../../types';
+import { GeminiClient } from '../../services/geminiClient';
+import { waitForGeneratedVideo } from '../../services/videoGeneration';
+import { fileToBase64, extractVideoFrames, dataUrlToBlob } from '../../utils/fileUtils';
+import { allVoices, synthesizeSpeech } from './voices';
+import { languages, sourceLanguages, formalityOptions, toneOptions, translateText, optionHistoryInputs, TranslationOptions } from './translation';
+import { loadGlossary } from '../../services/glossaryStore';
+
+// The kinds of value passed between steps. Text travels as a string, media as a File.
+export type PortType = SendableKind;
+export type PortValue = string | File;
+
+export interface StepSetting {
+    key: string;
+    label: string;
+    defaultValue: string;
+    // Renders a select; otherwise a text area.
+    options?: readonly string[];
+}
+
+export interface StepRunContext {
+    ai: GeminiClient;
+    signal: AbortSignal;
+}
+
+// The History entry saved for a step, typed by its feature so the inputs and outputs are checked.
+export type StepEntry = { [F in HistoryFeature]: Pick<HistoryItemOf<F>, 'feature' | 'inputs' | 'outputs'> }[HistoryFeature];
+
+export interface StepResult {
+    output: PortValue;
+    entry: StepEntry;
+}
+
+export interface WorkflowStepType {
+    type: string;
+    label: string;
+    feature: HistoryFeature;
+    input: PortType;
+    output: PortType;
+    settings: StepSetting[];
+    run: (input: PortValue, settings: Record<string, string>, context: StepRunContext) => Promise<StepResult>;
+}
+
+const IMAGE_ASPECT_RATIOS = ['1:1', '16:9', '9:16', '4:3', '3:4'] as const;
+const VIDEO_ASPECT_RATIOS = ['16:9', '9:16'] as const;
+const VIDEO_MODEL = 'veo-3.1-fast-generate-preview';
+
+const asText = (value: PortValue): string => value as string;
+const asFile = (value: PortValue): File => value as File;
+
+const inlinePart = async (file: File): Promise<Part> => ({ inlineData: { data: await fileToBase64(file), mimeType: file.type } });
+
+const imageFromResponse = (response: { candidates?: { content?: { parts?: Part[] } }[] }, name: string): File => {
+    const inlineData = response.candidates?.[0]?.content?.parts?.find(part => part.inlineData)?.inlineData;
+    if (!inlineData?.data) throw new Error("No image was returned from the API.");
+    const blob = dataUrlToBlob(`data:${inlineData.mimeType};base64,${inlineData.data}`);
+    return new File([blob], `${name}.${blob.type.split('/')[1] || 'png'}`, { type: blob.type });
+};
+
+const analyzeMedia = async (file: File, prompt: string, { ai, signal }: StepRunContext): Promise<string> => {
+    const response = await ai.models.generateContent({
+        model: 'gemini-2.5-flash',
+        contents: { parts: [await inlinePart(file), { text: prompt }] },
+        config: { abortSignal: signal },
+    });
+    return response.text ?? '';
+};
+
+const generateVideo = async (prompt: string, aspectRatio: string, image: File | null, { ai, signal }: StepRunContext): Promise<File> => {
+    const operation = await ai.models.generateVideos({
+        model: VIDEO_MODEL,
+        prompt,
+        image: image ? { imageBytes: await fileToBase64(image), mimeType: image.type } : undefined,
+        config: { numberOfVideos: 1, resolution: '720p', aspectRatio, abortSignal: signal },
+    });
+    const blob = await waitForGeneratedVideo(ai, operation, signal);
+    return new File([blob], 'workflow-video.mp4', { type: blob.type || 'video/mp4' });
+};
+
+const videoHistoryInputs = (prompt: string, aspectRatio: string, image: File | null) => ({
+    prompt,
+    mode: image ? 'image-to-video' : 'text-to-video',
+    image,
+    model: 'VEO 3.1',
+    style: 'No Style',
+    duration: 8,
+    resolution: '720p',
+    aspectRatio,
+    frameRate: 24,
+});
+
+// Every operation a workflow step can perform, in the order offered by the builder.
+export const WORKFLOW_STEP_TYPES: WorkflowStepType[] = [
+    {
+        type: 'generate-image',
+        label: 'Generate an image',
+        feature: 'Image Generation',
+        input: 'text',
+        output: 'image',
+        settings: [{ key: 'aspectRatio', label: 'Aspect ratio', defaultValue: '1:1', options: IMAGE_ASPECT_RATIOS }],
+        run: async (input, settings, { ai, signal }) => {
+            const prompt = asText(input);
+            const response = await ai.models.generateContent({
+                model: 'gemini-2.5-flash-image',
+                contents: { parts: [{ text: `${prompt}, in a ${settings.aspectRatio} aspect ratio` }] },
+                config: { responseModalities: [Modality.IMAGE], abortSignal: signal },
+            });
+            const image = imageFromResponse(response, 'workflow-image');
+            return {
+                output: image,
+                entry: {
+                    feature: 'Image Generation',
+                    inputs: { prompt, mode: 'Text-to-Image', model: 'Nano Banana', style: 'No Style', aspectRatio: settings.aspectRatio, numImages: 1 },
+                    outputs: { images: [image] },
+                },
+            };
+        },
+    },
+    {
+        type: 'edit-image',
+        label: 'Edit the image',
+        feature: 'Image Editing',
+        input: 'image',
+        output: 'image',
+        settings: [{ key: 'prompt', label: 'Editing prompt', defaultValue: 'Add a retro, vintage filter to the image.' }],
+        run: async (input, settings, { ai, signal }) => {
+            const file = asFile(input);
+            const response = await ai.models.generateContent({
+                model: 'gemini-2.5-flash-image',
+                contents: { parts: [await inlinePart(file), { text: settings.prompt }] },
+                config: { responseModalities: [Modality.IMAGE], abortSignal: signal },
+            });
+            const image = imageFromResponse(response, 'workflow-edited-image');
+            return { output: image, entry: { feature: 'Image Editing', inputs: { prompt: settings.prompt, originalImage: file }, outputs: { editedImage: image } } };
+        },
+    },
+    {
+        type: 'describe-image',
+        label: 'Describe the image',
+        feature: 'Image Understanding',
+        input: 'image',
+        output: 'text',
+        settings: [{ key: 'prompt', label: 'Question', defaultValue: 'Describe this image in detail.' }],
+        run: async (input, settings, context) => {
+            const image = asFile(input);
+            const analysis = await analyzeMedia(image, settings.prompt, context);
+            return { output: analysis, entry: { feature: 'Image Understanding', inputs: { prompt: settings.prompt, image }, outputs: { analysis } } };
+        },
+    },
+    {
+        type: 'animate-image',
+        label: 'Animate the image',
+        feature: 'Video Generation',
+        input: 'image',
+        output: 'video',
+        settings: [
+            { key: 'prompt', label: 'Motion prompt', defaultValue: 'Bring the scene to life with gentle camera movement.' },
+            { key: 'aspectRatio', label: 'Aspect ratio', defaultValue: '16:9', options: VIDEO_ASPECT_RATIOS },
+        ],
+        run: async (input, settings, context) => {
+            const image = asFile(input);
+            const video = await generateVideo(settings.prompt, settings.aspectRatio, image, context);
+            return { output: video, entry: { feature: 'Video Generation', inputs: videoHistoryInputs(settings.prompt, settings.aspectRatio, image), outputs: { video } } };
+        },
+    },
+    {
+        type: 'generate-video',
+        label: 'Generate a video',
+        feature: 'Video Generation',
+        input: 'text',
+        output: 'video',
+        settings: [{ key: 'aspectRatio', label: 'Aspect ratio', defaultValue: '16:9', options: VIDEO_ASPECT_RATIOS }],
+        run: async (input, settings, context) => {
+            const prompt = asText(input);
+            const video = await generateVideo(prompt, settings.aspectRatio, null, context);
+            return { output: video, entry: { feature: 'Video Generation', inputs: videoHistoryInputs(prompt, settings.aspectRatio, null), outputs: { video } } };
+        },
+    },
+    {
+        type: 'describe-video',
+        label: 'Describe the video',
+        feature: 'Video Understanding',
+        input: 'video',
+        output: 'text',
+        settings: [{ key: 'prompt', label: 'Question', defaultValue: 'Summarize this video. What are the key events?' }],
+        run: async (input, settings, { ai, signal }) => {
+            const file = asFile(input);
+            const frames = await extractVideoFrames(file, 1);
+            signal.throwIfAborted();
+            if (frames.length === 0) throw new Error("Could not extract any frames from the video.");
+            const response = await ai.models.generateContent({
+                model: 'gemini-2.5-pro',
+                contents: { parts: [{ text: settings.prompt }, ...frames.map(frame => ({ inlineData: { data: frame.base64, mimeType: frame.mimeType } }))] },
+                config: { abortSignal: signal },
+            });
+            return { output: response.text, entry: { feature: 'Video Understanding', inputs: { prompt: settings.prompt, video: file }, outputs: { analysis: response.text } } };
+        },
+    },
+    {
+        type: 'translate',
+        label: 'Translate the text',
+        feature: 'Translation',
+        input: 'text',
+        output: 'text',
+        settings: [
+            { key: 'sourceLanguage', label: 'From', defaultValue: 'Auto-detect', options: sourceLanguages },
+            { key: 'targetLanguage', label: 'To', defaultValue: 'Hindi', options: languages },
+            { key: 'formality', label: 'Formality', defaultValue: 'Default', options: formalityOptions },
+            { key: 'tone', label: 'Tone', defaultValue: 'Neutral', options: toneOptions },
+        ],
+        run: async (input, settings, { ai, signal }) => {
+            const text = asText(input);
+            // Workflows saved before formality and tone existed fall back to the defaults.
+            const options: TranslationOptions = {
+                formality: formalityOptions.find(option => option === settings.formality) ?? 'Default',
+                tone: toneOptions.find(option => option === settings.tone) ?? 'Neutral',
+                glossary: loadGlossary(),
+            };
+            const result = await translateText(ai, text, settings.sourceLanguage, settings.targetLanguage, options, signal);
+            return {
+                output: result.translatedText,
+                entry: {
+                    feature: 'Translation',
+                    inputs: { text, sourceLanguage: settings.sourceLanguage, targetLanguage: settings.targetLanguage, ...optionHistoryInputs(options, text, settings.targetLanguage) },
+                    outputs: { translatedText: result.translatedText, ...(result.detectedLanguage ? { detectedLanguage: result.detectedLanguage } : {}) },
+                },
+            };
+        },
+    },
+    {
+        type: 'speak',
+        label: 'Read the text aloud',
+        feature: 'Text to Speech',
+        input: 'text',
+        output: 'audio',
+        settings: [{ key: 'voice', label: 'Voice', defaultValue: 'Adam (Deep American Male)', options: allVoices.map(voice => voice.name) }],
+        run: async (input, settings, { ai, signal }) => {
+            const text = asText(input);
+            const wav = await synthesizeSpeech(ai, text, settings.voice, signal);
+            const audio = new File([wav], 'workflow-speech.wav', { type: wav.type });
+            return { output: audio, entry: { feature: 'Text to Speech', inputs: { text, voice: settings.voice }, outputs: { audio } } };
+        },
+    },
+    {
+        type: 'analyze-audio',
+        label: 'Analyze the audio',
+        feature: 'Audio Analysis',
+        input: 'audio',
+        output: 'text',
+        settings: [{ key: 'prompt', label: 'Question', defaultValue: 'Transcribe the speech in this audio file.' }],
+        run: async (input, settings, context) => {
+            const audio = asFile(input);
+            const analysis = await analyzeMedia(audio, settings.prompt, context);
+            return { output: analysis, entry: { feature: 'Audio Analysis', inputs: { prompt: settings.prompt, audio }, outputs: { analysis } } };
+        },
+    },
+];
+
+export const getStepType = (type: string): WorkflowStepType | undefined => {
+    return WORKFLOW_STEP_TYPES.find(stepType => stepType.type === type);
+};
+
+export const createStep = (stepType: WorkflowStepType): WorkflowStep => ({
+    id: `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+    type: stepType.type,
+    settings: Object.fromEntries(stepType.settings.map(setting => [setting.key, setting.defaultValue])),
+});
+
+// Describes the first broken connection, or returns null when every step's input matches the
+// output of the step before it.
+export const validateWorkflow = (steps: WorkflowStep[]): string | null => {
+    if (steps.length === 0) return 'Add at least one step.';
+    for (let i = 0; i < steps.length; i++) {
+        const stepType = getStepType(steps[i].type);
+        if (!stepType) return `Step ${i + 1} uses an operation that no longer exists.`;
+        const previous = i > 0 ? getStepType(steps[i - 1].type) : undefined;
+        if (previous && previous.output !== stepType.input) {
+            return `Step ${i + 1} (${stepType.label}) needs ${stepType.input}, but step ${i} produces ${previous.output}.`;
+        }
+    }
+    return null;
+};
@@ -0,0 +1,62 @@
+import { Feature } from '../types';
+import { AnyFeatureDefinition, FeatureDefinition } from './common/featureDefinition';
+import { meta as imageGeneration } from './ImageGeneration.meta';
+import { meta as imageEditing } from './ImageEditing.meta';
+import { meta as imageUnderstanding } from './ImageUnderstanding.meta';
+import { meta as videoGeneration } from './VideoGeneration.meta';
+import { meta as videoUnderstanding } from './VideoUnderstanding.meta';
+import { meta as videoEditing } from './VideoEditing.meta';
+import { meta as textToSpeech } from './TextToSpeech.meta';
+import { meta as audioAnalysis } from './AudioAnalysis.meta';
+import { meta as translation } from './Translation.meta';
+import { meta as linkSummarizer } from './LinkSummarizer.meta';
+import { meta as fastChat } from './FastChat.meta';
+import { meta as liveConversation } from './LiveConversation.meta';
+import { meta as workflow } from './Workflow.meta';
+import { meta as history } from './History.meta';
+
+// Every feature's name in nav order. The `Feature` type in types.ts is derived from this list.
+export const featureNames = [
+    'Image Generation',
+    'Image Editing',
+    'Image Understanding',
+    'Video Generation',
+    'Video Understanding',
+    'Video Editing',
+    'Text to Speech',
+    'Audio Analysis',
+    'Translation',
+    'Link Summarizer',
+    'Fast Chat',
+    'Live Conversation',
+    'Workflow',
+    'History',
+] as const;
+
+// Keyed by name, so a name without a definition, or a definition under another feature's name, fails to compile.
+const definitions: { [F in Feature]: FeatureDefinition<F> } = {
+    'Image Generation': imageGeneration,
+    'Image Editing': imageEditing,
+    'Image Understanding': imageUnderstanding,
+    'Video Generation': videoGeneration,
+    'Video Understanding': videoUnderstanding,
+    'Video Editing': videoEditing,
+    'Text to Speech': textToSpeech,
+    'Audio Analysis': audioAnalysis,
+    'Translation': translation,
+    'Link Summarizer': linkSummarizer,
+    'Fast Chat': fastChat,
+    'Live Conversation': liveConversation,
+    'Workflow': workflow,
+    'History': history,
+};
+
+// Every feature in nav order. The nav, the hash router and History are generated from this list;
+// each feature's component is only downloaded the first time it is opened.
+export const featureRegistry: AnyFeatureDefinition[] = featureNames.map(name => definitions[name]);
+
+export const getFeatureDefinition = <F extends Feature>(name: F): FeatureDefinition<F> => definitions[name];
+
+export const findFeatureByRoute = (route: string): AnyFeatureDefinition | undefined => {
+    return featureRegistry.find(definition => definition.route === route);
+};
@@ -0,0 +1,24 @@
+import { useRef, useEffect, useCallback } from 'react';
+
+// Hands out an AbortSignal per run. Starting a new run, calling cancelRun, or unmounting the
+// component (e.g. navigating to another feature) aborts the run in flight.
+export function useCancellableRun() {
+    const controllerRef = useRef<AbortController | null>(null);
+
+    const startRun = useCallback((): AbortSignal => {
+        controllerRef.current?.abort();
+        const controller = new AbortController();
+        controllerRef.current = controller;
+        return controller.signal;
+    }, []);
+
+    const cancelRun = useCallback(() => {
+        controllerRef.current?.abort();
+    }, []);
+
+    useEffect(() => {
+        return () => controllerRef.current?.abort();
+    }, []);
+
+    return { startRun, cancelRun };
+}
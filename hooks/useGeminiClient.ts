@@ -0,0 +1,48 @@
+import { useState, useContext, useMemo, useRef } from 'react';
+import { GeminiClientContext } from '../context/GeminiClientContext';
+import { scheduleClient } from '../services/geminiClient';
+import { requestScheduler, RequestStatus } from '../services/requestScheduler';
+
+export interface RequestActivity {
+    total: number;
+    completed: number;
+    queuePosition: number | null;
+    retry: { attempt: number; retryAt: number } | null;
+}
+
+const summarize = (statuses: Map<number, RequestStatus>): RequestActivity | null => {
+    const all = [...statuses.values()];
+    if (all.every(status => status.state === 'settled')) return null;
+
+    const queued = all.flatMap(status => status.state === 'queued' ? [status.position] : []);
+    const retrying = all.flatMap(status => status.state === 'retrying' ? [status] : []);
+    return {
+        total: all.length,
+        completed: all.filter(status => status.state === 'settled').length,
+        queuePosition: queued.length > 0 ? Math.min(...queued) : null,
+        retry: retrying.length > 0 ? retrying[retrying.length - 1] : null,
+    };
+};
+
+// Returns the shared Gemini client with every call routed through the app-wide request scheduler,
+// plus a summary of this component's queued, running and retrying requests for display.
+export function useGeminiClient() {
+    const { client } = useContext(GeminiClientContext);
+    const [statuses, setStatuses] = useState<Map<number, RequestStatus>>(new Map());
+    const nextRequestIdRef = useRef(0);
+
+    const ai = useMemo(() => scheduleClient(client, requestScheduler, () => {
+        const requestId = nextRequestIdRef.current++;
+        return (status: RequestStatus) => setStatuses(prev => {
+            // A request arriving after everything else settled starts a new batch.
+            const isNewBatch = !prev.has(requestId) && [...prev.values()].every(s => s.state === 'settled');
+            const next = isNewBatch ? new Map<number, RequestStatus>() : new Map(prev);
+            next.set(requestId, status);
+            return next;
+        });
+    }), [client]);
+
+    const requestActivity = useMemo(() => summarize(statuses), [statuses]);
+
+    return { ai, requestActivity };
+}
@@ -0,0 +1,58 @@
+import { useContext, useEffect, useRef, useState } from 'react';
+import { HistoryFeature, HistoryItemOf } from '../types';
+import { HistoryContext } from '../context/HistoryContext';
+import { RouteContext } from '../context/RouteContext';
+import { rerunHash } from '../utils/routing';
+
+interface HistoryRestoreOptions<F extends HistoryFeature> {
+    // Puts the entry's inputs back into the feature's state; may load media first.
+    restore: (item: HistoryItemOf<F>) => void | Promise<void>;
+    // Starts the feature's run; called after the restored state has rendered when `run=1` is set.
+    run: () => void;
+    onError: (message: string) => void;
+}
+
+// Restores the History entry named by the `from` route parameter (set by History's Re-run actions)
+// once History has loaded. Runs it immediately for `run=1`, dropping that parameter from the URL
+// so a reload doesn't start another run.
+export function useHistoryRestore<F extends HistoryFeature>(feature: F, { restore, run, onError }: HistoryRestoreOptions<F>) {
+    const { params } = useContext(RouteContext).route;
+    const { historyItems, isHistoryLoading } = useContext(HistoryContext);
+    const sourceId = params.get('from');
+    const runImmediately = params.get('run') === '1';
+    const handledRef = useRef(false);
+    const [isRunPending, setIsRunPending] = useState(false);
+    // Always the latest callbacks, so the deferred run sees the restored state.
+    const callbacksRef = useRef({ restore, run, onError });
+    callbacksRef.current = { restore, run, onError };
+
+    useEffect(() => {
+        if (!sourceId || handledRef.current) return;
+        const item = historyItems.find(entry => entry.id === sourceId && entry.feature === feature) as HistoryItemOf<F> | undefined;
+        if (!item) {
+            if (!isHistoryLoading) {
+                handledRef.current = true;
+                callbacksRef.current.onError('The History entry to re-run could not be found. It may have been deleted.');
+            }
+            return;
+        }
+
+        handledRef.current = true;
+        Promise.resolve(callbacksRef.current.restore(item))
+            .then(() => {
+                if (!runImmediately) return;
+                window.history.replaceState(null, '', rerunHash(item, false));
+                setIsRunPending(true);
+            })
+            .catch((error: any) => {
+                console.error(error);
+                callbacksRef.current.onError(error?.message || String(error));
+            });
+    }, [feature, sourceId, runImmediately, historyItems, isHistoryLoading]);
+
+    useEffect(() => {
+        if (!isRunPending) return;
+        setIsRunPending(false);
+        callbacksRef.current.run();
+    }, [isRunPending]);
+}
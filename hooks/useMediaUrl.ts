@@ -0,0 +1,66 @@
+import { useState, useEffect } from 'react';
+import { MediaValue } from '../types';
+import { isExpiredObjectUrl, loadMedia } from '../services/historyStore';
+
+export type MediaUrlStatus = 'idle' | 'loading' | 'ready' | 'missing' | 'expired';
+
+// Resolves a history media value to a URL the browser can render, creating (and revoking)
+// object URLs for blobs kept in the media store. Nothing is loaded until `enabled` is true.
+export function useMediaUrl(value: MediaValue | null | undefined, enabled: boolean = true) {
+    const [url, setUrl] = useState<string | null>(null);
+    const [status, setStatus] = useState<MediaUrlStatus>('idle');
+
+    useEffect(() => {
+        if (!value) {
+            setUrl(null);
+            setStatus('missing');
+            return;
+        }
+        if (isExpiredObjectUrl(value)) {
+            setUrl(null);
+            setStatus('expired');
+            return;
+        }
+        if (typeof value === 'string') {
+            setUrl(value);
+            setStatus('ready');
+            return;
+        }
+        if (value instanceof Blob) {
+            const objectUrl = URL.createObjectURL(value);
+            setUrl(objectUrl);
+            setStatus('ready');
+            return () => URL.revokeObjectURL(objectUrl);
+        }
+        if (!enabled) {
+            setStatus('idle');
+            return;
+        }
+
+        let objectUrl: string | null = null;
+        let cancelled = false;
+        setStatus('loading');
+        loadMedia(value.mediaId)
+            .then(blob => {
+                if (cancelled) return;
+                if (!blob) {
+                    setStatus('missing');
+                    return;
+                }
+                objectUrl = URL.createObjectURL(blob);
+                setUrl(objectUrl);
+                setStatus('ready');
+            })
+            .catch(error => {
+                console.error("Failed to load media from history storage", error);
+                if (!cancelled) setStatus('missing');
+            });
+
+        return () => {
+            cancelled = true;
+            if (objectUrl) URL.revokeObjectURL(objectUrl);
+        };
+    }, [value, enabled]);
+
+    return { url, status };
+}
@@ -0,0 +1,70 @@
+import { useState, useRef, useCallback, useEffect } from 'react';
+import { audioBufferToWav } from '../utils/audioUtils';
+
+// The rate Live Conversation streams the microphone at; plenty for speech.
+const RECORDING_SAMPLE_RATE = 16000;
+
+// Records the microphone as mono PCM and hands it back as a WAV file, a format the Gemini API
+// accepts inline. The microphone is released when recording stops or the component unmounts.
+export function useMicrophoneRecorder() {
+    const [isRecording, setIsRecording] = useState(false);
+    const audioContextRef = useRef<AudioContext | null>(null);
+    const mediaStreamRef = useRef<MediaStream | null>(null);
+    const scriptProcessorRef = useRef<ScriptProcessorNode | null>(null);
+    const chunksRef = useRef<Float32Array[]>([]);
+
+    const release = useCallback(() => {
+        scriptProcessorRef.current?.disconnect();
+        scriptProcessorRef.current = null;
+        mediaStreamRef.current?.getTracks().forEach(track => track.stop());
+        mediaStreamRef.current = null;
+        if (audioContextRef.current && audioContextRef.current.state !== 'closed') {
+            audioContextRef.current.close();
+        }
+        audioContextRef.current = null;
+        setIsRecording(false);
+    }, []);
+
+    const startRecording = useCallback(async () => {
+        release();
+        const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+        const audioContext = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: RECORDING_SAMPLE_RATE });
+        const source = audioContext.createMediaStreamSource(stream);
+        const scriptProcessor = audioContext.createScriptProcessor(4096, 1, 1);
+        chunksRef.current = [];
+        scriptProcessor.onaudioprocess = (event) => {
+            chunksRef.current.push(new Float32Array(event.inputBuffer.getChannelData(0)));
+        };
+        source.connect(scriptProcessor);
+        scriptProcessor.connect(audioContext.destination);
+
+        mediaStreamRef.current = stream;
+        audioContextRef.current = audioContext;
+        scriptProcessorRef.current = scriptProcessor;
+        setIsRecording(true);
+    }, [release]);
+
+    // Returns null when nothing was recorded.
+    const stopRecording = useCallback((): File | null => {
+        const audioContext = audioContextRef.current;
+        const chunks = chunksRef.current;
+        const length = chunks.reduce((total, chunk) => total + chunk.length, 0);
+        let recording: File | null = null;
+        if (audioContext && length > 0) {
+            const buffer = audioContext.createBuffer(1, length, RECORDING_SAMPLE_RATE);
+            let offset = 0;
+            for (const chunk of chunks) {
+                buffer.copyToChannel(chunk, 0, offset);
+                offset += chunk.length;
+            }
+            recording = new File([audioBufferToWav(buffer)], `recording-${Date.now()}.wav`, { type: 'audio/wav' });
+        }
+        chunksRef.current = [];
+        release();
+        return recording;
+    }, [release]);
+
+    useEffect(() => release, [release]);
+
+    return { isRecording, startRecording, stopRecording };
+}
@@ -0,0 +1,17 @@
+import { useContext, useEffect, useRef } from 'react';
+import { Feature, SentAsset } from '../types';
+import { SendToContext } from '../context/SendToContext';
+
+// Passes an output another feature sent here with "Send to…" to `receive`, which puts it into the
+// feature's inputs. Only the kinds listed in the feature's `receives` are ever sent.
+export function useReceivedAsset(feature: Feature, receive: (asset: SentAsset) => void) {
+    const { pendingAsset, takeAsset } = useContext(SendToContext);
+    const receiveRef = useRef(receive);
+    receiveRef.current = receive;
+
+    useEffect(() => {
+        if (pendingAsset?.target !== feature) return;
+        const asset = takeAsset(feature);
+        if (asset) receiveRef.current(asset);
+    }, [feature, pendingAsset, takeAsset]);
+}
@@ -0,0 +1,65 @@
+import { useEffect, useCallback, RefObject } from 'react';
+
+const SEEK_TOLERANCE_S = 0.25;
+
+const mediaElements = (container: HTMLElement) => Array.from(container.querySelectorAll<HTMLMediaElement>('video, audio'));
+
+// Keeps every <video> and <audio> inside the container playing, pausing and seeking together:
+// controlling any one of them applies the same action to the rest.
+export function useSyncedPlayback(containerRef: RefObject<HTMLElement | null>) {
+    useEffect(() => {
+        const container = containerRef.current;
+        if (!container) return;
+        // Only elements that are out of step are touched, so the events they fire in turn stop here.
+        const others = (source: HTMLMediaElement) => mediaElements(container).filter(media => media !== source);
+        const seekTo = (media: HTMLMediaElement, time: number) => {
+            const target = Math.min(time, media.duration || time);
+            if (Math.abs(media.currentTime - target) > SEEK_TOLERANCE_S) media.currentTime = target;
+        };
+
+        // Media events don't bubble, so they are caught in the capture phase.
+        const handlePlay = (e: Event) => {
+            const source = e.target as HTMLMediaElement;
+            others(source).filter(media => media.paused).forEach(media => {
+                seekTo(media, source.currentTime);
+                media.play().catch(() => {});
+            });
+        };
+        const handlePause = (e: Event) => {
+            const source = e.target as HTMLMediaElement;
+            // The shortest clip reaching its end shouldn't stop the others.
+            if (source.ended) return;
+            others(source).filter(media => !media.paused).forEach(media => media.pause());
+        };
+        const handleSeeked = (e: Event) => {
+            const source = e.target as HTMLMediaElement;
+            others(source).forEach(media => seekTo(media, source.currentTime));
+        };
+
+        container.addEventListener('play', handlePlay, true);
+        container.addEventListener('pause', handlePause, true);
+        container.addEventListener('seeked', handleSeeked, true);
+        return () => {
+            container.removeEventListener('play', handlePlay, true);
+            container.removeEventListener('pause', handlePause, true);
+            container.removeEventListener('seeked', handleSeeked, true);
+        };
+    }, [containerRef]);
+
+    const playAll = useCallback(() => {
+        if (!containerRef.current) return;
+        mediaElements(containerRef.current).forEach(media => media.play().catch(() => {}));
+    }, [containerRef]);
+
+    const pauseAll = useCallback(() => {
+        if (!containerRef.current) return;
+        mediaElements(containerRef.current).forEach(media => media.pause());
+    }, [containerRef]);
+
+    const restartAll = useCallback(() => {
+        if (!containerRef.current) return;
+        mediaElements(containerRef.current).forEach(media => { media.currentTime = 0; });
+    }, [containerRef]);
+
+    return { playAll, pauseAll, restartAll };
+}
@@ -2,6 +2,10 @@ import React from 'react';
 import ReactDOM from 'react-dom/client';
 import App from './App';
 import { HistoryProvider } from './context/HistoryContext';
+import { GeminiClientProvider } from './context/GeminiClientContext';
+import { JobsProvider } from './context/JobsContext';
+import { RouteProvider } from './context/RouteContext';
+import { SendToProvider } from './context/SendToContext';
 
 const rootElement = document.getElementById('root');
 if (!rootElement) {
@@ -11,8 +15,16 @@ if (!rootElement) {
 const root = ReactDOM.createRoot(rootElement);
 root.render(
   <React.StrictMode>
-    <HistoryProvider>
-      <App />
-    </HistoryProvider>
+    <GeminiClientProvider>
+      <HistoryProvider>
+        <JobsProvider>
+          <RouteProvider>
+            <SendToProvider>
+              <App />
+            </SendToProvider>
+          </RouteProvider>
+        </JobsProvider>
+      </HistoryProvider>
+    </GeminiClientProvider>
   </React.StrictMode>
 );
\ No newline at end of file
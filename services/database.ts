@@ -0,0 +1,54 @@
+const DB_NAME = 'gemini-showcase';
+const DB_VERSION = 2;
+export const ITEMS_STORE = 'historyItems';
+export const MEDIA_STORE = 'historyMedia';
+export const JOBS_STORE = 'videoJobs';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+export const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> => {
+    return new Promise((resolve, reject) => {
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+};
+
+export const transactionDone = (transaction: IDBTransaction): Promise<void> => {
+    return new Promise((resolve, reject) => {
+        transaction.oncomplete = () => resolve();
+        transaction.onerror = () => reject(transaction.error);
+        transaction.onabort = () => reject(transaction.error || new Error('The storage transaction was aborted.'));
+    });
+};
+
+export const openDatabase = (): Promise<IDBDatabase> => {
+    if (!dbPromise) {
+        dbPromise = new Promise((resolve, reject) => {
+            if (!window.indexedDB) {
+                reject(new Error('IndexedDB is not available in this browser.'));
+                return;
+            }
+            const request = window.indexedDB.open(DB_NAME, DB_VERSION);
+            request.onupgradeneeded = () => {
+                const db = request.result;
+                if (!db.objectStoreNames.contains(ITEMS_STORE)) {
+                    const items = db.createObjectStore(ITEMS_STORE, { keyPath: 'id' });
+                    items.createIndex('timestamp', 'timestamp');
+                }
+                if (!db.objectStoreNames.contains(MEDIA_STORE)) {
+                    const media = db.createObjectStore(MEDIA_STORE, { keyPath: 'id' });
+                    media.createIndex('itemId', 'itemId');
+                }
+                if (!db.objectStoreNames.contains(JOBS_STORE)) {
+                    db.createObjectStore(JOBS_STORE, { keyPath: 'id' });
+                }
+            };
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => {
+                dbPromise = null;
+                reject(request.error);
+            };
+        });
+    }
+    return dbPromise;
+};
@@ -0,0 +1,135 @@
+import { GoogleGenAI, Chat, CreateChatParameters, LiveConnectParameters, Models, Operations, Session } from '@google/genai';
+import { createMockTransport } from './mock/mockTransport';
+import { RequestScheduler, RequestStatus } from './requestScheduler';
+
+const DEFAULT_API_ORIGIN = 'https://generativelanguage.googleapis.com';
+// Scheduler lanes for calls that are not tied to a model.
+const OPERATIONS_LANE = 'operations';
+const FILES_LANE = 'files';
+
+// The subset of the SDK surface the features use. Keeping it narrow lets other transports
+// (a mock backend, a recording proxy, ...) stand in for the real SDK.
+export type GeminiModels = Pick<Models, 'generateContent' | 'generateContentStream' | 'generateImages' | 'generateVideos'>;
+export type GeminiChat = Pick<Chat, 'sendMessage' | 'sendMessageStream'>;
+export type GeminiLiveSession = Pick<Session, 'sendRealtimeInput' | 'close'>;
+export type GeminiOperations = Pick<Operations, 'getVideosOperation'>;
+
+export interface GeminiChats {
+    create: (params: CreateChatParameters) => GeminiChat;
+}
+
+export interface GeminiLive {
+    connect: (params: LiveConnectParameters) => Promise<GeminiLiveSession>;
+}
+
+export interface GeminiClient {
+    models: GeminiModels;
+    chats: GeminiChats;
+    live: GeminiLive;
+    operations: GeminiOperations;
+    // Downloads a file the API returned by URI (e.g. a generated video).
+    fetchFile: (uri: string, signal?: AbortSignal) => Promise<Blob>;
+}
+
+export interface GeminiTransport {
+    name: string;
+    createClient: () => GeminiClient;
+}
+
+export interface GeminiClientConfig {
+    // 'mock' answers every call offline with canned fixtures; see services/mock.
+    transport: 'sdk' | 'mock';
+    // Points the SDK at a proxy or a local server that speaks the Gemini REST API.
+    baseUrl?: string;
+    headers?: Record<string, string>;
+}
+
+const parseHeaders = (rawHeaders: string | undefined): Record<string, string> | undefined => {
+    if (!rawHeaders) return undefined;
+    try {
+        return JSON.parse(rawHeaders);
+    } catch (error) {
+        console.error("GEMINI_API_HEADERS must be a JSON object of header names to values", error);
+        return undefined;
+    }
+};
+
+export const loadGeminiClientConfig = (): GeminiClientConfig => ({
+    transport: process.env.GEMINI_TRANSPORT === 'mock' ? 'mock' : 'sdk',
+    baseUrl: process.env.GEMINI_BASE_URL || undefined,
+    headers: parseHeaders(process.env.GEMINI_API_HEADERS),
+});
+
+export const createSdkTransport = (config: Omit<GeminiClientConfig, 'transport'>): GeminiTransport => {
+    // A fresh SDK instance per access picks up an API key selected through AI Studio after the page loaded.
+    const sdk = () => new GoogleGenAI({
+        apiKey: process.env.API_KEY as string,
+        httpOptions: config.baseUrl || config.headers ? { baseUrl: config.baseUrl, headers: config.headers } : undefined,
+    });
+
+    const fetchFile = async (uri: string, signal?: AbortSignal): Promise<Blob> => {
+        const url = new URL(config.baseUrl && uri.startsWith(DEFAULT_API_ORIGIN)
+            ? config.baseUrl.replace(/\/$/, '') + uri.slice(DEFAULT_API_ORIGIN.length)
+            : uri);
+        url.searchParams.set('key', process.env.API_KEY as string);
+        const response = await fetch(url.toString(), { headers: config.headers, signal });
+        if (!response.ok) {
+            throw new Error(`Failed to download the generated file (${response.status} ${response.statusText}).`);
+        }
+        return response.blob();
+    };
+
+    return {
+        name: config.baseUrl ? `sdk (${config.baseUrl})` : 'sdk',
+        createClient: () => ({
+            get models() { return sdk().models; },
+            get chats() { return sdk().chats; },
+            get live() { return sdk().live; },
+            get operations() { return sdk().operations; },
+            fetchFile,
+        }),
+    };
+};
+
+export const createGeminiTransport = (config: GeminiClientConfig): GeminiTransport => {
+    if (config.transport === 'mock') {
+        return createMockTransport();
+    }
+    return createSdkTransport(config);
+};
+
+// Creates a status listener for one scheduled request.
+export type RequestTracker = () => (status: RequestStatus) => void;
+
+// Routes every request-style call through the shared scheduler, so per-model concurrency limits
+// and 429/503 retries apply to all features without per-component loops.
+export const scheduleClient = (client: GeminiClient, scheduler: RequestScheduler, track?: RequestTracker): GeminiClient => {
+    const run = <T>(lane: string, task: () => Promise<T>, signal?: AbortSignal) => {
+        return scheduler.schedule(lane, task, { onStatus: track?.(), signal });
+    };
+
+    return {
+        models: {
+            generateContent: (params) => run(params.model, () => client.models.generateContent(params), params.config?.abortSignal),
+            generateContentStream: (params) => run(params.model, () => client.models.generateContentStream(params), params.config?.abortSignal),
+            generateImages: (params) => run(params.model, () => client.models.generateImages(params), params.config?.abortSignal),
+            generateVideos: (params) => run(params.model, () => client.models.generateVideos(params), params.config?.abortSignal),
+        },
+        chats: {
+            create: (params) => {
+                const chat = client.chats.create(params);
+                return {
+                    sendMessage: (message) => run(params.model, () => chat.sendMessage(message), message.config?.abortSignal),
+                    sendMessageStream: (message) => run(params.model, () => chat.sendMessageStream(message), message.config?.abortSignal),
+                };
+            },
+        },
+        live: {
+            connect: (params) => run(params.model, () => client.live.connect(params)),
+        },
+        operations: {
+            getVideosOperation: (params) => run(OPERATIONS_LANE, () => client.operations.getVideosOperation(params), params.config?.abortSignal),
+        },
+        fetchFile: (uri, signal) => run(FILES_LANE, () => client.fetchFile(uri, signal), signal),
+    };
+};
@@ -0,0 +1,17 @@
+import { GlossaryEntry } from '../types';
+
+const GLOSSARY_STORAGE_KEY = 'gemini-showcase-translation-glossary';
+
+export const loadGlossary = (): GlossaryEntry[] => {
+    try {
+        const stored = localStorage.getItem(GLOSSARY_STORAGE_KEY);
+        return stored ? JSON.parse(stored) : [];
+    } catch (error) {
+        console.error("Failed to read the translation glossary", error);
+        return [];
+    }
+};
+
+export const saveGlossary = (glossary: GlossaryEntry[]) => {
+    localStorage.setItem(GLOSSARY_STORAGE_KEY, JSON.stringify(glossary));
+};
@@ -0,0 +1,107 @@
+import { HistoryItem, MediaRef, HISTORY_SCHEMA_VERSION } from '../types';
+import { MediaRecord, extractMedia, isMediaRef, loadMedia } from './historyStore';
+import { StoredHistoryItem, migrateHistoryItem } from './historyMigrations';
+import { createZip, readZip, ZipFileInput } from '../utils/zip';
+
+const ARCHIVE_FORMAT = 'gemini-showcase-history';
+const MANIFEST_PATH = 'manifest.json';
+
+// `manifest.json` at the root of an archive. Entries keep their MediaRefs; `media` maps each
+// media id to the archive path of its file.
+interface ArchiveManifest {
+    format: typeof ARCHIVE_FORMAT;
+    schemaVersion: number;
+    exportedAt: string;
+    items: StoredHistoryItem[];
+    media: Record<string, string>;
+}
+
+const MEDIA_EXTENSIONS: Record<string, string> = {
+    'image/jpeg': 'jpg',
+    'image/png': 'png',
+    'image/webp': 'webp',
+    'video/mp4': 'mp4',
+    'video/webm': 'webm',
+    'audio/wav': 'wav',
+    'audio/mpeg': 'mp3',
+};
+
+const mediaPath = (ref: MediaRef) => {
+    const extension = MEDIA_EXTENSIONS[ref.mimeType.split(';')[0]] ?? 'bin';
+    return `media/${ref.mediaId.replace(/[^\w.-]+/g, '_')}.${extension}`;
+};
+
+const collectMediaRefs = (item: HistoryItem): MediaRef[] => {
+    const refs: MediaRef[] = [];
+    const visit = (value: unknown) => {
+        if (isMediaRef(value)) refs.push(value);
+        else if (Array.isArray(value)) value.forEach(visit);
+    };
+    [...Object.values(item.inputs), ...Object.values(item.outputs)].forEach(visit);
+    return refs;
+};
+
+export const exportHistoryArchive = async (items: HistoryItem[]): Promise<Blob> => {
+    const files: ZipFileInput[] = [];
+    const manifest: ArchiveManifest = {
+        format: ARCHIVE_FORMAT,
+        schemaVersion: HISTORY_SCHEMA_VERSION,
+        exportedAt: new Date().toISOString(),
+        items: [],
+        media: {},
+    };
+
+    for (const source of items) {
+        // Media still held inline (data URLs, or Blobs of an entry whose save is in flight) is exported as files too.
+        const { item, media: inlineMedia } = extractMedia(source);
+        for (const ref of collectMediaRefs(item)) {
+            const blob = inlineMedia.find(record => record.id === ref.mediaId)?.blob ?? await loadMedia(ref.mediaId);
+            if (!blob) continue;
+            const path = mediaPath(ref);
+            manifest.media[ref.mediaId] = path;
+            files.push({ name: path, data: blob, lastModified: new Date(item.timestamp) });
+        }
+        manifest.items.push(item);
+    }
+
+    return createZip([{ name: MANIFEST_PATH, data: JSON.stringify(manifest, null, 2) }, ...files]);
+};
+
+export interface ArchiveContents {
+    entries: { item: HistoryItem; media: MediaRecord[] }[];
+    // Ids that were skipped because they are already in History.
+    skippedIds: string[];
+}
+
+export const readHistoryArchive = async (archive: Blob, existingIds: Set<string>): Promise<ArchiveContents> => {
+    const files = await readZip(archive);
+    const manifestFile = files.get(MANIFEST_PATH);
+    if (!manifestFile) throw new Error('This archive was not exported from History: it has no manifest.json.');
+
+    const manifest: ArchiveManifest = JSON.parse(await (await manifestFile.read()).text());
+    if (manifest.format !== ARCHIVE_FORMAT || !Array.isArray(manifest.items)) {
+        throw new Error('This archive was not exported from History.');
+    }
+    if (manifest.schemaVersion > HISTORY_SCHEMA_VERSION) {
+        throw new Error('This archive was exported by a newer version of the app. Update the app to import it.');
+    }
+
+    const contents: ArchiveContents = { entries: [], skippedIds: [] };
+    const seen = new Set(existingIds);
+    for (const stored of manifest.items) {
+        if (seen.has(stored.id)) {
+            contents.skippedIds.push(stored.id);
+            continue;
+        }
+        seen.add(stored.id);
+        const { item, media } = extractMedia(migrateHistoryItem(stored));
+        for (const ref of collectMediaRefs(item)) {
+            const file = files.get(manifest.media?.[ref.mediaId]);
+            if (!file || media.some(record => record.id === ref.mediaId)) continue;
+            const blob = await file.read();
+            media.push({ id: ref.mediaId, itemId: item.id, blob: new Blob([blob], { type: ref.mimeType }) });
+        }
+        contents.entries.push({ item, media });
+    }
+    return contents;
+};
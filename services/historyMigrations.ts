@@ -0,0 +1,32 @@
+import { HistoryItem, HISTORY_SCHEMA_VERSION } from '../types';
+
+// An entry as read from storage: anything saved before versioning (v1) is an untyped record.
+export type StoredHistoryItem = Omit<HistoryItem, 'version' | 'inputs' | 'outputs'> & {
+    version?: number;
+    inputs: Record<string, any>;
+    outputs: Record<string, any>;
+};
+
+// Upgrades an entry from the keyed version to the next one.
+const migrations: Record<number, (item: StoredHistoryItem) => StoredHistoryItem> = {
+    1: (item) => {
+        if (item.feature === 'Link Summarizer' && 'linkUrl' in item.inputs) {
+            const { linkUrl, ...inputs } = item.inputs;
+            return { ...item, inputs: { ...inputs, url: linkUrl } };
+        }
+        if (item.feature === 'Image Generation' && !Array.isArray(item.outputs.images)) {
+            return { ...item, outputs: { ...item.outputs, images: [] } };
+        }
+        return item;
+    },
+};
+
+export const needsMigration = (item: StoredHistoryItem): boolean => (item.version ?? 1) < HISTORY_SCHEMA_VERSION;
+
+export const migrateHistoryItem = (stored: StoredHistoryItem): HistoryItem => {
+    let item = stored;
+    for (let version = stored.version ?? 1; version < HISTORY_SCHEMA_VERSION; version++) {
+        item = { ...migrations[version](item), version: version + 1 };
+    }
+    return item as HistoryItem;
+};
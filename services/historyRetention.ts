@@ -0,0 +1,63 @@
+import { HistoryItem } from '../types';
+
+const RETENTION_STORAGE_KEY = 'gemini-showcase-retention';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MB = 1024 * 1024;
+
+// Automatic pruning of old History entries. Pinned entries are never pruned; null disables a rule.
+export interface RetentionSettings {
+    maxAgeDays: number | null;
+    maxStorageMB: number | null;
+}
+
+export const DEFAULT_RETENTION: RetentionSettings = { maxAgeDays: null, maxStorageMB: null };
+
+export const isRetentionEnabled = (settings: RetentionSettings): boolean => {
+    return settings.maxAgeDays !== null || settings.maxStorageMB !== null;
+};
+
+export const loadRetentionSettings = (): RetentionSettings => {
+    try {
+        const stored = localStorage.getItem(RETENTION_STORAGE_KEY);
+        return stored ? { ...DEFAULT_RETENTION, ...JSON.parse(stored) } : DEFAULT_RETENTION;
+    } catch (error) {
+        console.error("Failed to read history retention settings", error);
+        return DEFAULT_RETENTION;
+    }
+};
+
+export const saveRetentionSettings = (settings: RetentionSettings) => {
+    localStorage.setItem(RETENTION_STORAGE_KEY, JSON.stringify(settings));
+};
+
+// Ids of unpinned entries to delete: those older than `maxAgeDays`, then the oldest of the rest
+// until the remaining entries fit in `maxStorageMB`. `mediaSizes` holds each entry's stored media bytes.
+export const selectItemsToPrune = (
+    items: HistoryItem[],
+    mediaSizes: Map<string, number>,
+    settings: RetentionSettings,
+    now = Date.now(),
+): string[] => {
+    const pruned = new Set<string>();
+    const oldestFirst = [...items].sort((a, b) => a.timestamp - b.timestamp);
+
+    if (settings.maxAgeDays !== null) {
+        const cutoff = now - settings.maxAgeDays * DAY_MS;
+        oldestFirst.filter(item => !item.pinned && item.timestamp < cutoff).forEach(item => pruned.add(item.id));
+    }
+
+    if (settings.maxStorageMB !== null) {
+        const sizeOf = (item: HistoryItem) => (mediaSizes.get(item.id) ?? 0) + JSON.stringify(item).length;
+        let total = items.filter(item => !pruned.has(item.id)).reduce((sum, item) => sum + sizeOf(item), 0);
+        const budget = settings.maxStorageMB * MB;
+        for (const item of oldestFirst) {
+            if (total <= budget) break;
+            if (item.pinned || pruned.has(item.id)) continue;
+            pruned.add(item.id);
+            total -= sizeOf(item);
+        }
+    }
+
+    return [...pruned];
+};
@@ -0,0 +1,201 @@
+import { HistoryItem, MediaRef, MediaValue } from '../types';
+import { dataUrlToBlob } from '../utils/fileUtils';
+import { openDatabase, requestToPromise, transactionDone, ITEMS_STORE, MEDIA_STORE } from './database';
+import { StoredHistoryItem, migrateHistoryItem, needsMigration } from './historyMigrations';
+
+const LEGACY_STORAGE_KEY = 'gemini-showcase-history';
+const LEGACY_BACKUP_KEY = 'gemini-showcase-history-unreadable';
+
+export interface MediaRecord {
+    id: string;
+    itemId: string;
+    blob: Blob;
+}
+
+// Blobs that were handed to saveHistoryItem but whose transaction has not committed yet,
+// so a freshly added entry can render before IndexedDB catches up.
+const pendingMedia = new Map<string, Blob>();
+
+export const isMediaRef = (value: unknown): value is MediaRef => {
+    return typeof value === 'object' && value !== null && typeof (value as MediaRef).mediaId === 'string';
+};
+
+const isDataUrl = (value: unknown): value is string => {
+    return typeof value === 'string' && value.startsWith('data:');
+};
+
+// Object URLs only live as long as the page that created them, so stored ones can never be rendered again.
+export const isExpiredObjectUrl = (value: unknown): value is string => {
+    return typeof value === 'string' && value.startsWith('blob:');
+};
+
+// Moves Blob/File values and inline data URL payloads out of an item so the metadata record stays small.
+export const extractMedia = (item: HistoryItem): { item: HistoryItem; media: MediaRecord[] } => {
+    const media: MediaRecord[] = [];
+
+    const extract = (value: any, path: string): any => {
+        if (value instanceof Blob || isDataUrl(value)) {
+            const blob = value instanceof Blob ? value : dataUrlToBlob(value);
+            const id = `${item.id}/${path}`;
+            media.push({ id, itemId: item.id, blob });
+            const ref: MediaRef = { mediaId: id, mimeType: blob.type };
+            return ref;
+        }
+        if (Array.isArray(value)) {
+            return value.map((entry, index) => extract(entry, `${path}.${index}`));
+        }
+        return value;
+    };
+
+    const extractSection = (section: Record<string, any>, name: string) => {
+        return Object.fromEntries(
+            Object.entries(section).map(([key, value]) => [key, extract(value, `${name}.${key}`)])
+        );
+    };
+
+    return {
+        item: {
+            ...item,
+            inputs: extractSection(item.inputs, 'inputs'),
+            outputs: extractSection(item.outputs, 'outputs'),
+        } as HistoryItem,
+        media,
+    };
+};
+
+// Loads every entry, newest first, upgrading (and re-saving) any written by an older schema version.
+export const loadHistoryItems = async (): Promise<HistoryItem[]> => {
+    const db = await openDatabase();
+    const transaction = db.transaction(ITEMS_STORE, 'readwrite');
+    const store = transaction.objectStore(ITEMS_STORE);
+    const storedItems = await requestToPromise<StoredHistoryItem[]>(store.index('timestamp').getAll());
+    const items = storedItems.map(stored => {
+        if (!needsMigration(stored)) return stored as HistoryItem;
+        const migrated = migrateHistoryItem(stored);
+        store.put(migrated);
+        return migrated;
+    });
+    await transactionDone(transaction);
+    return items.reverse();
+};
+
+// Ids of the stored media an entry points at.
+const referencedMediaIds = (item: HistoryItem): Set<string> => {
+    const ids = new Set<string>();
+    const collect = (value: unknown) => {
+        if (isMediaRef(value)) ids.add(value.mediaId);
+        else if (Array.isArray(value)) value.forEach(collect);
+    };
+    [...Object.values(item.inputs), ...Object.values(item.outputs)].forEach(collect);
+    return ids;
+};
+
+// Saving over an existing entry also drops the media records the new version no longer points at.
+export const saveHistoryItem = async (item: HistoryItem, media: MediaRecord[]): Promise<void> => {
+    media.forEach(record => pendingMedia.set(record.id, record.blob));
+    try {
+        const db = await openDatabase();
+        const transaction = db.transaction([ITEMS_STORE, MEDIA_STORE], 'readwrite');
+        transaction.objectStore(ITEMS_STORE).put(item);
+        const mediaStore = transaction.objectStore(MEDIA_STORE);
+        const referenced = referencedMediaIds(item);
+        const storedIds = await requestToPromise(mediaStore.index('itemId').getAllKeys(item.id));
+        storedIds.forEach(mediaId => {
+            if (!referenced.has(String(mediaId))) mediaStore.delete(mediaId);
+        });
+        media.forEach(record => mediaStore.put(record));
+        await transactionDone(transaction);
+    } finally {
+        media.forEach(record => pendingMedia.delete(record.id));
+    }
+};
+
+// Rewrites entries whose metadata changed; their media is untouched.
+export const updateHistoryItems = async (items: HistoryItem[]): Promise<void> => {
+    const db = await openDatabase();
+    const transaction = db.transaction(ITEMS_STORE, 'readwrite');
+    const store = transaction.objectStore(ITEMS_STORE);
+    items.forEach(item => store.put(item));
+    await transactionDone(transaction);
+};
+
+export const deleteHistoryItems = async (ids: string[]): Promise<void> => {
+    const db = await openDatabase();
+    const transaction = db.transaction([ITEMS_STORE, MEDIA_STORE], 'readwrite');
+    const itemStore = transaction.objectStore(ITEMS_STORE);
+    const mediaStore = transaction.objectStore(MEDIA_STORE);
+    const mediaByItem = mediaStore.index('itemId');
+    for (const id of ids) {
+        itemStore.delete(id);
+        const mediaIds = await requestToPromise(mediaByItem.getAllKeys(id));
+        mediaIds.forEach(mediaId => mediaStore.delete(mediaId));
+    }
+    await transactionDone(transaction);
+};
+
+// Total bytes of stored media per entry id.
+export const loadMediaSizes = async (): Promise<Map<string, number>> => {
+    const db = await openDatabase();
+    const transaction = db.transaction(MEDIA_STORE, 'readonly');
+    const records = await requestToPromise<MediaRecord[]>(transaction.objectStore(MEDIA_STORE).getAll());
+    const sizes = new Map<string, number>();
+    records.forEach(record => sizes.set(record.itemId, (sizes.get(record.itemId) ?? 0) + record.blob.size));
+    return sizes;
+};
+
+export const loadMedia = async (mediaId: string): Promise<Blob | null> => {
+    const pending = pendingMedia.get(mediaId);
+    if (pending) return pending;
+
+    const db = await openDatabase();
+    const transaction = db.transaction(MEDIA_STORE, 'readonly');
+    const record = await requestToPromise<MediaRecord | undefined>(transaction.objectStore(MEDIA_STORE).get(mediaId));
+    return record?.blob ?? null;
+};
+
+// Loads a saved media value as a File, e.g. to put a History input back into a feature.
+export const loadMediaFile = async (value: MediaValue, name: string): Promise<File> => {
+    let blob: Blob | null;
+    if (value instanceof Blob) {
+        blob = value;
+    } else if (isMediaRef(value)) {
+        blob = await loadMedia(value.mediaId);
+    } else {
+        blob = isDataUrl(value) ? dataUrlToBlob(value) : null;
+    }
+    if (!blob) throw new Error('The media saved with this History entry is no longer available.');
+    const extension = blob.type.split('/')[1]?.split(';')[0] || 'bin';
+    return new File([blob], `${name}.${extension}`, { type: blob.type });
+};
+
+export const clearHistoryStore = async (): Promise<void> => {
+    const db = await openDatabase();
+    const transaction = db.transaction([ITEMS_STORE, MEDIA_STORE], 'readwrite');
+    transaction.objectStore(ITEMS_STORE).clear();
+    transaction.objectStore(MEDIA_STORE).clear();
+    await transactionDone(transaction);
+};
+
+// Copies history saved by older versions (a single localStorage key) into IndexedDB, then drops the key.
+// A value that is not a readable list is moved to LEGACY_BACKUP_KEY, so it stops failing every startup.
+export const migrateLegacyHistory = async (): Promise<number> => {
+    const storedItems = localStorage.getItem(LEGACY_STORAGE_KEY);
+    if (!storedItems) return 0;
+
+    let legacyItems: StoredHistoryItem[];
+    try {
+        legacyItems = JSON.parse(storedItems);
+        if (!Array.isArray(legacyItems)) throw new Error('Legacy history is not a list of entries.');
+    } catch (error) {
+        console.error(`Could not read legacy history; moved it to "${LEGACY_BACKUP_KEY}"`, error);
+        localStorage.removeItem(LEGACY_STORAGE_KEY);
+        localStorage.setItem(LEGACY_BACKUP_KEY, storedItems);
+        return 0;
+    }
+    for (const legacyItem of legacyItems) {
+        const { item, media } = extractMedia(migrateHistoryItem(legacyItem));
+        await saveHistoryItem(item, media);
+    }
+    localStorage.removeItem(LEGACY_STORAGE_KEY);
+    return legacyItems.length;
+};
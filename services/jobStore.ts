@@ -0,0 +1,24 @@
+import { VideoJob } from '../types';
+import { openDatabase, requestToPromise, transactionDone, JOBS_STORE } from './database';
+
+export const loadJobs = async (): Promise<VideoJob[]> => {
+    const db = await openDatabase();
+    const transaction = db.transaction(JOBS_STORE, 'readonly');
+    const jobs = await requestToPromise<VideoJob[]>(transaction.objectStore(JOBS_STORE).getAll());
+    return jobs.sort((a, b) => b.createdAt - a.createdAt);
+};
+
+export const saveJob = async (job: VideoJob): Promise<void> => {
+    const db = await openDatabase();
+    const transaction = db.transaction(JOBS_STORE, 'readwrite');
+    transaction.objectStore(JOBS_STORE).put(job);
+    await transactionDone(transaction);
+};
+
+export const deleteJobs = async (ids: string[]): Promise<void> => {
+    const db = await openDatabase();
+    const transaction = db.transaction(JOBS_STORE, 'readwrite');
+    const store = transaction.objectStore(JOBS_STORE);
+    ids.forEach(id => store.delete(id));
+    await transactionDone(transaction);
+};
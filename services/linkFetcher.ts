@@ -0,0 +1,31 @@
+export interface FetchedPage {
+    body: string;
+    contentType: string;
+}
+
+// Most sites refuse cross-origin requests from the browser, so pages can only be fetched through a
+// local proxy. `{url}` in the proxy address is replaced by the encoded page URL; otherwise it is appended.
+export const loadLinkFetchProxy = (): string | undefined => process.env.LINK_FETCH_PROXY || undefined;
+
+export const proxiedUrl = (proxy: string, url: string): string => {
+    const encoded = encodeURIComponent(url);
+    return proxy.includes('{url}') ? proxy.replace('{url}', encoded) : proxy + encoded;
+};
+
+export const fetchThroughProxy = async (proxy: string, url: string, signal?: AbortSignal): Promise<FetchedPage> => {
+    let response: Response;
+    try {
+        response = await fetch(proxiedUrl(proxy, url), { signal });
+    } catch (e) {
+        if (signal?.aborted) throw e;
+        throw new Error(`Could not reach the link fetch proxy at ${proxy}. Check that it is running and allows requests from this page (CORS).`);
+    }
+    if (!response.ok) {
+        throw new Error(`The page could not be retrieved: the fetch proxy answered ${response.status} ${response.statusText}.`.replace(/ \.$/, '.'));
+    }
+    const contentType = response.headers.get('content-type') ?? '';
+    if (contentType && !/text\/|html|xml|json/.test(contentType)) {
+        throw new Error(`The link points to a ${contentType.split(';')[0]} file rather than a web page, so there is no text to summarize.`);
+    }
+    return { body: await response.text(), contentType };
+};
@@ -0,0 +1,124 @@
+import { encode } from '../../utils/audioUtils';
+
+// 1x1 grey PNG, used when a canvas is not available to draw a labelled placeholder.
+const FALLBACK_PNG_BASE64 = 'iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAQAAAC1HAwCAAAAC0lEQVR42mN8Xw8AAoMBgDTD2qgAAAAASUVORK5CYII=';
+
+export const MOCK_AUDIO_SAMPLE_RATE = 24000;
+
+const PALETTE = ['#1e3a8a', '#7c3aed', '#0f766e', '#b45309', '#be123c', '#374151'];
+
+const hashString = (value: string): number => {
+    let hash = 0;
+    for (let i = 0; i < value.length; i++) {
+        hash = (hash * 31 + value.charCodeAt(i)) | 0;
+    }
+    return Math.abs(hash);
+};
+
+const wrapText = (ctx: CanvasRenderingContext2D, text: string, maxWidth: number): string[] => {
+    const lines: string[] = [];
+    let line = '';
+    for (const word of text.split(/\s+/)) {
+        const candidate = line ? `${line} ${word}` : word;
+        if (ctx.measureText(candidate).width > maxWidth && line) {
+            lines.push(line);
+            line = word;
+        } else {
+            line = candidate;
+        }
+    }
+    if (line) lines.push(line);
+    return lines.slice(0, 6);
+};
+
+const drawPlaceholder = (canvas: HTMLCanvasElement, label: string, frame: number = 0) => {
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return;
+    const color = PALETTE[hashString(label) % PALETTE.length];
+    const gradient = ctx.createLinearGradient(0, 0, canvas.width, canvas.height);
+    gradient.addColorStop(0, color);
+    gradient.addColorStop(1, '#111827');
+    ctx.fillStyle = gradient;
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+
+    ctx.fillStyle = 'rgba(255, 255, 255, 0.15)';
+    ctx.beginPath();
+    ctx.arc((frame * 8) % canvas.width, canvas.height / 2, canvas.height / 4, 0, Math.PI * 2);
+    ctx.fill();
+
+    ctx.fillStyle = '#f9fafb';
+    ctx.font = 'bold 20px sans-serif';
+    ctx.fillText('MOCK GEMINI OUTPUT', 24, 40);
+    ctx.font = '16px sans-serif';
+    wrapText(ctx, label, canvas.width - 48).forEach((line, index) => {
+        ctx.fillText(line, 24, 80 + index * 24);
+    });
+};
+
+// Base64 image bytes for a placeholder that shows the prompt it was "generated" from.
+export const placeholderImage = (label: string, mimeType: string = 'image/png'): string => {
+    if (typeof document === 'undefined') return FALLBACK_PNG_BASE64;
+    const canvas = document.createElement('canvas');
+    canvas.width = 512;
+    canvas.height = 512;
+    drawPlaceholder(canvas, label);
+    const dataUrl = canvas.toDataURL(mimeType);
+    return dataUrl.split(',')[1] || FALLBACK_PNG_BASE64;
+};
+
+// Base64 16-bit mono PCM at 24kHz: a short two-note chime, the same shape the TTS and Live APIs return.
+export const tonePcm = (seconds: number = 1.5): string => {
+    const frameCount = Math.floor(MOCK_AUDIO_SAMPLE_RATE * seconds);
+    const samples = new Int16Array(frameCount);
+    for (let i = 0; i < frameCount; i++) {
+        const t = i / MOCK_AUDIO_SAMPLE_RATE;
+        const frequency = t < seconds / 2 ? 523.25 : 659.25;
+        const envelope = Math.min(1, t * 20, (seconds - t) * 20);
+        samples[i] = Math.round(Math.sin(2 * Math.PI * frequency * t) * envelope * 0.3 * 32767);
+    }
+    return encode(new Uint8Array(samples.buffer));
+};
+
+// Records a couple of seconds of an animated placeholder. Falls back to an empty blob where
+// MediaRecorder or canvas capture are unavailable.
+export const placeholderVideo = async (label: string, seconds: number = 2): Promise<Blob> => {
+    if (typeof document === 'undefined' || typeof MediaRecorder === 'undefined') {
+        return new Blob([], { type: 'video/mp4' });
+    }
+    const canvas = document.createElement('canvas');
+    canvas.width = 640;
+    canvas.height = 360;
+    if (!canvas.captureStream) {
+        return new Blob([], { type: 'video/mp4' });
+    }
+
+    const stream = canvas.captureStream(30);
+    const mimeType = ['video/webm;codecs=vp9', 'video/webm', 'video/mp4'].find(type => MediaRecorder.isTypeSupported(type)) || '';
+    const recorder = new MediaRecorder(stream, mimeType ? { mimeType } : undefined);
+    const chunks: Blob[] = [];
+    recorder.ondataavailable = (event) => {
+        if (event.data.size > 0) chunks.push(event.data);
+    };
+
+    return new Promise((resolve) => {
+        let frame = 0;
+        const interval = window.setInterval(() => drawPlaceholder(canvas, label, frame++), 1000 / 30);
+        recorder.onstop = () => {
+            window.clearInterval(interval);
+            stream.getTracks().forEach(track => track.stop());
+            resolve(new Blob(chunks, { type: recorder.mimeType || 'video/webm' }));
+        };
+        recorder.start();
+        window.setTimeout(() => recorder.stop(), seconds * 1000);
+    });
+};
+
+export const mockText = (kind: string, prompt: string): string => {
+    const quoted = prompt.length > 160 ? `${prompt.slice(0, 160)}…` : prompt;
+    return [
+        `**Mock ${kind}.** This response comes from the offline Gemini backend, so no request left your browser.`,
+        '',
+        `- Prompt received: "${quoted}"`,
+        '- Replace `GEMINI_TRANSPORT=mock` with the default transport to talk to the real API.',
+    ].join('\n');
+};
@@ -0,0 +1,220 @@
+import {
+    ContentListUnion,
+    GenerateContentParameters,
+    GenerateContentResponse,
+    GenerateImagesResponse,
+    GenerateVideosOperation,
+    LiveConnectParameters,
+    LiveServerMessage,
+    Modality,
+    PartUnion,
+    Schema,
+    SendMessageParameters,
+    Type,
+    UrlRetrievalStatus,
+} from '@google/genai';
+import { GeminiClient, GeminiTransport, GeminiChat, GeminiLiveSession } from '../geminiClient';
+import { mockText, placeholderImage, placeholderVideo, tonePcm, MOCK_AUDIO_SAMPLE_RATE } from './fixtures';
+import { sleep as delay } from '../../utils/abortUtils';
+
+const MOCK_VIDEO_SCHEME = 'mock://video/';
+// Number of getVideosOperation polls before a mock video operation reports done.
+const VIDEO_POLLS_UNTIL_DONE = 1;
+// Roughly three seconds of 4096-sample microphone chunks at 16kHz make up one mock Live turn.
+const LIVE_CHUNKS_PER_TURN = 12;
+
+const partText = (part: PartUnion): string => typeof part === 'string' ? part : part.text || '';
+
+const promptText = (contents: ContentListUnion): string => {
+    const items = Array.isArray(contents) ? contents : [contents];
+    return items
+        .map((item: any) => typeof item === 'string' ? item : item.parts ? item.parts.map(partText).join(' ') : partText(item))
+        .join(' ')
+        .trim();
+};
+
+const textResponse = (text: string): GenerateContentResponse => Object.assign(new GenerateContentResponse(), {
+    candidates: [{ content: { role: 'model', parts: [{ text }] }, finishReason: 'STOP' }],
+});
+
+const inlineResponse = (data: string, mimeType: string): GenerateContentResponse => Object.assign(new GenerateContentResponse(), {
+    candidates: [{ content: { role: 'model', parts: [{ inlineData: { data, mimeType } }] }, finishReason: 'STOP' }],
+});
+
+// Reports every URL in the prompt as retrieved, as the URL context tool does for public pages.
+const urlContextResponse = (prompt: string): GenerateContentResponse => {
+    const response = textResponse(mockText('summary of the linked page', prompt));
+    const urls = prompt.match(/https?:\/\/[^\s"')]+/g) ?? [];
+    response.candidates![0].urlContextMetadata = {
+        urlMetadata: urls.map(url => ({ retrievedUrl: url, urlRetrievalStatus: UrlRetrievalStatus.URL_RETRIEVAL_STATUS_SUCCESS })),
+    };
+    return response;
+};
+
+async function* streamText(text: string, signal?: AbortSignal): AsyncGenerator<GenerateContentResponse> {
+    const words = text.split(/(\s+)/);
+    for (let i = 0; i < words.length; i += 6) {
+        await delay(40, signal);
+        yield textResponse(words.slice(i, i + 6).join(''));
+    }
+}
+
+// JSON requests get a value shaped by their response schema. Arrays of strings echo the JSON array
+// that ends the prompt, each item marked as mock, so features that map the items back to their input
+// (such as document translation) work offline; strings with an enum take its first value.
+const mockJson = (schema: Schema | undefined, prompt: string): unknown => {
+    switch (schema?.type) {
+        case Type.OBJECT:
+            return Object.fromEntries(Object.entries(schema.properties ?? {}).map(([key, property]) => [key, mockJson(property, prompt)]));
+        case Type.ARRAY:
+            if (schema.items?.type === Type.OBJECT) return [mockJson(schema.items, prompt)];
+            try {
+                const items = JSON.parse(prompt.match(/\[[^\n]*\]\s*$/)?.[0] ?? '[]');
+                return Array.isArray(items) ? items.map(item => `${item} (mock)`) : [];
+            } catch {
+                return [];
+            }
+        case Type.STRING:
+            return schema.enum?.[0] ?? mockText('JSON value', prompt);
+        default:
+            return null;
+    }
+};
+
+const generateContent = async (params: GenerateContentParameters): Promise<GenerateContentResponse> => {
+    await delay(300, params.config?.abortSignal);
+    const prompt = promptText(params.contents);
+    const modalities = params.config?.responseModalities || [];
+    if (modalities.includes(Modality.IMAGE)) {
+        return inlineResponse(placeholderImage(prompt), 'image/png');
+    }
+    if (modalities.includes(Modality.AUDIO)) {
+        return inlineResponse(tonePcm(), `audio/pcm;rate=${MOCK_AUDIO_SAMPLE_RATE}`);
+    }
+    if (params.config?.tools?.some(tool => 'urlContext' in tool)) {
+        return urlContextResponse(prompt);
+    }
+    if (params.config?.responseMimeType === 'application/json') {
+        return textResponse(JSON.stringify(mockJson(params.config.responseSchema as Schema | undefined, prompt)));
+    }
+    return textResponse(mockText(`response from ${params.model}`, prompt));
+};
+
+const createMockChat = (model: string): GeminiChat => ({
+    sendMessage: async (params: SendMessageParameters) => {
+        await delay(200, params.config?.abortSignal);
+        return textResponse(mockText(`chat reply from ${model}`, promptText(params.message as ContentListUnion)));
+    },
+    sendMessageStream: async (params: SendMessageParameters) => {
+        return streamText(mockText(`chat reply from ${model}`, promptText(params.message as ContentListUnion)), params.config?.abortSignal);
+    },
+});
+
+const connectMockLive = async (params: LiveConnectParameters): Promise<GeminiLiveSession> => {
+    const { callbacks } = params;
+    let closed = false;
+    let chunksReceived = 0;
+    let turns = 0;
+
+    const emit = (message: Partial<LiveServerMessage>) => {
+        if (!closed) callbacks.onmessage(Object.assign(new LiveServerMessage(), message));
+    };
+
+    const respond = async () => {
+        turns++;
+        emit({ serverContent: { inputTranscription: { text: `(mock) spoken input #${turns}` } } });
+        await delay(200);
+        emit({ serverContent: { outputTranscription: { text: `This is mock reply number ${turns} from the offline Live backend.` } } });
+        emit({ serverContent: { modelTurn: { role: 'model', parts: [{ inlineData: { data: tonePcm(1), mimeType: `audio/pcm;rate=${MOCK_AUDIO_SAMPLE_RATE}` } }] } } });
+        await delay(200);
+        emit({ serverContent: { turnComplete: true } });
+    };
+
+    setTimeout(() => {
+        if (!closed) callbacks.onopen?.();
+    }, 100);
+
+    return {
+        sendRealtimeInput: (input) => {
+            if (closed) return;
+            chunksReceived++;
+            if (input.text || chunksReceived % LIVE_CHUNKS_PER_TURN === 0) {
+                respond();
+            }
+        },
+        close: () => {
+            if (closed) return;
+            closed = true;
+            callbacks.onclose?.(new CloseEvent('close'));
+        },
+    };
+};
+
+// An offline stand-in for the Gemini API that answers every call with canned fixtures.
+export const createMockTransport = (): GeminiTransport => {
+    const videoPrompts = new Map<string, string>();
+    const videoPolls = new Map<string, number>();
+    // Prefixed per page load so operations resumed after a reload never collide with new ones.
+    const videoIdPrefix = Date.now().toString(36);
+    let nextVideoId = 1;
+
+    const client: GeminiClient = {
+        models: {
+            generateContent,
+            generateContentStream: async (params) => streamText((await generateContent(params)).text || '', params.config?.abortSignal),
+            generateImages: async (params) => {
+                await delay(500, params.config?.abortSignal);
+                const count = params.config?.numberOfImages || 1;
+                const mimeType = params.config?.outputMimeType || 'image/png';
+                return Object.assign(new GenerateImagesResponse(), {
+                    generatedImages: Array.from({ length: count }, (_, index) => ({
+                        image: { imageBytes: placeholderImage(`${params.prompt} (#${index + 1})`, mimeType), mimeType },
+                    })),
+                });
+            },
+            generateVideos: async (params) => {
+                await delay(300, params.config?.abortSignal);
+                const id = `${videoIdPrefix}-${nextVideoId++}`;
+                videoPrompts.set(id, params.prompt || 'Image-to-video');
+                videoPolls.set(id, 0);
+                return Object.assign(new GenerateVideosOperation(), { name: `operations/mock-video-${id}`, done: false });
+            },
+        },
+        chats: {
+            create: (params) => createMockChat(params.model),
+        },
+        live: {
+            connect: connectMockLive,
+        },
+        operations: {
+            getVideosOperation: async ({ operation, config }) => {
+                await delay(200, config?.abortSignal);
+                const id = operation.name?.replace('operations/mock-video-', '') || '';
+                const polls = (videoPolls.get(id) ?? VIDEO_POLLS_UNTIL_DONE) + 1;
+                videoPolls.set(id, polls);
+                if (polls < VIDEO_POLLS_UNTIL_DONE) {
+                    return Object.assign(new GenerateVideosOperation(), { name: operation.name, done: false });
+                }
+                return Object.assign(new GenerateVideosOperation(), {
+                    name: operation.name,
+                    done: true,
+                    response: { generatedVideos: [{ video: { uri: `${MOCK_VIDEO_SCHEME}${id}`, mimeType: 'video/webm' } }] },
+                });
+            },
+        },
+        fetchFile: async (uri, signal) => {
+            if (!uri.startsWith(MOCK_VIDEO_SCHEME)) {
+                throw new Error(`The mock backend cannot download ${uri}.`);
+            }
+            const id = uri.slice(MOCK_VIDEO_SCHEME.length);
+            const video = await placeholderVideo(videoPrompts.get(id) || `Mock video ${id}`);
+            signal?.throwIfAborted();
+            return video;
+        },
+    };
+
+    return {
+        name: 'mock',
+        createClient: () => client,
+    };
+};
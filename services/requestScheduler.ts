@@ -0,0 +1,148 @@
+import { createAbortError, sleep } from '../utils/abortUtils';
+
+// Per-model concurrency limits. Image and video models have the tightest quotas, which is
+// what forced Image Generation to go sequential in 1.3.1.
+const MODEL_CONCURRENCY: Record<string, number> = {
+    'imagen-4.0-generate-001': 1,
+    'gemini-2.5-flash-image': 1,
+    'veo-3.1-fast-generate-preview': 1,
+    'gemini-2.5-pro': 2,
+};
+const DEFAULT_CONCURRENCY = 3;
+export const MAX_REQUEST_ATTEMPTS = 5;
+const BASE_RETRY_DELAY_MS = 2000;
+const MAX_RETRY_DELAY_MS = 60000;
+
+export type RequestStatus =
+    | { state: 'queued'; position: number }
+    | { state: 'running'; attempt: number }
+    | { state: 'retrying'; attempt: number; retryAt: number; reason: string }
+    | { state: 'settled' };
+
+export interface ScheduleOptions {
+    onStatus?: (status: RequestStatus) => void;
+    // Removes the request from the queue, or stops retrying it, once aborted.
+    signal?: AbortSignal;
+}
+
+interface QueueEntry {
+    start: () => void;
+    onStatus?: (status: RequestStatus) => void;
+}
+
+interface Lane {
+    active: number;
+    queue: QueueEntry[];
+}
+
+const errorText = (error: any): string => {
+    if (!error) return '';
+    return typeof error.message === 'string' ? error.message : String(error);
+};
+
+export const isRetryableError = (error: any): boolean => {
+    const status = error?.status ?? error?.code;
+    if (status === 429 || status === 503) return true;
+    const message = errorText(error);
+    return /\b(429|503)\b|RESOURCE_EXHAUSTED|UNAVAILABLE|overloaded/i.test(message);
+};
+
+// Reads the server's `retryDelay` hint (e.g. "retryDelay": "17s" in a RetryInfo detail), if any.
+export const getRetryDelayHint = (error: any): number | null => {
+    const match = errorText(error).match(/retryDelay"?\s*:\s*"?(\d+(?:\.\d+)?)s/);
+    return match ? Math.round(parseFloat(match[1]) * 1000) : null;
+};
+
+const backoffDelay = (attempt: number): number => {
+    const exponential = Math.min(MAX_RETRY_DELAY_MS, BASE_RETRY_DELAY_MS * 2 ** (attempt - 1));
+    // Jitter keeps several rate-limited requests from retrying in lockstep.
+    return Math.round(exponential / 2 + Math.random() * exponential / 2);
+};
+
+export const createRequestScheduler = (limits: Record<string, number> = MODEL_CONCURRENCY, defaultLimit: number = DEFAULT_CONCURRENCY) => {
+    const lanes = new Map<string, Lane>();
+
+    const laneFor = (model: string): Lane => {
+        let lane = lanes.get(model);
+        if (!lane) {
+            lane = { active: 0, queue: [] };
+            lanes.set(model, lane);
+        }
+        return lane;
+    };
+
+    const announcePositions = (lane: Lane) => {
+        lane.queue.forEach((entry, index) => entry.onStatus?.({ state: 'queued', position: index + 1 }));
+    };
+
+    const pump = (model: string) => {
+        const lane = laneFor(model);
+        const limit = limits[model] ?? defaultLimit;
+        while (lane.active < limit && lane.queue.length > 0) {
+            const entry = lane.queue.shift()!;
+            lane.active++;
+            entry.start();
+        }
+        announcePositions(lane);
+    };
+
+    const schedule = <T>(model: string, task: () => Promise<T>, options: ScheduleOptions = {}): Promise<T> => {
+        const { onStatus, signal } = options;
+        const lane = laneFor(model);
+
+        return new Promise<T>((resolve, reject) => {
+            if (signal?.aborted) {
+                reject(createAbortError());
+                return;
+            }
+
+            const run = async () => {
+                signal?.removeEventListener('abort', onQueuedAbort);
+                try {
+                    for (let attempt = 1; ; attempt++) {
+                        signal?.throwIfAborted();
+                        onStatus?.({ state: 'running', attempt });
+                        try {
+                            resolve(await task());
+                            return;
+                        } catch (error) {
+                            if (signal?.aborted || attempt >= MAX_REQUEST_ATTEMPTS || !isRetryableError(error)) {
+                                throw error;
+                            }
+                            // The slot is held while backing off so other requests for this model stay queued.
+                            const delayMs = Math.min(MAX_RETRY_DELAY_MS, getRetryDelayHint(error) ?? backoffDelay(attempt));
+                            onStatus?.({ state: 'retrying', attempt: attempt + 1, retryAt: Date.now() + delayMs, reason: errorText(error) });
+                            await sleep(delayMs, signal);
+                        }
+                    }
+                } catch (error) {
+                    reject(error);
+                } finally {
+                    onStatus?.({ state: 'settled' });
+                    lane.active--;
+                    pump(model);
+                }
+            };
+
+            const entry: QueueEntry = { start: run, onStatus };
+            const onQueuedAbort = () => {
+                const index = lane.queue.indexOf(entry);
+                if (index === -1) return;
+                lane.queue.splice(index, 1);
+                onStatus?.({ state: 'settled' });
+                announcePositions(lane);
+                reject(createAbortError());
+            };
+            signal?.addEventListener('abort', onQueuedAbort, { once: true });
+
+            lane.queue.push(entry);
+            pump(model);
+        });
+    };
+
+    return { schedule };
+};
+
+export type RequestScheduler = ReturnType<typeof createRequestScheduler>;
+
+export const requestScheduler = createRequestScheduler();
@@ -0,0 +1,22 @@
+import { GenerateVideosOperation } from '@google/genai';
+import { GeminiClient } from './geminiClient';
+import { sleep } from '../utils/abortUtils';
+
+const POLL_INTERVAL_MS = 10000;
+
+// Polls a generateVideos operation until it finishes, then downloads the generated video.
+export const waitForGeneratedVideo = async (ai: GeminiClient, operation: GenerateVideosOperation, signal: AbortSignal): Promise<Blob> => {
+    while (!operation.done) {
+        await sleep(POLL_INTERVAL_MS, signal);
+        operation = await ai.operations.getVideosOperation({ operation, config: { abortSignal: signal } });
+    }
+    if (operation.error) {
+        throw new Error(String(operation.error.message || JSON.stringify(operation.error)));
+    }
+
+    const downloadLink = operation.response?.generatedVideos?.[0]?.video?.uri;
+    if (!downloadLink) {
+        throw new Error("Video generation completed, but no download link was provided.");
+    }
+    return ai.fetchFile(downloadLink, signal);
+};
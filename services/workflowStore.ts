@@ -0,0 +1,17 @@
+import { Workflow } from '../types';
+
+const WORKFLOWS_STORAGE_KEY = 'gemini-showcase-workflows';
+
+export const loadWorkflows = (): Workflow[] => {
+    try {
+        const stored = localStorage.getItem(WORKFLOWS_STORAGE_KEY);
+        return stored ? JSON.parse(stored) : [];
+    } catch (error) {
+        console.error("Failed to read saved workflows", error);
+        return [];
+    }
+};
+
+export const saveWorkflows = (workflows: Workflow[]) => {
+    localStorage.setItem(WORKFLOWS_STORAGE_KEY, JSON.stringify(workflows));
+};
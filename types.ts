@@ -1,4 +1,7 @@
-export type Feature = 'Image Generation' | 'Image Editing' | 'Image Understanding' | 'Video Generation' | 'Video Understanding' | 'Video Editing' | 'Text to Speech' | 'Audio Analysis' | 'Translation' | 'Link Summarizer' | 'Fast Chat' | 'Live Conversation' | 'History';
+import type { featureNames } from './features/registry';
+
+// Derived from the registry, so adding a feature needs no edit here.
+export type Feature = typeof featureNames[number];
 export type AspectRatio = "1:1" | "16:9" | "9:16" | "4:3" | "3:4";
 export type VideoAspectRatio = "16:9" | "9:16";
 
@@ -14,11 +17,266 @@ declare global {
     }
 }
 
+// Cross-feature hand-off ("Send to…")
+
+export type SendableKind = 'image' | 'video' | 'audio' | 'text';
+
+// An output handed from one feature to another's inputs; media travels as a File.
+export type SentAsset =
+    | { kind: 'image' | 'video' | 'audio'; file: File; source: Feature }
+    | { kind: 'text'; text: string; source: Feature };
+
 // History Types
-export interface HistoryItem {
+
+// Points at a binary payload kept in the history media store instead of inline in the item.
+export interface MediaRef {
+    mediaId: string;
+    mimeType: string;
+}
+
+// A media value saved with a history entry: a Blob/File when the entry is created, a MediaRef once it
+// has been moved to the media store, or a URL string in entries written by older versions.
+export type MediaValue = Blob | MediaRef | string;
+
+export interface TranscriptEntry {
+    source: 'user' | 'model';
+    text: string;
+}
+
+// How Link Summarizer got the content behind a link, and what it found there.
+export interface LinkSource {
+    // 'url-context': the Gemini URL context tool; 'youtube': the video itself; 'proxy': LINK_FETCH_PROXY.
+    method: 'url-context' | 'youtube' | 'proxy';
+    url: string;
+    title?: string;
+    byline?: string;
+    siteName?: string;
+    publishedAt?: string;
+    // The opening words of the content, as read by the model or the extractor.
+    excerpt?: string;
+    wordCount?: number;
+}
+
+// One link of a Link Summarizer digest; `error` is set when its content could not be retrieved.
+export interface LinkDigestItem {
+    url: string;
+    summary?: string;
+    source?: LinkSource;
+    error?: string;
+}
+
+// Bumped whenever the shape of a feature's inputs or outputs changes; see services/historyMigrations.ts.
+export const HISTORY_SCHEMA_VERSION = 2;
+
+interface HistoryEntry<F extends Feature, I, O> {
     id: string;
-    feature: Feature;
+    feature: F;
     timestamp: number;
+    version: number;
+    inputs: I;
+    outputs: O;
+    // Absent for runs that completed normally.
+    status?: 'cancelled';
+    // Set by the user from History.
+    title?: string;
+    pinned?: boolean;
+    tags?: string[];
+}
+
+// Outputs are optional wherever a cancelled run is saved without them.
+
+export type ImageGenerationEntry = HistoryEntry<'Image Generation', {
+    prompt: string;
+    mode: string;
+    model: string;
+    style: string;
+    aspectRatio: string;
+    numImages: number;
+    quality?: string;
+    image?: MediaValue | null;
+}, {
+    images: MediaValue[];
+}>;
+
+export type ImageEditingEntry = HistoryEntry<'Image Editing', {
+    prompt: string;
+    originalImage: MediaValue;
+}, {
+    editedImage?: MediaValue;
+}>;
+
+export type ImageUnderstandingEntry = HistoryEntry<'Image Understanding', {
+    prompt: string;
+    image: MediaValue;
+}, {
+    analysis?: string;
+}>;
+
+export type VideoGenerationEntry = HistoryEntry<'Video Generation', {
+    prompt: string;
+    mode: string;
+    image?: MediaValue | null;
+    model?: string;
+    style: string;
+    duration: number;
+    resolution: string;
+    aspectRatio: string;
+    frameRate: number;
+}, {
+    video?: MediaValue;
+}>;
+
+export type VideoUnderstandingEntry = HistoryEntry<'Video Understanding', {
+    prompt: string;
+    video: MediaValue;
+}, {
+    analysis?: string;
+}>;
+
+export type VideoEditingEntry = HistoryEntry<'Video Editing', {
+    prompt: string;
+    originalVideo: MediaValue;
+}, {
+    editedVideo?: MediaValue;
+}>;
+
+export type TextToSpeechEntry = HistoryEntry<'Text to Speech', {
+    text: string;
+    voice: string;
+}, {
+    audio?: MediaValue;
+}>;
+
+export type AudioAnalysisEntry = HistoryEntry<'Audio Analysis', {
+    prompt: string;
+    audio: MediaValue;
+}, {
+    analysis?: string;
+}>;
+
+export type TranslationEntry = HistoryEntry<'Translation', {
+    text: string;
+    sourceLanguage: string;
+    targetLanguage: string;
+    // Set for documents translated in Documents mode; `text` then holds the file's content.
+    fileName?: string;
+    formality?: string;
+    tone?: string;
+    // The glossary terms that applied, as described by describeGlossary.
+    glossary?: string;
+    // Set in Voice mode; `text` then holds the transcript of the recording.
+    sourceAudio?: MediaValue;
+    voice?: string;
+}, {
+    translatedText?: string;
+    // Reported when the source language was "Auto-detect".
+    detectedLanguage?: string;
+    // The translation read aloud, in Voice mode.
+    speech?: MediaValue;
+    // Set when the quality check ran. Both describe the first translation, even when an alternative was kept.
+    backTranslation?: string;
+    confidence?: string;
+    // The nuance note of the alternative that was kept instead of the first translation.
+    alternativeNote?: string;
+}>;
+
+export type LinkSummarizerEntry = HistoryEntry<'Link Summarizer', {
+    url: string;
+    // Every link of a digest, in order; `url` then holds the first.
+    links?: string[];
+    format?: string;
+    length?: string;
+    language?: string;
+}, {
+    // The summary of a single link, or the combined digest of several.
+    summary?: string;
+    source?: LinkSource;
+    links?: LinkDigestItem[];
+    // Follow-up questions about the content and their answers.
+    transcript?: TranscriptEntry[];
+}>;
+
+export type FastChatEntry = HistoryEntry<'Fast Chat', {
+    model: string;
+}, {
+    transcript: TranscriptEntry[];
+}>;
+
+export type LiveConversationEntry = HistoryEntry<'Live Conversation', {}, {
+    transcript: TranscriptEntry[];
+}>;
+
+export type HistoryItem =
+    | ImageGenerationEntry
+    | ImageEditingEntry
+    | ImageUnderstandingEntry
+    | VideoGenerationEntry
+    | VideoUnderstandingEntry
+    | VideoEditingEntry
+    | TextToSpeechEntry
+    | AudioAnalysisEntry
+    | TranslationEntry
+    | LinkSummarizerEntry
+    | FastChatEntry
+    | LiveConversationEntry;
+
+export type HistoryFeature = HistoryItem['feature'];
+
+export type HistoryItemMetadata = Pick<HistoryItem, 'title' | 'pinned' | 'tags'>;
+
+export type HistoryItemOf<F extends Feature> = Extract<HistoryItem, { feature: F }>;
+
+type DistributiveOmit<T, K extends keyof any> = T extends any ? Omit<T, K> : never;
+
+// What features pass to addHistoryItem; the schema version is stamped on save.
+export type NewHistoryItem = DistributiveOmit<HistoryItem, 'version'>;
+
+// Job Types
+
+export type VideoJobStatus = 'starting' | 'running' | 'succeeded' | 'failed' | 'cancelled';
+
+// A video generation that outlives the feature that started it. Persisted so polling resumes after a reload.
+export interface VideoJob {
+    id: string;
+    feature: HistoryFeature;
+    label: string;
+    status: VideoJobStatus;
+    createdAt: number;
+    finishedAt?: number;
+    // Name of the long-running operation returned by generateVideos, used to resume polling.
+    operationName?: string;
+    // Saved with the History entry once the video is ready.
     inputs: Record<string, any>;
-    outputs: Record<string, any>;
-}
\ No newline at end of file
+    outputKey: string;
+    historyItemId?: string;
+    error?: string;
+    // False until the user has opened the job panel after the job finished.
+    seen: boolean;
+}
+
+// Workflow Types
+
+export interface WorkflowStep {
+    id: string;
+    // Key of the operation in features/common/workflowSteps.ts, e.g. 'translate'.
+    type: string;
+    settings: Record<string, string>;
+}
+
+// A saved chain of feature operations; each step's output feeds the next step's input.
+export interface Workflow {
+    id: string;
+    name: string;
+    steps: WorkflowStep[];
+    updatedAt: number;
+}
+
+// Translation Types
+
+// A glossary term with a required translation. An empty translation marks a do-not-translate
+// term, and an empty language applies the entry to every target language.
+export interface GlossaryEntry {
+    term: string;
+    translation: string;
+    language: string;
+}
@@ -0,0 +1,22 @@
+export const createAbortError = (): DOMException => new DOMException('The operation was cancelled.', 'AbortError');
+
+export const isAbortError = (error: any): boolean => error?.name === 'AbortError';
+
+// Resolves after `ms`, or rejects with an AbortError as soon as `signal` is aborted.
+export const sleep = (ms: number, signal?: AbortSignal): Promise<void> => {
+    return new Promise((resolve, reject) => {
+        if (signal?.aborted) {
+            reject(createAbortError());
+            return;
+        }
+        const onAbort = () => {
+            clearTimeout(timeout);
+            reject(createAbortError());
+        };
+        const timeout = setTimeout(() => {
+            signal?.removeEventListener('abort', onAbort);
+            resolve();
+        }, ms);
+        signal?.addEventListener('abort', onAbort, { once: true });
+    });
+};
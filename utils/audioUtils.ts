@@ -39,3 +39,44 @@ export async function decodeAudioData(
   }
   return buffer;
 }
+
+// Encode an AudioBuffer as a 16-bit PCM WAV file.
+export function audioBufferToWav(buffer: AudioBuffer): Blob {
+  const numOfChan = buffer.numberOfChannels,
+    len = buffer.length * numOfChan * 2 + 44,
+    bufferOut = new ArrayBuffer(len),
+    view = new DataView(bufferOut),
+    channels = [];
+  let i, sample, offset = 0, pos = 0;
+
+  setUint32(0x46464952);
+  setUint32(len - 8);
+  setUint32(0x45564157);
+  setUint32(0x20746d66);
+  setUint32(16);
+  setUint16(1);
+  setUint16(numOfChan);
+  setUint32(buffer.sampleRate);
+  setUint32(buffer.sampleRate * 2 * numOfChan);
+  setUint16(numOfChan * 2);
+  setUint16(16);
+  setUint32(0x61746164);
+  setUint32(len - pos - 4);
+
+  function setUint16(data: number) { view.setUint16(pos, data, true); pos += 2; }
+  function setUint32(data: number) { view.setUint32(pos, data, true); pos += 4; }
+
+  for (i = 0; i < numOfChan; i++) channels.push(buffer.getChannelData(i));
+
+  while (pos < len) {
+    for (i = 0; i < numOfChan; i++) {
+      sample = Math.max(-1, Math.min(1, channels[i][offset]));
+      sample = (0.5 + sample < 0 ? sample * 32768 : sample * 32767) | 0;
+      view.setInt16(pos, sample, true);
+      pos += 2;
+    }
+    offset++;
+  }
+
+  return new Blob([bufferOut], { type: "audio/wav" });
+}
@@ -5,6 +5,9 @@ export const getFriendlyErrorMessage = (error: any): string => {
         if (defaultMessage.includes('exceeded your current quota') || defaultMessage.includes('RESOURCE_EXHAUSTED')) {
             return "You've exceeded your API usage quota. Please check your plan and billing details, or wait a while before trying again. For more information, visit the [Gemini API documentation on rate limits](https://ai.google.dev/gemini-api/docs/rate-limits).";
         }
+        if (defaultMessage.includes('UNAVAILABLE') || defaultMessage.includes('overloaded')) {
+            return "The model is temporarily overloaded and did not recover after several automatic retries. Please try again in a few minutes.";
+        }
         // Add other friendly error messages here if needed in the future
     }
     
@@ -108,4 +108,36 @@ export const extractLastVideoFrame = async (
             reject(new Error("Failed to load video. It may be in an unsupported format."));
         };
     });
-};
\ No newline at end of file
+};
+export const dataUrlToBlob = (dataUrl: string): Blob => {
+    const [header, data] = dataUrl.split(',');
+    const mimeType = header.match(/^data:([^;,]+)/)?.[1] || 'application/octet-stream';
+    if (!header.includes(';base64')) {
+        return new Blob([decodeURIComponent(data)], { type: mimeType });
+    }
+    const binaryString = atob(data);
+    const bytes = new Uint8Array(binaryString.length);
+    for (let i = 0; i < binaryString.length; i++) {
+        bytes[i] = binaryString.charCodeAt(i);
+    }
+    return new Blob([bytes], { type: mimeType });
+};
+
+export const downloadUrl = (url: string, filename: string) => {
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = filename;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+};
+
+export const downloadBlob = (blob: Blob, filename: string) => {
+    const url = URL.createObjectURL(blob);
+    downloadUrl(url, filename);
+    URL.revokeObjectURL(url);
+};
+
+export const downloadText = (content: string, filename: string, type: string = 'text/plain') => {
+    downloadBlob(new Blob([content], { type }), filename);
+};
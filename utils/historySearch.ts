@@ -0,0 +1,204 @@
+import { Feature, HistoryItem } from '../types';
+import { HistoryField, HistoryFieldKind } from '../features/common/featureDefinition';
+import { getFeatureDefinition } from '../features/registry';
+
+export type HistoryMediaType = 'image' | 'video' | 'audio' | 'text';
+
+export const HISTORY_MEDIA_TYPES: HistoryMediaType[] = ['image', 'video', 'audio', 'text'];
+
+export type HistorySort = 'newest' | 'oldest' | 'relevance' | 'feature';
+
+export interface HistoryFilters {
+    query: string;
+    feature: Feature | '';
+    model: string;
+    mediaType: HistoryMediaType | '';
+    tag: string;
+    // Inclusive day bounds as `YYYY-MM-DD`, matching `<input type="date">` values.
+    from: string;
+    to: string;
+    sort: HistorySort;
+}
+
+export const EMPTY_HISTORY_FILTERS: HistoryFilters = {
+    query: '',
+    feature: '',
+    model: '',
+    mediaType: '',
+    tag: '',
+    from: '',
+    to: '',
+    sort: 'newest',
+};
+
+interface IndexedEntry {
+    item: HistoryItem;
+    tokens: Set<string>;
+    model?: string;
+    mediaTypes: Set<HistoryMediaType>;
+}
+
+export interface HistoryIndex {
+    entries: Map<string, IndexedEntry>;
+    // Inverted index from each token to the ids of the entries containing it.
+    postings: Map<string, Set<string>>;
+}
+
+const MEDIA_KINDS: Partial<Record<HistoryFieldKind, HistoryMediaType>> = {
+    image: 'image',
+    images: 'image',
+    video: 'video',
+    audio: 'audio',
+};
+
+const tokenize = (text: string): string[] => text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [];
+
+// Collects the searchable text of a saved value: strings, transcript messages and lists of either.
+const collectText = (value: unknown, out: string[]) => {
+    if (typeof value === 'string') {
+        // Media saved before it was moved to IndexedDB is inlined as a data URL.
+        if (!value.startsWith('data:')) out.push(value);
+    } else if (Array.isArray(value)) {
+        value.forEach(entry => collectText(entry, out));
+    } else if (value && typeof value === 'object' && 'text' in value) {
+        collectText((value as { text: unknown }).text, out);
+    }
+};
+
+// History entries are replaced rather than mutated, so each one is tokenized once and reused across rebuilds.
+const entryCache = new WeakMap<HistoryItem, IndexedEntry>();
+
+const indexEntry = (item: HistoryItem): IndexedEntry => {
+    const cached = entryCache.get(item);
+    if (cached) return cached;
+
+    const definition = getFeatureDefinition(item.feature);
+    const text: string[] = [item.feature, item.title ?? '', ...(item.tags ?? [])];
+    const mediaTypes = new Set<HistoryMediaType>();
+    const sections: [object, Map<string, HistoryField>][] = [
+        [item.inputs, new Map(Object.entries(definition.inputSchema))],
+        [item.outputs, new Map(Object.entries(definition.outputSchema))],
+    ];
+    for (const [values, fields] of sections) {
+        for (const [key, value] of Object.entries(values)) {
+            if (value === undefined || value === null || value === '') continue;
+            const mediaType = MEDIA_KINDS[fields.get(key)?.kind ?? 'text'];
+            if (mediaType) {
+                if (!Array.isArray(value) || value.length > 0) mediaTypes.add(mediaType);
+            } else {
+                collectText(value, text);
+                if (values === item.outputs) mediaTypes.add('text');
+            }
+        }
+    }
+    // A digest's per-link summaries sit inside objects collectText skips.
+    if (item.feature === 'Link Summarizer') {
+        item.outputs.links?.forEach(link => collectText([link.source?.title, link.summary], text));
+    }
+
+    const model = 'model' in item.inputs && typeof item.inputs.model === 'string' ? item.inputs.model : undefined;
+    const entry: IndexedEntry = { item, tokens: new Set(text.flatMap(tokenize)), model, mediaTypes };
+    entryCache.set(item, entry);
+    return entry;
+};
+
+export const buildHistoryIndex = (items: HistoryItem[]): HistoryIndex => {
+    const entries = new Map<string, IndexedEntry>();
+    const postings = new Map<string, Set<string>>();
+    for (const item of items) {
+        const entry = indexEntry(item);
+        entries.set(item.id, entry);
+        for (const token of entry.tokens) {
+            let ids = postings.get(token);
+            if (!ids) postings.set(token, ids = new Set());
+            ids.add(item.id);
+        }
+    }
+    return { entries, postings };
+};
+
+// Ids of entries containing every query term, where a term matches any token it is a prefix of.
+// Exact token matches score higher than prefix matches, for relevance sorting.
+const searchIndex = (index: HistoryIndex, query: string): Map<string, number> | null => {
+    const terms = [...new Set(tokenize(query))];
+    if (terms.length === 0) return null;
+
+    let scores: Map<string, number> | null = null;
+    for (const term of terms) {
+        const termScores = new Map<string, number>();
+        for (const [token, ids] of index.postings) {
+            if (!token.startsWith(term)) continue;
+            const weight = token === term ? 2 : 1;
+            ids.forEach(id => termScores.set(id, Math.max(termScores.get(id) ?? 0, weight)));
+        }
+        const previous: Map<string, number> | null = scores;
+        scores = new Map();
+        for (const [id, score] of termScores) {
+            if (previous && !previous.has(id)) continue;
+            scores.set(id, (previous?.get(id) ?? 0) + score);
+        }
+        if (scores.size === 0) break;
+    }
+    return scores;
+};
+
+const dayStart = (day: string) => new Date(`${day}T00:00:00`).getTime();
+
+export interface HistoryFacets {
+    features: Map<Feature, number>;
+    models: Map<string, number>;
+    tags: Map<string, number>;
+    mediaTypes: Map<HistoryMediaType, number>;
+}
+
+export interface HistorySearchResult {
+    items: HistoryItem[];
+    // Counts among the entries matching the search text and date range, for the filter dropdowns.
+    facets: HistoryFacets;
+}
+
+const increment = <K>(map: Map<K, number>, key: K) => map.set(key, (map.get(key) ?? 0) + 1);
+
+export const searchHistory = (index: HistoryIndex, filters: HistoryFilters): HistorySearchResult => {
+    const scores = searchIndex(index, filters.query);
+    const from = filters.from ? dayStart(filters.from) : -Infinity;
+    // Inclusive of the whole `to` day.
+    const to = filters.to ? dayStart(filters.to) + 24 * 60 * 60 * 1000 : Infinity;
+
+    const facets: HistoryFacets = { features: new Map(), models: new Map(), tags: new Map(), mediaTypes: new Map() };
+    const matches: IndexedEntry[] = [];
+    for (const [id, entry] of index.entries) {
+        if (scores && !scores.has(id)) continue;
+        if (entry.item.timestamp < from || entry.item.timestamp >= to) continue;
+
+        increment(facets.features, entry.item.feature);
+        if (entry.model) increment(facets.models, entry.model);
+        entry.item.tags?.forEach(tag => increment(facets.tags, tag));
+        entry.mediaTypes.forEach(type => increment(facets.mediaTypes, type));
+
+        if (filters.feature && entry.item.feature !== filters.feature) continue;
+        if (filters.model && entry.model !== filters.model) continue;
+        if (filters.mediaType && !entry.mediaTypes.has(filters.mediaType)) continue;
+        if (filters.tag && !entry.item.tags?.includes(filters.tag)) continue;
+        matches.push(entry);
+    }
+
+    const byNewest = (a: IndexedEntry, b: IndexedEntry) => b.item.timestamp - a.item.timestamp;
+    switch (filters.sort) {
+        case 'oldest':
+            matches.sort((a, b) => a.item.timestamp - b.item.timestamp);
+            break;
+        case 'feature':
+            matches.sort((a, b) => a.item.feature.localeCompare(b.item.feature) || byNewest(a, b));
+            break;
+        case 'relevance':
+            matches.sort((a, b) => (scores ? (scores.get(b.item.id) ?? 0) - (scores.get(a.item.id) ?? 0) : 0) || byNewest(a, b));
+            break;
+        default:
+            matches.sort(byNewest);
+    }
+    // Pinned entries stay on top in every order; the sort is stable, so each group keeps its order.
+    matches.sort((a, b) => Number(!!b.item.pinned) - Number(!!a.item.pinned));
+
+    return { items: matches.map(entry => entry.item), facets };
+};
@@ -0,0 +1,108 @@
+// Parses the prompt lists used by Image Generation's batch mode: a CSV with a header row, or JSON
+// holding an array of prompt strings or of objects. Only `prompt` is required; the other columns
+// override the form's settings for that row.
+
+export interface PromptRow {
+    // 1-based position in the list (data rows, not counting a CSV header).
+    row: number;
+    prompt: string;
+    style?: string;
+    aspectRatio?: string;
+    model?: string;
+}
+
+export interface PromptList {
+    rows: PromptRow[];
+    // Rows that were skipped, e.g. for a missing prompt.
+    errors: string[];
+}
+
+const COLUMN_ALIASES: Record<string, keyof Omit<PromptRow, 'row'>> = {
+    prompt: 'prompt',
+    style: 'style',
+    aspectratio: 'aspectRatio',
+    aspect_ratio: 'aspectRatio',
+    'aspect ratio': 'aspectRatio',
+    ratio: 'aspectRatio',
+    model: 'model',
+};
+
+const columnKey = (name: string) => COLUMN_ALIASES[name.trim().toLowerCase()];
+
+// RFC 4180 CSV: quoted fields may contain commas, newlines and doubled quotes.
+export const parseCsv = (text: string): string[][] => {
+    const records: string[][] = [];
+    let record: string[] = [];
+    let field = '';
+    let inQuotes = false;
+
+    for (let i = 0; i < text.length; i++) {
+        const char = text[i];
+        if (inQuotes) {
+            if (char === '"' && text[i + 1] === '"') {
+                field += '"';
+                i++;
+            } else if (char === '"') {
+                inQuotes = false;
+            } else {
+                field += char;
+            }
+        } else if (char === '"') {
+            inQuotes = true;
+        } else if (char === ',') {
+            record.push(field);
+            field = '';
+        } else if (char === '\n' || char === '\r') {
+            if (char === '\r' && text[i + 1] === '\n') i++;
+            record.push(field);
+            records.push(record);
+            record = [];
+            field = '';
+        } else {
+            field += char;
+        }
+    }
+    if (field || record.length > 0) {
+        record.push(field);
+        records.push(record);
+    }
+    // Blank lines carry no data.
+    return records.filter(r => r.some(value => value.trim()));
+};
+
+const toPromptList = (entries: Record<string, unknown>[]): PromptList => {
+    const list: PromptList = { rows: [], errors: [] };
+    entries.forEach((entry, index) => {
+        const row: PromptRow = { row: index + 1, prompt: '' };
+        for (const [name, value] of Object.entries(entry)) {
+            const key = columnKey(name);
+            const text = value === undefined || value === null ? '' : String(value).trim();
+            if (key && text) row[key] = text;
+        }
+        if (row.prompt) list.rows.push(row);
+        else list.errors.push(`Row ${row.row}: no prompt.`);
+    });
+    return list;
+};
+
+export const parsePromptList = (text: string, fileName: string): PromptList => {
+    const isJson = fileName.toLowerCase().endsWith('.json') || /^\s*[[{]/.test(text);
+    if (isJson) {
+        let data: unknown;
+        try {
+            data = JSON.parse(text);
+        } catch (e: any) {
+            throw new Error(`The JSON file could not be read: ${e?.message || e}`);
+        }
+        // Also accept `{ "prompts": [...] }`.
+        const entries = Array.isArray(data) ? data : (data as { prompts?: unknown })?.prompts;
+        if (!Array.isArray(entries)) throw new Error('The JSON file must contain an array of prompts.');
+        return toPromptList(entries.map(entry => typeof entry === 'string' ? { prompt: entry } : (entry ?? {}) as Record<string, unknown>));
+    }
+
+    const [header, ...records] = parseCsv(text);
+    if (!header?.some(name => columnKey(name) === 'prompt')) {
+        throw new Error('The CSV file needs a header row with a "prompt" column.');
+    }
+    return toPromptList(records.map(record => Object.fromEntries(header.map((name, i) => [name, record[i]]))));
+};
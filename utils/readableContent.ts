@@ -0,0 +1,61 @@
+export interface ReadableContent {
+    title?: string;
+    byline?: string;
+    siteName?: string;
+    publishedAt?: string;
+    description?: string;
+    // The main text, one paragraph, heading or list item per block, separated by blank lines.
+    text: string;
+}
+
+// Page furniture that is never part of the article.
+const NOISE_SELECTORS = [
+    'script', 'style', 'noscript', 'template', 'iframe', 'svg', 'canvas', 'form', 'button',
+    'nav', 'header', 'footer', 'aside', '[role="navigation"]', '[role="banner"]', '[role="contentinfo"]',
+    '[aria-hidden="true"]', '[hidden]',
+].join(',');
+const CONTAINER_SELECTORS = ['article', 'main', '[role="main"]', '[itemprop="articleBody"]'];
+const BLOCK_SELECTORS = 'h1,h2,h3,h4,h5,h6,p,li,blockquote,pre,figcaption,td';
+
+const normalizeSpace = (text: string | null | undefined) => (text ?? '').replace(/\s+/g, ' ').trim();
+
+const firstMeta = (doc: Document, selectors: string[]): string | undefined => {
+    for (const selector of selectors) {
+        const value = normalizeSpace(doc.querySelector(selector)?.getAttribute('content'));
+        if (value) return value;
+    }
+    return undefined;
+};
+
+// The text of the outermost blocks under `root`, so nested blocks (a paragraph inside a list item) are not repeated.
+const blockText = (root: Element): string => {
+    const blocks = Array.from(root.querySelectorAll(BLOCK_SELECTORS))
+        .filter(block => {
+            const enclosingBlock = block.parentElement?.closest(BLOCK_SELECTORS);
+            return !enclosingBlock || !root.contains(enclosingBlock);
+        })
+        .map(block => block.tagName === 'PRE' ? (block.textContent ?? '').trim() : normalizeSpace(block.textContent))
+        .filter(Boolean);
+    return blocks.length > 0 ? blocks.join('\n\n') : normalizeSpace(root.textContent);
+};
+
+// A lightweight reader view: page metadata plus the text of the element most likely to hold the article.
+export const extractReadableContent = (html: string): ReadableContent => {
+    const doc = new DOMParser().parseFromString(html, 'text/html');
+    const title = firstMeta(doc, ['meta[property="og:title"]', 'meta[name="twitter:title"]']) || normalizeSpace(doc.title) || undefined;
+    const byline = firstMeta(doc, ['meta[name="author"]', 'meta[property="article:author"]', 'meta[name="byl"]'])
+        || normalizeSpace(doc.querySelector('[rel="author"], [itemprop="author"], .byline, .author')?.textContent) || undefined;
+    const siteName = firstMeta(doc, ['meta[property="og:site_name"]', 'meta[name="application-name"]']);
+    const publishedAt = firstMeta(doc, ['meta[property="article:published_time"]', 'meta[name="date"]', 'meta[itemprop="datePublished"]'])
+        || doc.querySelector('time[datetime]')?.getAttribute('datetime') || undefined;
+    const description = firstMeta(doc, ['meta[name="description"]', 'meta[property="og:description"]']);
+
+    doc.querySelectorAll(NOISE_SELECTORS).forEach(element => element.remove());
+    const candidates = CONTAINER_SELECTORS.flatMap(selector => Array.from(doc.querySelectorAll(selector)));
+    // The candidate with the most text wins; pages without one fall back to the whole body.
+    const root = candidates.reduce<Element | null>((best, candidate) => {
+        return !best || (candidate.textContent ?? '').length > (best.textContent ?? '').length ? candidate : best;
+    }, null) ?? doc.body;
+
+    return { title, byline, siteName, publishedAt, description, text: root ? blockText(root) : '' };
+};
@@ -0,0 +1,46 @@
+import { Feature } from '../types';
+import { findFeatureByRoute, getFeatureDefinition } from '../features/registry';
+
+// Routes live in the URL hash (e.g. `#/translation?text=Hi&target=Tamil`, `#/history/1718000000000`)
+// so they survive reloads and work on static hosting without server rewrites.
+export interface Route {
+    feature: Feature;
+    // Query parameters used to pre-fill the feature's inputs.
+    params: URLSearchParams;
+    // Set for `#/history/<id>` links to a single History entry.
+    historyItemId?: string;
+}
+
+export const DEFAULT_FEATURE: Feature = 'Image Generation';
+
+export const parseHash = (hash: string): Route => {
+    const path = hash.replace(/^#\/?/, '');
+    const queryStart = path.indexOf('?');
+    const [slug, itemId] = (queryStart === -1 ? path : path.slice(0, queryStart)).split('/');
+    const feature = findFeatureByRoute(slug)?.name ?? DEFAULT_FEATURE;
+
+    return {
+        feature,
+        params: new URLSearchParams(queryStart === -1 ? '' : path.slice(queryStart + 1)),
+        historyItemId: feature === 'History' && itemId ? decodeURIComponent(itemId) : undefined,
+    };
+};
+
+export const featureHash = (feature: Feature, params?: Record<string, string>): string => {
+    const query = params ? new URLSearchParams(params).toString() : '';
+    return `#/${getFeatureDefinition(feature).route}${query ? `?${query}` : ''}`;
+};
+
+export const historyItemHash = (id: string): string => `#/${getFeatureDefinition('History').route}/${encodeURIComponent(id)}`;
+
+// Opens the feature that produced a History entry with its inputs restored, optionally running it
+// straight away. See useHistoryRestore.
+export const rerunHash = (item: { id: string; feature: Feature }, runImmediately: boolean): string => {
+    return featureHash(item.feature, runImmediately ? { from: item.id, run: '1' } : { from: item.id });
+};
+
+// Reads a query parameter that must be one of a fixed set of options, ignoring case.
+export const optionParam = <T extends string>(params: URLSearchParams, key: string, options: readonly T[], fallback: T): T => {
+    const value = params.get(key)?.toLowerCase();
+    return options.find(option => option.toLowerCase() === value) ?? fallback;
+};
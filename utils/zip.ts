@@ -0,0 +1,154 @@
+// Minimal ZIP support for History archives. Files are written uncompressed (most History media is
+// already compressed); reading also handles deflated entries so archives repacked by other tools still open.
+
+export interface ZipFileInput {
+    name: string;
+    data: Blob | string;
+    lastModified?: Date;
+}
+
+const LOCAL_HEADER_SIGNATURE = 0x04034b50;
+const CENTRAL_HEADER_SIGNATURE = 0x02014b50;
+const END_OF_CENTRAL_DIRECTORY_SIGNATURE = 0x06054b50;
+const UTF8_FLAG = 0x0800;
+const METHOD_STORE = 0;
+const METHOD_DEFLATE = 8;
+
+const CRC_TABLE = (() => {
+    const table = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+        let c = n;
+        for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+        table[n] = c >>> 0;
+    }
+    return table;
+})();
+
+const crc32 = (bytes: Uint8Array): number => {
+    let crc = 0xffffffff;
+    for (let i = 0; i < bytes.length; i++) crc = CRC_TABLE[(crc ^ bytes[i]) & 0xff] ^ (crc >>> 8);
+    return (crc ^ 0xffffffff) >>> 0;
+};
+
+// MS-DOS date and time fields, in local time with two-second precision.
+const dosDateTime = (date: Date): { time: number; date: number } => ({
+    time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+    date: (Math.max(date.getFullYear() - 1980, 0) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+});
+
+export const createZip = async (files: ZipFileInput[]): Promise<Blob> => {
+    const encoder = new TextEncoder();
+    const parts: BlobPart[] = [];
+    const centralDirectory: Uint8Array[] = [];
+    let offset = 0;
+
+    for (const file of files) {
+        const name = encoder.encode(file.name);
+        const bytes = typeof file.data === 'string' ? encoder.encode(file.data) : new Uint8Array(await file.data.arrayBuffer());
+        const crc = crc32(bytes);
+        const { time, date } = dosDateTime(file.lastModified ?? new Date());
+
+        const local = new DataView(new ArrayBuffer(30));
+        local.setUint32(0, LOCAL_HEADER_SIGNATURE, true);
+        local.setUint16(4, 20, true);
+        local.setUint16(6, UTF8_FLAG, true);
+        local.setUint16(8, METHOD_STORE, true);
+        local.setUint16(10, time, true);
+        local.setUint16(12, date, true);
+        local.setUint32(14, crc, true);
+        local.setUint32(18, bytes.length, true);
+        local.setUint32(22, bytes.length, true);
+        local.setUint16(26, name.length, true);
+        local.setUint16(28, 0, true);
+
+        const central = new DataView(new ArrayBuffer(46));
+        central.setUint32(0, CENTRAL_HEADER_SIGNATURE, true);
+        central.setUint16(4, 20, true);
+        central.setUint16(6, 20, true);
+        central.setUint16(8, UTF8_FLAG, true);
+        central.setUint16(10, METHOD_STORE, true);
+        central.setUint16(12, time, true);
+        central.setUint16(14, date, true);
+        central.setUint32(16, crc, true);
+        central.setUint32(20, bytes.length, true);
+        central.setUint32(24, bytes.length, true);
+        central.setUint16(28, name.length, true);
+        central.setUint32(42, offset, true);
+        centralDirectory.push(new Uint8Array(central.buffer), name);
+
+        parts.push(local.buffer, name, bytes);
+        offset += 30 + name.length + bytes.length;
+    }
+
+    const centralSize = centralDirectory.reduce((size, part) => size + part.length, 0);
+    const end = new DataView(new ArrayBuffer(22));
+    end.setUint32(0, END_OF_CENTRAL_DIRECTORY_SIGNATURE, true);
+    end.setUint16(8, files.length, true);
+    end.setUint16(10, files.length, true);
+    end.setUint32(12, centralSize, true);
+    end.setUint32(16, offset, true);
+
+    return new Blob([...parts, ...centralDirectory, end.buffer], { type: 'application/zip' });
+};
+
+export interface ZipEntry {
+    name: string;
+    // Reads the entry's contents; stored entries are sliced from the archive without copying.
+    read: () => Promise<Blob>;
+}
+
+const INVALID_ZIP = 'The file is not a valid ZIP archive.';
+
+// Lists the files in an archive, keyed by path. Directories are skipped.
+export const readZip = async (archive: Blob): Promise<Map<string, ZipEntry>> => {
+    // The end-of-central-directory record is the last 22 bytes, followed by a comment of up to 64 KB.
+    const tailStart = Math.max(0, archive.size - 22 - 0xffff);
+    const tail = new DataView(await archive.slice(tailStart).arrayBuffer());
+    let endOffset = -1;
+    for (let i = tail.byteLength - 22; i >= 0; i--) {
+        if (tail.getUint32(i, true) === END_OF_CENTRAL_DIRECTORY_SIGNATURE) {
+            endOffset = i;
+            break;
+        }
+    }
+    if (endOffset === -1) throw new Error(INVALID_ZIP);
+
+    const entryCount = tail.getUint16(endOffset + 10, true);
+    const centralSize = tail.getUint32(endOffset + 12, true);
+    const centralOffset = tail.getUint32(endOffset + 16, true);
+    const central = new DataView(await archive.slice(centralOffset, centralOffset + centralSize).arrayBuffer());
+    const decoder = new TextDecoder();
+    const entries = new Map<string, ZipEntry>();
+
+    let position = 0;
+    for (let i = 0; i < entryCount; i++) {
+        if (position + 46 > central.byteLength || central.getUint32(position, true) !== CENTRAL_HEADER_SIGNATURE) {
+            throw new Error(INVALID_ZIP);
+        }
+        const method = central.getUint16(position + 10, true);
+        const compressedSize = central.getUint32(position + 20, true);
+        const nameLength = central.getUint16(position + 28, true);
+        const extraLength = central.getUint16(position + 30, true);
+        const commentLength = central.getUint16(position + 32, true);
+        const localOffset = central.getUint32(position + 42, true);
+        const name = decoder.decode(new Uint8Array(central.buffer, central.byteOffset + position + 46, nameLength));
+        position += 46 + nameLength + extraLength + commentLength;
+
+        if (name.endsWith('/')) continue;
+        entries.set(name, {
+            name,
+            read: async () => {
+                const local = new DataView(await archive.slice(localOffset, localOffset + 30).arrayBuffer());
+                if (local.getUint32(0, true) !== LOCAL_HEADER_SIGNATURE) throw new Error(INVALID_ZIP);
+                const dataStart = localOffset + 30 + local.getUint16(26, true) + local.getUint16(28, true);
+                const data = archive.slice(dataStart, dataStart + compressedSize);
+                if (method === METHOD_STORE) return data;
+                if (method === METHOD_DEFLATE) {
+                    return new Response(data.stream().pipeThrough(new DecompressionStream('deflate-raw'))).blob();
+                }
+                throw new Error(`"${name}" uses an unsupported ZIP compression method.`);
+            },
+        });
+    }
+    return entries;
+};
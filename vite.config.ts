@@ -12,7 +12,11 @@ export default defineConfig(({ mode }) => {
       plugins: [react()],
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY),
+        'process.env.GEMINI_BASE_URL': JSON.stringify(env.GEMINI_BASE_URL),
+        'process.env.GEMINI_API_HEADERS': JSON.stringify(env.GEMINI_API_HEADERS),
+        'process.env.GEMINI_TRANSPORT': JSON.stringify(env.GEMINI_TRANSPORT),
+        'process.env.LINK_FETCH_PROXY': JSON.stringify(env.LINK_FETCH_PROXY)
       },
       resolve: {
         alias: {